@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { LedgerEntry } from 'xrpl'
+import { getAccountDeleteBlockers } from './account-delete'
+
+const ACCOUNT = 'rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn'
+const DESTINATION = 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfzbpAYe'
+const ISSUER = 'rAR8rR8sUkBoCZFawhkWzY4Y5YoyuznwD'
+
+const createAccountRoot = (Account: string, fields: Partial<LedgerEntry.AccountRoot> = {}) =>
+  ({ LedgerEntryType: 'AccountRoot', Account, Sequence: 1000, Flags: 0, ...fields }) as LedgerEntry.AccountRoot
+
+const getBlockers = (props: Partial<Parameters<typeof getAccountDeleteBlockers>[0]> = {}) =>
+  getAccountDeleteBlockers({
+    account: createAccountRoot(ACCOUNT),
+    ledgerIndex: 2000,
+    blockingObjects: [],
+    destinationAddress: DESTINATION,
+    destination: createAccountRoot(DESTINATION),
+    depositAuthorized: true,
+    ...props,
+  })
+
+describe('getAccountDeleteBlockers', () => {
+  it('allows deleting an old account without blockers to an existing destination', () => {
+    expect(getBlockers()).toEqual([])
+  })
+
+  it('requires the sequence and the last minted NFT to be 256 ledgers old', () => {
+    expect(getBlockers({ ledgerIndex: 1200 })).toEqual([
+      'Sequence 1000 must be at least 256 below the current ledger 1200, wait 56 more ledgers',
+    ])
+    expect(
+      getBlockers({ account: createAccountRoot(ACCOUNT, { FirstNFTokenSequence: 1900, MintedNFTokens: 4 }) }),
+    ).toEqual(['The last minted NFT is too recent, wait 160 more ledgers after the current ledger 2000'])
+  })
+
+  it('lists the objects blocking the deletion', () => {
+    const trustLine = {
+      LedgerEntryType: 'RippleState',
+      index: 'A1',
+      Balance: { currency: 'USD', issuer: ISSUER, value: '5' },
+      HighLimit: { currency: 'USD', issuer: ACCOUNT, value: '100' },
+      LowLimit: { currency: 'USD', issuer: ISSUER, value: '0' },
+    } as LedgerEntry.RippleState
+    const escrow = { LedgerEntryType: 'Escrow', index: 'B2', Amount: '10000000' } as LedgerEntry.Escrow
+
+    expect(getBlockers({ blockingObjects: [trustLine, escrow] })).toEqual([
+      `Trust line for USD with ${ISSUER} (balance 5): pay back any balance and reset the line to its default state with TrustSet`,
+      'Escrow B2 of 10 XRP: finish or cancel it',
+    ])
+  })
+
+  it('checks that the destination exists and accepts the deposit', () => {
+    expect(getBlockers({ destination: undefined })).toEqual([
+      `Destination ${DESTINATION} does not exist, fund it first`,
+    ])
+    expect(getBlockers({ destinationAddress: ACCOUNT })).toEqual(['The destination must be another account'])
+    expect(
+      getBlockers({
+        destination: createAccountRoot(DESTINATION, { Flags: LedgerEntry.AccountRootFlags.lsfRequireDestTag }),
+        depositAuthorized: false,
+      }),
+    ).toEqual([
+      `Destination ${DESTINATION} requires a DestinationTag`,
+      `Destination ${DESTINATION} requires deposit authorization and has not preauthorized ${ACCOUNT}`,
+    ])
+  })
+})
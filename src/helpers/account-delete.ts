@@ -0,0 +1,104 @@
+import { LedgerEntry, parseAccountRootFlags } from 'xrpl'
+import { formatAmount } from './transaction-summary'
+
+/**
+ * How many ledgers must pass after the Sequence of an account, or its last minted NFT, before it can be deleted
+ */
+export const ACCOUNT_DELETE_LEDGER_GAP = 256
+
+// Ledger entries account_objects can return, NFToken pages are not part of the LedgerEntry union of xrpl.js
+type AccountObject = LedgerEntry.LedgerEntry | LedgerEntry.NFTokenPage
+
+type AccountDeleteBlockersProps = {
+  // The account to delete, from the validated ledger
+  account: LedgerEntry.AccountRoot
+  // The validated ledger index the account was read from
+  ledgerIndex: number
+  // Objects owned by the account that block its deletion, from account_objects with deletion_blockers_only
+  blockingObjects: AccountObject[]
+  // Address of the destination of the remaining XRP
+  destinationAddress: string
+  // The destination account, undefined if it doesn't exist
+  destination?: LedgerEntry.AccountRoot
+  destinationTag?: number
+  // Whether the account may send to the destination, from deposit_authorized
+  depositAuthorized: boolean
+}
+
+// Describe an object that blocks the deletion, with the details needed to remove it
+const describeBlockingObject = (object: AccountObject, account: string): string => {
+  switch (object.LedgerEntryType) {
+    case 'RippleState': {
+      const counterparty = object.HighLimit.issuer === account ? object.LowLimit.issuer : object.HighLimit.issuer
+      return `Trust line for ${object.Balance.currency} with ${counterparty} (balance ${object.Balance.value}): pay back any balance and reset the line to its default state with TrustSet`
+    }
+    case 'Escrow':
+      return `Escrow ${object.index} of ${formatAmount(object.Amount)}: finish or cancel it`
+    case 'PayChannel':
+      return `Payment channel ${object.index} to ${object.Destination}: close it with PaymentChannelClaim`
+    case 'Check':
+      return `Check ${object.index} to ${object.Destination} for ${formatAmount(object.SendMax)}: cancel it`
+    case 'NFTokenPage':
+      return `NFToken page ${object.index} holding ${object.NFTokens.length} NFTs: burn or transfer them`
+    default:
+      return `${object.LedgerEntryType} ${object.index}: delete it first`
+  }
+}
+
+/**
+ * List what prevents an account from being deleted with AccountDelete, from ledger data
+ * @returns The blockers, each with how to remove it, empty if the account can be deleted
+ */
+export const getAccountDeleteBlockers = ({
+  account,
+  ledgerIndex,
+  blockingObjects,
+  destinationAddress,
+  destination,
+  destinationTag,
+  depositAuthorized,
+}: AccountDeleteBlockersProps): string[] => {
+  const blockers: string[] = []
+
+  const readyLedger = account.Sequence + ACCOUNT_DELETE_LEDGER_GAP
+  if (ledgerIndex < readyLedger) {
+    blockers.push(
+      `Sequence ${account.Sequence} must be at least ${ACCOUNT_DELETE_LEDGER_GAP} below the current ledger ${ledgerIndex}, wait ${readyLedger - ledgerIndex} more ledgers`,
+    )
+  }
+
+  // Accounts that minted NFTs also wait for their last minted NFT
+  const { FirstNFTokenSequence, MintedNFTokens } = account
+  if (FirstNFTokenSequence !== undefined && MintedNFTokens !== undefined) {
+    const readyAfterMint = FirstNFTokenSequence + MintedNFTokens + ACCOUNT_DELETE_LEDGER_GAP
+    if (ledgerIndex < readyAfterMint) {
+      blockers.push(
+        `The last minted NFT is too recent, wait ${readyAfterMint - ledgerIndex} more ledgers after the current ledger ${ledgerIndex}`,
+      )
+    }
+  }
+
+  if (account.AMMID) {
+    blockers.push('The account is the account of an AMM, it is deleted with the AMM')
+  }
+
+  blockers.push(...blockingObjects.map(object => describeBlockingObject(object, account.Account)))
+
+  if (destinationAddress === account.Account) {
+    blockers.push('The destination must be another account')
+  } else if (!destination) {
+    blockers.push(`Destination ${destinationAddress} does not exist, fund it first`)
+  } else {
+    if (parseAccountRootFlags(destination.Flags).lsfRequireDestTag && destinationTag === undefined) {
+      blockers.push(`Destination ${destinationAddress} requires a DestinationTag`)
+    }
+
+    if (!depositAuthorized) {
+      blockers.push(
+        `Destination ${destinationAddress} requires deposit authorization and has not preauthorized ${account.Account}`,
+      )
+    }
+  }
+
+  return blockers
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { LedgerEntry } from 'xrpl'
+import { credentialTypeToHex, hexToCredentialType, summarizeCredential } from './credential'
+
+const ISSUER = 'ra5nK24KXen9AHvsdFTKHSANinZseWnPcX'
+const SUBJECT = 'rsUiUMpnrgxQp24dJYZDhmV4bE3aBtQyt8'
+
+const createCredential = (fields: Partial<LedgerEntry.Credential> = {}) =>
+  ({
+    LedgerEntryType: 'Credential',
+    index: 'C1',
+    Flags: 0,
+    Issuer: ISSUER,
+    Subject: SUBJECT,
+    CredentialType: credentialTypeToHex('KYC'),
+    ...fields,
+  }) as LedgerEntry.Credential
+
+describe('credentialTypeToHex', () => {
+  it('hex-encodes credential types and decodes them back', () => {
+    expect(credentialTypeToHex('KYC')).toBe('4B5943')
+    expect(hexToCredentialType('4B5943')).toBe('KYC')
+    expect(hexToCredentialType('00FF')).toBe('00FF')
+  })
+
+  it('rejects empty or too long credential types', () => {
+    expect(() => credentialTypeToHex('')).toThrow('CredentialType must be 1 to 64 bytes')
+    expect(() => credentialTypeToHex('A'.repeat(65))).toThrow('CredentialType must be 1 to 64 bytes')
+  })
+})
+
+describe('summarizeCredential', () => {
+  it('describes a pending credential from the issuer side', () => {
+    expect(summarizeCredential(createCredential(), ISSUER, 1000)).toEqual({
+      credentialId: 'C1',
+      issuer: ISSUER,
+      subject: SUBJECT,
+      credentialType: 'KYC',
+      role: 'issuer',
+      accepted: false,
+      expiration: undefined,
+      expired: false,
+      uri: undefined,
+    })
+  })
+
+  it('reports accepted and expired credentials of the subject', () => {
+    const credential = createCredential({ Flags: 0x00010000, Expiration: 1000, URI: '68747470733A2F2F6B7963' })
+
+    expect(summarizeCredential(credential, SUBJECT, 1000)).toMatchObject({
+      role: 'subject',
+      accepted: true,
+      expiration: '2000-01-01T00:16:40.000Z',
+      expired: true,
+      uri: 'https://kyc',
+    })
+  })
+})
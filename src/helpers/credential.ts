@@ -0,0 +1,72 @@
+import { convertHexToString, convertStringToHex, LedgerEntry, rippleTimeToISOTime } from 'xrpl'
+
+/**
+ * Maximum length of a credential type, in bytes
+ */
+export const MAX_CREDENTIAL_TYPE_LENGTH = 64
+
+// lsfAccepted, set once the subject accepted the credential
+const LSF_ACCEPTED = 0x00010000
+
+/**
+ * Readable view of a Credential ledger entry, from the point of view of one account
+ */
+export type CredentialSummary = {
+  // Ledger entry ID of the credential, presented with CredentialIDs
+  credentialId: string
+  issuer: string
+  subject: string
+  // Type of the credential as text, or hex if it isn't printable
+  credentialType: string
+  // Whether the account issued the credential or is its subject
+  role: 'issuer' | 'subject'
+  accepted: boolean
+  // ISO date after which the credential is no longer valid
+  expiration?: string
+  expired: boolean
+  uri?: string
+}
+
+/**
+ * Hex-encode a credential type given as plain text
+ * @throws If the credential type is empty or longer than 64 bytes
+ */
+export const credentialTypeToHex = (credentialType: string): string => {
+  const length = Buffer.byteLength(credentialType, 'utf8')
+
+  if (length === 0 || length > MAX_CREDENTIAL_TYPE_LENGTH) {
+    throw new Error(`CredentialType must be 1 to ${MAX_CREDENTIAL_TYPE_LENGTH} bytes: ${credentialType}`)
+  }
+
+  return convertStringToHex(credentialType)
+}
+
+// Convert a hex credential type back to text
+// Types that don't decode to printable text are returned as is
+export const hexToCredentialType = (hex: string) => {
+  const text = convertHexToString(hex)
+
+  return /^[\x20-\x7E]+$/.test(text) ? text : hex
+}
+
+/**
+ * Summarize a Credential ledger entry for an account that issued it or is its subject
+ * @param credential - The Credential entry, from account_objects
+ * @param account - The account the credential was listed for
+ * @param now - The current time, in seconds since the Ripple Epoch
+ */
+export const summarizeCredential = (
+  credential: LedgerEntry.Credential,
+  account: string,
+  now: number,
+): CredentialSummary => ({
+  credentialId: credential.index,
+  issuer: credential.Issuer,
+  subject: credential.Subject,
+  credentialType: hexToCredentialType(credential.CredentialType),
+  role: credential.Issuer === account ? 'issuer' : 'subject',
+  accepted: (Number(credential.Flags) & LSF_ACCEPTED) !== 0,
+  expiration: credential.Expiration === undefined ? undefined : rippleTimeToISOTime(credential.Expiration),
+  expired: credential.Expiration !== undefined && credential.Expiration <= now,
+  uri: credential.URI && convertHexToString(credential.URI),
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  fulfillmentToPreimage,
+  generateCryptoCondition,
+  preimageToCondition,
+  preimageToFulfillment,
+  verifyCryptoCondition,
+} from './crypto-condition'
+
+// Empty preimage vector from the XRPL documentation
+const EMPTY_CONDITION = 'A0258020E3B0C44298FC1C149AFBF4C8996FB92427AE41E4649B934CA495991B7852B855810100'
+const EMPTY_FULFILLMENT = 'A0028000'
+
+describe('preimageToCondition', () => {
+  it('encodes the condition of a preimage', () => {
+    expect(preimageToCondition(Buffer.alloc(0))).toBe(EMPTY_CONDITION)
+  })
+})
+
+describe('preimageToFulfillment', () => {
+  it('encodes the fulfillment of a preimage', () => {
+    expect(preimageToFulfillment(Buffer.alloc(0))).toBe(EMPTY_FULFILLMENT)
+    expect(preimageToFulfillment(Buffer.alloc(32, 0xab))).toBe(`A0228020${'AB'.repeat(32)}`)
+  })
+
+  it('uses the long form length for large preimages', () => {
+    const fulfillment = preimageToFulfillment(Buffer.alloc(200, 1))
+    expect(fulfillment.startsWith('A081CB8081C8')).toBe(true)
+    expect(fulfillmentToPreimage(fulfillment)).toEqual(Buffer.alloc(200, 1))
+  })
+})
+
+describe('fulfillmentToPreimage', () => {
+  it('extracts the preimage of a fulfillment', () => {
+    expect(fulfillmentToPreimage(`A0228020${'AB'.repeat(32)}`)).toEqual(Buffer.alloc(32, 0xab))
+  })
+
+  it('rejects invalid fulfillments', () => {
+    expect(() => fulfillmentToPreimage('not hex')).toThrow('Fulfillment must be a hex string')
+    expect(() => fulfillmentToPreimage('A1028000')).toThrow('not a PREIMAGE-SHA-256 fulfillment')
+    expect(() => fulfillmentToPreimage('A0058000')).toThrow('Unexpected end')
+  })
+})
+
+describe('generateCryptoCondition', () => {
+  it('generates a random 32 bytes preimage by default', () => {
+    const { condition, fulfillment, preimage } = generateCryptoCondition()
+
+    expect(preimage).toHaveLength(64)
+    expect(fulfillment).toBe(`A0228020${preimage}`)
+    expect(condition).toHaveLength(78)
+    expect(condition.endsWith('810120')).toBe(true)
+  })
+
+  it('uses the provided preimage', () => {
+    expect(generateCryptoCondition('')).toEqual({
+      condition: EMPTY_CONDITION,
+      fulfillment: EMPTY_FULFILLMENT,
+      preimage: '',
+    })
+  })
+
+  it('rejects preimages that are too long', () => {
+    expect(() => generateCryptoCondition('00'.repeat(257))).toThrow('Preimage must be at most 256 bytes')
+  })
+})
+
+describe('verifyCryptoCondition', () => {
+  it('verifies matching pairs', () => {
+    const { condition, fulfillment } = generateCryptoCondition()
+
+    expect(verifyCryptoCondition(condition, fulfillment)).toBe(true)
+    expect(verifyCryptoCondition(condition.toLowerCase(), fulfillment.toLowerCase())).toBe(true)
+    expect(verifyCryptoCondition(EMPTY_CONDITION, EMPTY_FULFILLMENT)).toBe(true)
+  })
+
+  it('rejects mismatching pairs', () => {
+    const { condition } = generateCryptoCondition()
+
+    expect(verifyCryptoCondition(condition, EMPTY_FULFILLMENT)).toBe(false)
+  })
+})
@@ -0,0 +1,182 @@
+import { createHash, randomBytes } from 'node:crypto'
+
+// PREIMAGE-SHA-256 crypto-conditions as defined by draft-thomas-crypto-conditions-04
+// Reference: https://xrpl.org/docs/references/protocol/transactions/types/escrowcreate#escrowcreate-fields
+
+// ASN.1 DER tags of the PREIMAGE-SHA-256 type
+const PREIMAGE_SHA256_TAG = 0xa0
+const FINGERPRINT_TAG = 0x80
+const COST_TAG = 0x81
+const PREIMAGE_TAG = 0x80
+
+// Maximum preimage length, keeps the fulfillment within the size accepted by rippled
+const MAX_PREIMAGE_LENGTH = 256
+
+/**
+ * Encode a DER length prefix
+ * @param length - The length to encode
+ * @returns The encoded length
+ */
+const encodeLength = (length: number): Buffer => {
+  if (length < 0x80) {
+    return Buffer.from([length])
+  }
+
+  const bytes: number[] = []
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining % 256)
+  }
+
+  return Buffer.from([0x80 | bytes.length, ...bytes])
+}
+
+/**
+ * Encode a DER TLV (tag, length, value) element
+ */
+const encodeElement = (tag: number, value: Buffer): Buffer => {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(value.length), value])
+}
+
+/**
+ * Encode a non-negative integer as the minimal unsigned big-endian DER value
+ */
+const encodeUnsignedInteger = (value: number): Buffer => {
+  const bytes: number[] = []
+  for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining % 256)
+  }
+
+  // Zero is a single byte and a leading zero keeps the value positive
+  if (bytes.length === 0 || bytes[0] >= 0x80) {
+    bytes.unshift(0)
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Decode a DER TLV element at the start of a buffer
+ * @returns The tag, the value and the total length of the element
+ */
+const decodeElement = (buffer: Buffer): { tag: number; value: Buffer; length: number } => {
+  if (buffer.length < 2) {
+    throw new Error('Unexpected end of crypto-condition data')
+  }
+
+  const tag = buffer[0]
+  let offset = 2
+  let valueLength = buffer[1]
+
+  // Long form length
+  if (valueLength & 0x80) {
+    const lengthBytes = valueLength & 0x7f
+    if (lengthBytes === 0 || lengthBytes > 4 || buffer.length < 2 + lengthBytes) {
+      throw new Error('Invalid crypto-condition length encoding')
+    }
+
+    valueLength = 0
+    for (let i = 0; i < lengthBytes; i++) {
+      valueLength = valueLength * 256 + buffer[2 + i]
+    }
+    offset += lengthBytes
+  }
+
+  if (buffer.length < offset + valueLength) {
+    throw new Error('Unexpected end of crypto-condition data')
+  }
+
+  return { tag, value: buffer.subarray(offset, offset + valueLength), length: offset + valueLength }
+}
+
+/**
+ * Parse a hex string into a buffer
+ */
+const fromHex = (hex: string, name: string): Buffer => {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error(`${name} must be a hex string`)
+  }
+
+  return Buffer.from(hex, 'hex')
+}
+
+/**
+ * Build the hex encoded PREIMAGE-SHA-256 condition for a preimage
+ * @param preimage - The secret preimage
+ * @returns The condition as an uppercase hex string, as expected by EscrowCreate.Condition
+ */
+export const preimageToCondition = (preimage: Buffer): string => {
+  const fingerprint = createHash('sha256').update(preimage).digest()
+
+  const condition = encodeElement(
+    PREIMAGE_SHA256_TAG,
+    Buffer.concat([
+      encodeElement(FINGERPRINT_TAG, fingerprint),
+      encodeElement(COST_TAG, encodeUnsignedInteger(preimage.length)),
+    ]),
+  )
+
+  return condition.toString('hex').toUpperCase()
+}
+
+/**
+ * Build the hex encoded PREIMAGE-SHA-256 fulfillment for a preimage
+ * @param preimage - The secret preimage
+ * @returns The fulfillment as an uppercase hex string, as expected by EscrowFinish.Fulfillment
+ */
+export const preimageToFulfillment = (preimage: Buffer): string => {
+  const fulfillment = encodeElement(PREIMAGE_SHA256_TAG, encodeElement(PREIMAGE_TAG, preimage))
+
+  return fulfillment.toString('hex').toUpperCase()
+}
+
+/**
+ * Extract the preimage from a hex encoded PREIMAGE-SHA-256 fulfillment
+ * @param fulfillment - The fulfillment hex string
+ * @returns The preimage
+ */
+export const fulfillmentToPreimage = (fulfillment: string): Buffer => {
+  const buffer = fromHex(fulfillment, 'Fulfillment')
+
+  const outer = decodeElement(buffer)
+  if (outer.tag !== PREIMAGE_SHA256_TAG || outer.length !== buffer.length) {
+    throw new Error('Fulfillment is not a PREIMAGE-SHA-256 fulfillment')
+  }
+
+  const inner = decodeElement(outer.value)
+  if (inner.tag !== PREIMAGE_TAG || inner.length !== outer.value.length) {
+    throw new Error('Fulfillment is not a PREIMAGE-SHA-256 fulfillment')
+  }
+
+  return inner.value
+}
+
+/**
+ * Generate a PREIMAGE-SHA-256 condition and fulfillment pair
+ * @param preimageHex - Optional hex preimage, 32 random bytes are used if not provided
+ * @returns The condition, the fulfillment and the preimage as uppercase hex strings
+ */
+export const generateCryptoCondition = (preimageHex?: string) => {
+  const preimage = preimageHex === undefined ? randomBytes(32) : fromHex(preimageHex, 'Preimage')
+
+  if (preimage.length > MAX_PREIMAGE_LENGTH) {
+    throw new Error(`Preimage must be at most ${MAX_PREIMAGE_LENGTH} bytes`)
+  }
+
+  return {
+    condition: preimageToCondition(preimage),
+    fulfillment: preimageToFulfillment(preimage),
+    preimage: preimage.toString('hex').toUpperCase(),
+  }
+}
+
+/**
+ * Verify that a PREIMAGE-SHA-256 fulfillment matches a condition
+ * @param condition - The condition hex string
+ * @param fulfillment - The fulfillment hex string
+ * @returns Whether the fulfillment matches the condition
+ */
+export const verifyCryptoCondition = (condition: string, fulfillment: string): boolean => {
+  const preimage = fulfillmentToPreimage(fulfillment)
+
+  return preimageToCondition(preimage) === condition.toUpperCase()
+}
@@ -1,4 +1,4 @@
-import { convertStringToHex } from 'xrpl'
+import { convertHexToString, convertStringToHex } from 'xrpl'
 
 // If the string is 3 characters long, return it as is
 // Otherwise, convert it to hex
@@ -9,3 +9,11 @@ export const currencyCodeToHex = (str: string) => {
 
   return convertStringToHex(str).padEnd(40, '0')
 }
+
+// Convert a 160-bit hex currency code back to text, without its zero padding
+// Codes that don't decode to printable text, such as LP token codes, are returned as is
+export const hexToCurrencyCode = (hex: string) => {
+  const text = convertHexToString(hex).replace(/\0+$/, '')
+
+  return /^[\x20-\x7E]+$/.test(text) ? text : hex
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { explainEngineResult, isEngineResultCode } from './engine-result'
+
+describe('isEngineResultCode', () => {
+  it('checks the code is in the catalog', () => {
+    expect(isEngineResultCode('tecPATH_DRY')).toBe(true)
+    expect(isEngineResultCode('tecSOMETHING_NEW')).toBe(false)
+    expect(isEngineResultCode('toString')).toBe(false)
+  })
+})
+
+describe('explainEngineResult', () => {
+  it('derives the category from the class of the code', () => {
+    expect(explainEngineResult('tesSUCCESS')?.category).toBe('success')
+    expect(explainEngineResult('tecPATH_DRY')?.category).toBe('claimed-fee')
+    expect(explainEngineResult('tefPAST_SEQ')?.category).toBe('permanent')
+    expect(explainEngineResult('temBAD_AMOUNT')?.category).toBe('permanent')
+    expect(explainEngineResult('telINSUF_FEE_P')?.category).toBe('retryable')
+    expect(explainEngineResult('terQUEUED')?.category).toBe('retryable')
+  })
+
+  it('returns the catalog entry of a known code', () => {
+    expect(explainEngineResult('tecNO_DST')).toEqual({
+      code: 'tecNO_DST',
+      category: 'claimed-fee',
+      known: true,
+      description: expect.any(String),
+      fix: expect.any(String),
+    })
+  })
+
+  it('falls back to the class of an unknown code', () => {
+    expect(explainEngineResult('tecSOMETHING_NEW')).toMatchObject({ category: 'claimed-fee', known: false })
+  })
+
+  it('returns undefined for anything else', () => {
+    expect(explainEngineResult('notACode')).toBeUndefined()
+  })
+})
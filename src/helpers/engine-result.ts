@@ -0,0 +1,861 @@
+/**
+ * What a result code means for the transaction
+ * - success: the transaction was applied
+ * - claimed-fee: the transaction is in a ledger and paid the fee, but did not do what it was meant to do
+ * - retryable: the transaction was not applied yet, the same transaction may succeed later
+ * - permanent: the transaction can never be applied as is, it must be fixed and signed again
+ */
+export type EngineResultCategory = 'success' | 'claimed-fee' | 'retryable' | 'permanent'
+
+type EngineResultInfo = {
+  // What the code means
+  description: string
+  // How to fix or handle it
+  fix: string
+}
+
+/**
+ * Catalog of the transaction engine result codes
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/transaction-results
+ */
+const ENGINE_RESULTS = {
+  // tes: Success
+  tesSUCCESS: {
+    description: 'The transaction was applied and will be final once in a validated ledger.',
+    fix: 'Nothing to fix. Check that the result is validated before relying on it.',
+  },
+
+  // tec: Claimed fee, the transaction is in a ledger but failed
+  tecAMM_ACCOUNT: {
+    description: 'The operation is not allowed on an AMM account.',
+    fix: 'Use the AMM transactions (AMMDeposit, AMMWithdraw, ...) to interact with the AMM instead.',
+  },
+  tecAMM_BALANCE: {
+    description: 'The AMM does not have enough of an asset, or the sender does not hold enough LP tokens.',
+    fix: 'Check the pool with amm_info and the LP token balance with account_lines, then request a smaller amount.',
+  },
+  tecAMM_EMPTY: {
+    description: 'The AMM has no assets in its pool.',
+    fix: 'Refill the AMM with an AMMDeposit using tfTwoAssetIfEmpty, or delete it with AMMDelete.',
+  },
+  tecAMM_FAILED: {
+    description:
+      'The AMM transaction failed, e.g. the deposit or withdrawal conditions (EPrice, minimum amounts) could not be met.',
+    fix: 'Check the pool with amm_info and relax the limits of the transaction.',
+  },
+  tecAMM_INVALID_TOKENS: {
+    description: 'The AMM transaction would result in too few LP tokens, or the LP token amount is invalid.',
+    fix: 'Increase the amount deposited, or adjust LPTokenOut / LPTokenIn.',
+  },
+  tecAMM_NOT_EMPTY: {
+    description: 'The AMM still holds assets, so it cannot be deleted or refilled as empty.',
+    fix: 'Withdraw all the liquidity first, or use a regular AMMDeposit mode.',
+  },
+  tecARRAY_EMPTY: {
+    description: 'An array field of the transaction is empty.',
+    fix: 'Provide at least one entry in the array.',
+  },
+  tecARRAY_TOO_LARGE: {
+    description: 'An array field of the transaction has too many entries.',
+    fix: 'Reduce the number of entries in the array.',
+  },
+  tecBAD_CREDENTIALS: {
+    description: 'The credentials provided are invalid, expired, not accepted, or do not belong to the sender.',
+    fix: 'Check the credentials with ledger_entry, have the subject accept them, and pass only valid CredentialIDs.',
+  },
+  tecCANT_ACCEPT_OWN_NFTOKEN_OFFER: {
+    description: 'The sender cannot accept an NFT offer it created.',
+    fix: 'Have another account accept the offer, or cancel it.',
+  },
+  tecCLAIM: {
+    description: 'An unspecified failure, only the fee was charged.',
+    fix: 'Check the transaction fields and the ledger state, then try again.',
+  },
+  tecCRYPTOCONDITION_ERROR: {
+    description: 'The crypto-condition or fulfillment is invalid, or the fulfillment does not match the condition.',
+    fix: 'Use the fulfillment generated together with the condition, check it with verify-crypto-condition.',
+  },
+  tecDIR_FULL: {
+    description: 'The owner directory of the account is full, it cannot own more objects.',
+    fix: 'Remove objects the account no longer needs (offers, trust lines, tickets) before creating new ones.',
+  },
+  tecDST_TAG_NEEDED: {
+    description: 'The destination requires a destination tag.',
+    fix: 'Ask the recipient for their destination tag and set DestinationTag.',
+  },
+  tecDUPLICATE: {
+    description: 'The object the transaction would create already exists.',
+    fix: 'Use the existing object, or delete it first.',
+  },
+  tecEMPTY_DID: {
+    description: 'The DID would be empty.',
+    fix: 'Provide at least one of URI, DIDDocument or Data, or delete the DID.',
+  },
+  tecEXPIRED: {
+    description: 'The expiration time of the object or transaction has already passed.',
+    fix: 'Use a time in the future. Ledger close times can lag wall-clock time by a few seconds.',
+  },
+  tecFAILED_PROCESSING: {
+    description: 'An unspecified error occurred while processing the transaction.',
+    fix: 'Check the transaction fields and the ledger state, then try again.',
+  },
+  tecFROZEN: {
+    description: 'The asset is frozen, either globally by the issuer or on the trust line.',
+    fix: 'Ask the issuer to unfreeze the asset, or use another asset.',
+  },
+  tecHAS_OBLIGATIONS: {
+    description: 'The account or object still has obligations, e.g. owned objects or outstanding balances.',
+    fix: 'Remove the owned objects or settle the balances first.',
+  },
+  tecHOOK_REJECTED: {
+    description: 'A hook rejected the transaction.',
+    fix: 'Check the hook rules of the accounts involved.',
+  },
+  tecINCOMPLETE: {
+    description: 'The transaction could not process everything in one go, e.g. deleting many objects.',
+    fix: 'Submit the same transaction again to continue.',
+  },
+  tecINSUFFICIENT_FUNDS: {
+    description: 'The sender does not hold enough of the asset.',
+    fix: 'Check the balance with account_info or account_lines and send a smaller amount.',
+  },
+  tecINSUFFICIENT_PAYMENT: {
+    description: 'The amount paid is not enough to cover the required price.',
+    fix: 'Increase the amount paid.',
+  },
+  tecINSUFFICIENT_RESERVE: {
+    description: 'The account does not hold enough XRP to meet the reserve for the new object.',
+    fix: 'Send more XRP to the account, or delete objects it no longer needs. Check the reserves with server_info.',
+  },
+  tecINSUFF_FEE: {
+    description: 'The account does not hold enough XRP to pay the specified fee.',
+    fix: 'Send more XRP to the account or lower the Fee.',
+  },
+  tecINSUF_RESERVE_LINE: {
+    description: 'The account does not hold enough XRP to meet the reserve for a new trust line.',
+    fix: 'Send more XRP to the account, or remove trust lines it no longer needs.',
+  },
+  tecINSUF_RESERVE_OFFER: {
+    description: 'The account does not hold enough XRP to meet the reserve for a new offer.',
+    fix: 'Send more XRP to the account, or cancel offers it no longer needs.',
+  },
+  tecINTERNAL: {
+    description: 'An unexpected internal error occurred while applying the transaction.',
+    fix: 'Try again later. Report the transaction to the server operators if it persists.',
+  },
+  tecINVALID_UPDATE_TIME: {
+    description: 'The LastUpdateTime of the oracle is invalid.',
+    fix: 'Use a LastUpdateTime within 300 seconds of the ledger close time, later than the previous update.',
+  },
+  tecINVARIANT_FAILED: {
+    description: 'Applying the transaction would break a ledger invariant, only the fee was charged.',
+    fix: 'This is likely a server bug. Report the transaction to the server operators.',
+  },
+  tecKILLED: {
+    description: 'A tfFillOrKill offer or an AMM deposit could not be filled in full, and was killed.',
+    fix: 'Change the price or amount, or remove the fill-or-kill requirement.',
+  },
+  tecLIMIT_EXCEEDED: {
+    description: 'The transaction would exceed a limit, e.g. the maximum amount of a token or vault.',
+    fix: 'Use a smaller amount.',
+  },
+  tecLOCKED: {
+    description: 'The token is locked by its issuer.',
+    fix: 'Ask the issuer to unlock the token.',
+  },
+  tecMAX_SEQUENCE_REACHED: {
+    description: 'A sequence number would exceed its maximum, e.g. the NFT sequence of the issuer.',
+    fix: 'Use another account.',
+  },
+  tecNEED_MASTER_KEY: {
+    description: 'The operation requires the master key, e.g. to disable the master key or give up the no-freeze flag.',
+    fix: 'Sign the transaction with the master key of the account.',
+  },
+  tecNFTOKEN_BUY_SELL_MISMATCH: {
+    description: 'The buy and sell offers of a brokered NFT sale do not match.',
+    fix: 'Pair offers for the same NFT, in the same currency, with a buy amount covering the sell amount and the broker fee.',
+  },
+  tecNFTOKEN_OFFER_TYPE_MISMATCH: {
+    description: 'An offer given as a buy offer is a sell offer, or the other way around.',
+    fix: 'Swap NFTokenBuyOffer and NFTokenSellOffer.',
+  },
+  tecNO_ALTERNATIVE_KEY: {
+    description: 'The transaction would remove the only way to sign for the account.',
+    fix: 'Set a regular key or a signer list before disabling the master key or removing the other method.',
+  },
+  tecNO_AUTH: {
+    description: 'The issuer requires authorization and the trust line is not authorized.',
+    fix: 'Ask the issuer to authorize the trust line (TrustSet with tfSetfAuth).',
+  },
+  tecNO_DELEGATE_PERMISSION: {
+    description: 'The delegate account is not allowed to send this transaction on behalf of the account.',
+    fix: 'Grant the permission with DelegateSet, or sign as the account itself.',
+  },
+  tecNO_DST: {
+    description: 'The destination account does not exist.',
+    fix: 'Send enough XRP to meet the base reserve to create the account, or check the address.',
+  },
+  tecNO_DST_INSUF_XRP: {
+    description: 'The destination account does not exist and the payment does not send enough XRP to create it.',
+    fix: 'Send at least the base reserve (see server_info) to create the account.',
+  },
+  tecNO_ENTRY: {
+    description: 'The ledger object the transaction refers to does not exist.',
+    fix: 'Check the object ID or the fields identifying it, e.g. with account_objects.',
+  },
+  tecNO_ISSUER: {
+    description: 'The issuer of the token does not exist.',
+    fix: 'Check the issuer address.',
+  },
+  tecNO_LINE: {
+    description: 'The account does not have the required trust line.',
+    fix: 'Create the trust line with TrustSet first.',
+  },
+  tecNO_LINE_INSUF_RESERVE: {
+    description: 'There is no trust line, and the account does not hold enough XRP to create one.',
+    fix: 'Send more XRP to the account, then create the trust line.',
+  },
+  tecNO_LINE_REDUNDANT: {
+    description: 'The trust line would be set to its default state, so there is nothing to create.',
+    fix: 'Set a non-zero limit or non-default flags, or skip the transaction.',
+  },
+  tecNO_PERMISSION: {
+    description: 'The sender does not have permission to do this.',
+    fix: 'Check who is allowed to send this transaction, e.g. the owner, issuer or destination of the object.',
+  },
+  tecNO_REGULAR_KEY: {
+    description: 'The master key cannot be disabled because the account has no regular key or signer list.',
+    fix: 'Set a regular key or a signer list first.',
+  },
+  tecNO_SUITABLE_NFTOKEN_PAGE: {
+    description: 'There is no NFT page with room for the NFT.',
+    fix: 'Burn or transfer some NFTs of the account, or send more XRP to meet the reserve for a new page.',
+  },
+  tecNO_TARGET: {
+    description: 'The target of the transaction does not exist or is not valid.',
+    fix: 'Check the account or object targeted by the transaction.',
+  },
+  tecOBJECT_NOT_FOUND: {
+    description: 'A ledger object required by the transaction was not found.',
+    fix: 'Check the IDs used by the transaction, e.g. with ledger_entry.',
+  },
+  tecOVERSIZE: {
+    description: 'Applying the transaction would require too much metadata.',
+    fix: 'Split the operation into smaller transactions.',
+  },
+  tecOWNERS: {
+    description: 'The account owns objects that must be removed first.',
+    fix: 'Delete the objects owned by the account, see account_objects.',
+  },
+  tecPATH_DRY: {
+    description:
+      'The payment could not deliver anything: there is no liquidity along the paths, or trust lines are missing or full.',
+    fix: 'Check that the destination has a trust line with enough limit, that the issuer has Default Ripple enabled, and that there is liquidity (book_offers, ripple_path_find).',
+  },
+  tecPATH_PARTIAL: {
+    description: 'The payment could only deliver part of the amount with the SendMax and paths provided.',
+    fix: 'Increase SendMax, find better paths with ripple_path_find, or use tfPartialPayment if a partial amount is acceptable.',
+  },
+  tecPRECISION_LOSS: {
+    description: 'The amounts involved would lose too much precision.',
+    fix: 'Use amounts of a more similar magnitude.',
+  },
+  tecPSEUDO_ACCOUNT: {
+    description: 'The operation is not allowed on a pseudo-account, such as an AMM or vault account.',
+    fix: 'Use the dedicated transactions of the pseudo-account.',
+  },
+  tecTOKEN_PAIR_NOT_FOUND: {
+    description: 'The token pair of the price oracle does not exist.',
+    fix: 'Check the BaseAsset and QuoteAsset of the oracle.',
+  },
+  tecTOO_SOON: {
+    description: 'The transaction cannot be applied yet, e.g. an escrow or account deletion that is too recent.',
+    fix: 'Wait until the required time or ledger is reached, then submit again.',
+  },
+  tecUNFUNDED: {
+    description: 'The account does not hold enough XRP, above the reserve, for this transaction.',
+    fix: 'Send more XRP to the account, or use a smaller amount.',
+  },
+  tecUNFUNDED_ADD: {
+    description: 'The account does not hold enough XRP to add to the payment channel or escrow.',
+    fix: 'Send more XRP to the account, or use a smaller amount.',
+  },
+  tecUNFUNDED_AMM: {
+    description: 'The account does not hold enough of the assets to fund the AMM.',
+    fix: 'Check the balances of the account and use smaller amounts.',
+  },
+  tecUNFUNDED_OFFER: {
+    description: 'The account does not hold any of the asset it offers to sell.',
+    fix: 'Fund the account with the asset sold by the offer (TakerGets) first.',
+  },
+  tecUNFUNDED_PAYMENT: {
+    description: 'The account does not hold enough to send the payment.',
+    fix: 'Check the balance, keeping the XRP reserve in mind, and send a smaller amount.',
+  },
+  tecWRONG_ASSET: {
+    description: 'The asset does not match the asset expected by the object, e.g. a vault.',
+    fix: 'Use the asset of the object.',
+  },
+  tecXCHAIN_ACCOUNT_CREATE_PAST: {
+    description: 'The cross-chain account create was already processed.',
+    fix: 'Nothing to do, the account creation already happened.',
+  },
+  tecXCHAIN_ACCOUNT_CREATE_TOO_MANY: {
+    description: 'There are too many pending cross-chain account creations.',
+    fix: 'Wait for the pending account creations to be processed, then try again.',
+  },
+  tecXCHAIN_BAD_CLAIM_ID: {
+    description: 'The cross-chain claim ID is invalid.',
+    fix: 'Use the claim ID created with XChainCreateClaimID.',
+  },
+  tecXCHAIN_BAD_PUBLIC_KEY_ACCOUNT_PAIR: {
+    description: 'The public key of the witness does not match its account.',
+    fix: 'Check the witness signing key.',
+  },
+  tecXCHAIN_BAD_TRANSFER_ISSUE: {
+    description: 'The asset sent does not match the asset of the bridge.',
+    fix: 'Send the asset defined by the bridge.',
+  },
+  tecXCHAIN_CLAIM_NO_QUORUM: {
+    description: 'The cross-chain claim does not have enough attestations.',
+    fix: 'Wait for more witness attestations, then try again.',
+  },
+  tecXCHAIN_CREATE_ACCOUNT_DISABLED: {
+    description: 'Account creation is disabled on this bridge.',
+    fix: 'Create the account on the other chain another way.',
+  },
+  tecXCHAIN_CREATE_ACCOUNT_NONXRP_ISSUE: {
+    description: 'Accounts can only be created across a bridge that transfers XRP.',
+    fix: 'Use an XRP bridge.',
+  },
+  tecXCHAIN_INSUFF_CREATE_AMOUNT: {
+    description: 'The amount is below the minimum required to create an account across the bridge.',
+    fix: 'Send at least the MinAccountCreateAmount of the bridge.',
+  },
+  tecXCHAIN_NO_CLAIM_ID: {
+    description: 'The cross-chain claim ID does not exist.',
+    fix: 'Create a claim ID with XChainCreateClaimID first.',
+  },
+  tecXCHAIN_NO_SIGNERS_LIST: {
+    description: 'The door account of the bridge has no signer list.',
+    fix: 'Set a signer list on the door account.',
+  },
+  tecXCHAIN_PAYMENT_FAILED: {
+    description: 'The payment to the destination on the other chain failed.',
+    fix: 'Check the destination account on the other chain.',
+  },
+  tecXCHAIN_PROOF_UNKNOWN_KEY: {
+    description: 'The attestation is signed with a key that is not in the signer list of the door account.',
+    fix: 'Check the witness server configuration.',
+  },
+  tecXCHAIN_REWARD_MISMATCH: {
+    description: 'The signature reward does not match the reward of the bridge.',
+    fix: 'Use the SignatureReward of the bridge.',
+  },
+  tecXCHAIN_SELF_COMMIT: {
+    description: 'The door account cannot commit to its own bridge.',
+    fix: 'Commit from another account.',
+  },
+  tecXCHAIN_SENDING_ACCOUNT_MISMATCH: {
+    description: 'The sending account does not match the account of the claim ID.',
+    fix: 'Send from the account that created the claim ID.',
+  },
+  tecXCHAIN_WRONG_CHAIN: {
+    description: 'The transaction was sent to the wrong chain of the bridge.',
+    fix: 'Submit it on the other chain.',
+  },
+
+  // tef: Failure, the transaction was not applied and cannot be as is
+  tefALREADY: {
+    description: 'The same transaction was already applied.',
+    fix: 'Nothing to do. Look up the hash to get its result.',
+  },
+  tefBAD_ADD_AUTH: {
+    description: 'The account is not authorized to add this authorization.',
+    fix: 'Check the permissions of the sender.',
+  },
+  tefBAD_AUTH: {
+    description: 'The key used to sign is not authorized for the account.',
+    fix: 'Sign with the master key, the regular key or the signers of the account.',
+  },
+  tefBAD_AUTH_MASTER: {
+    description: 'The master key signed the transaction but it is disabled, or the key does not match the account.',
+    fix: 'Sign with the regular key or the signer list of the account.',
+  },
+  tefBAD_LEDGER: {
+    description: 'The ledger is in an unexpected state.',
+    fix: 'Try again later. Report it to the server operators if it persists.',
+  },
+  tefBAD_QUORUM: {
+    description: 'The signatures of a multi-signed transaction do not reach the quorum of the signer list.',
+    fix: 'Collect more signatures, until the sum of the signer weights reaches SignerQuorum.',
+  },
+  tefBAD_SIGNATURE: {
+    description: 'A multi-signature is from an account that is not in the signer list, or is invalid.',
+    fix: 'Only combine signatures of the signers in the signer list of the account.',
+  },
+  tefCREATED: {
+    description: 'The object already exists.',
+    fix: 'Use the existing object.',
+  },
+  tefEXCEPTION: {
+    description: 'The server hit an unexpected error while processing the transaction.',
+    fix: 'Try again later. Report it to the server operators if it persists.',
+  },
+  tefFAILURE: {
+    description: 'The transaction failed for an unspecified reason.',
+    fix: 'Check the transaction fields and the account state, then sign again.',
+  },
+  tefINTERNAL: {
+    description: 'An internal error occurred while processing the transaction.',
+    fix: 'Try again later. Report it to the server operators if it persists.',
+  },
+  tefINVALID_LEDGER_FIX_TYPE: {
+    description: 'The LedgerFixType of the LedgerStateFix is invalid.',
+    fix: 'Use a valid LedgerFixType.',
+  },
+  tefINVARIANT_FAILED: {
+    description: 'Charging the fee would break a ledger invariant.',
+    fix: 'This is likely a server bug. Report it to the server operators.',
+  },
+  tefMASTER_DISABLED: {
+    description: 'The master key is disabled for this account.',
+    fix: 'Sign with the regular key or the signer list of the account.',
+  },
+  tefMAX_LEDGER: {
+    description: 'The LastLedgerSequence of the transaction has already passed.',
+    fix: 'Autofill the transaction again to get a later LastLedgerSequence, then sign and submit it again.',
+  },
+  tefNFTOKEN_IS_NOT_TRANSFERABLE: {
+    description: 'The NFT cannot be transferred, it was minted without tfTransferable.',
+    fix: 'Only the issuer can buy or receive this NFT.',
+  },
+  tefNOT_MULTI_SIGNING: {
+    description: 'The transaction is multi-signed but the account has no signer list.',
+    fix: 'Set a signer list with SignerListSet, or sign with a single key.',
+  },
+  tefNO_AUTH_REQUIRED: {
+    description: 'The issuer does not require authorization, so there is nothing to authorize.',
+    fix: 'Skip the authorization.',
+  },
+  tefNO_TICKET: {
+    description: 'The Ticket does not exist or was already used.',
+    fix: 'Use another Ticket (see account_objects of type ticket), or a regular Sequence.',
+  },
+  tefPAST_SEQ: {
+    description: 'The Sequence of the transaction was already used by another transaction.',
+    fix: 'Autofill the transaction again to get the current Sequence, then sign and submit it again. Check first that the transaction was not already applied.',
+  },
+  tefTOO_BIG: {
+    description: 'The transaction would affect too many objects.',
+    fix: 'Split the operation into smaller transactions.',
+  },
+  tefWRONG_PRIOR: {
+    description: 'The AccountTxnID does not match the previous transaction of the account.',
+    fix: 'Update or remove AccountTxnID, then sign again.',
+  },
+
+  // tel: Local error, the server did not apply or relay the transaction
+  telBAD_DOMAIN: {
+    description: 'The domain is invalid.',
+    fix: 'Use a valid domain, hex encoded, of at most 256 bytes.',
+  },
+  telBAD_PATH_COUNT: {
+    description: 'The payment has too many paths for this server.',
+    fix: 'Use fewer paths.',
+  },
+  telBAD_PUBLIC_KEY: {
+    description: 'The public key is invalid.',
+    fix: 'Check the key used to sign the transaction.',
+  },
+  telCAN_NOT_QUEUE: {
+    description: 'The fee is too low to apply now and the transaction cannot be queued.',
+    fix: 'Raise the Fee (see fee), or submit again later when the network is less busy.',
+  },
+  telCAN_NOT_QUEUE_BALANCE: {
+    description:
+      'The transaction cannot be queued because the queued transactions of the account could spend all its XRP.',
+    fix: 'Wait for the queued transactions of the account to be applied, then submit again.',
+  },
+  telCAN_NOT_QUEUE_BLOCKED: {
+    description: 'The transaction cannot be queued because another queued transaction of the account blocks it.',
+    fix: 'Wait for the queued transactions of the account to be applied, then submit again.',
+  },
+  telCAN_NOT_QUEUE_BLOCKS: {
+    description: 'The transaction cannot be queued because it would block other queued transactions of the account.',
+    fix: 'Wait for the queued transactions of the account to be applied, then submit again.',
+  },
+  telCAN_NOT_QUEUE_FEE: {
+    description: 'The fee is not high enough to replace the queued transaction with the same Sequence.',
+    fix: 'Raise the Fee by at least 25%, or wait for the queued transaction.',
+  },
+  telCAN_NOT_QUEUE_FULL: {
+    description: 'The transaction queue is full.',
+    fix: 'Raise the Fee (see fee), or submit again later.',
+  },
+  telENV_RPC_FAILED: {
+    description: 'An RPC call made while processing the transaction failed.',
+    fix: 'Submit again later.',
+  },
+  telFAILED_PROCESSING: {
+    description: 'The server failed to process the transaction.',
+    fix: 'Submit again later, or to another server.',
+  },
+  telINSUF_FEE_P: {
+    description: 'The fee is below what this server currently requires because of its load.',
+    fix: 'Raise the Fee (see fee), or submit again when the load is lower.',
+  },
+  telLOCAL_ERROR: {
+    description: 'A local error occurred on the server.',
+    fix: 'Submit again later, or to another server.',
+  },
+  telNETWORK_ID_MAKES_TX_NON_CANONICAL: {
+    description: 'The transaction has a NetworkID but the network does not use one.',
+    fix: 'Remove NetworkID for networks with an ID of 1024 or less, e.g. mainnet, testnet and devnet.',
+  },
+  telNO_DST_PARTIAL: {
+    description: 'A partial payment cannot create the destination account.',
+    fix: 'Remove tfPartialPayment and send at least the base reserve in XRP.',
+  },
+  telREQUIRES_NETWORK_ID: {
+    description: 'The network requires a NetworkID in every transaction.',
+    fix: 'Set NetworkID to the ID of the network (see server_info), then sign again.',
+  },
+  telWRONG_NETWORK: {
+    description: 'The NetworkID of the transaction does not match the network of the server.',
+    fix: 'Set the right NetworkID, or submit to the right network.',
+  },
+
+  // tem: Malformed, the transaction is invalid and can never succeed
+  temARRAY_EMPTY: {
+    description: 'An array field is empty.',
+    fix: 'Provide at least one entry in the array.',
+  },
+  temARRAY_TOO_LARGE: {
+    description: 'An array field has too many entries.',
+    fix: 'Reduce the number of entries in the array.',
+  },
+  temBAD_AMM_TOKENS: {
+    description: 'The LP tokens of the AMM transaction are invalid, e.g. the wrong currency or issuer.',
+    fix: 'Use the LP token currency and issuer returned by amm_info.',
+  },
+  temBAD_AMOUNT: {
+    description: 'An amount is invalid, e.g. negative or zero.',
+    fix: 'Use a positive amount, in drops for XRP.',
+  },
+  temBAD_CURRENCY: {
+    description: 'A currency code is invalid, e.g. "XRP" used as a token code.',
+    fix: 'Use a 3-letter code or a 160-bit hex code (currencyCodeToHex).',
+  },
+  temBAD_EXPIRATION: {
+    description: 'The expiration is invalid.',
+    fix: 'Use a valid time in seconds since the Ripple Epoch.',
+  },
+  temBAD_FEE: {
+    description: 'The fee is invalid, e.g. negative or not XRP, or a fee-like field is out of range.',
+    fix: 'Use a positive Fee in drops, or fix the fee field (e.g. TradingFee 0 - 1000).',
+  },
+  temBAD_ISSUER: {
+    description: 'The issuer of an amount is invalid.',
+    fix: 'Check the issuer address of the token amounts.',
+  },
+  temBAD_LIMIT: {
+    description: 'The trust line limit is invalid, e.g. negative or a trust line to oneself.',
+    fix: 'Use a non-negative limit, issued by another account.',
+  },
+  temBAD_NFTOKEN_TRANSFER_FEE: {
+    description: 'The NFT transfer fee is out of range.',
+    fix: 'Use a TransferFee between 0 and 50000, and set tfTransferable.',
+  },
+  temBAD_OFFER: {
+    description: 'The offer is invalid, e.g. it trades an asset for itself.',
+    fix: 'Use two different assets in TakerGets and TakerPays.',
+  },
+  temBAD_PATH: {
+    description: 'A payment path is invalid.',
+    fix: 'Find valid paths with ripple_path_find, or remove Paths.',
+  },
+  temBAD_PATH_LOOP: {
+    description: 'A payment path loops.',
+    fix: 'Find valid paths with ripple_path_find, or remove Paths.',
+  },
+  temBAD_QUORUM: {
+    description: 'The SignerQuorum is invalid, e.g. higher than the sum of the signer weights.',
+    fix: 'Use a quorum between 1 and the sum of the signer weights.',
+  },
+  temBAD_REGKEY: {
+    description: 'The regular key is the master key of the account.',
+    fix: 'Use a different key pair as regular key.',
+  },
+  temBAD_SEND_XRP_LIMIT: {
+    description: 'An XRP to XRP payment uses tfLimitQuality.',
+    fix: 'Remove tfLimitQuality.',
+  },
+  temBAD_SEND_XRP_MAX: {
+    description: 'An XRP to XRP payment has a SendMax.',
+    fix: 'Remove SendMax.',
+  },
+  temBAD_SEND_XRP_NO_DIRECT: {
+    description: 'An XRP to XRP payment uses tfNoRippleDirect.',
+    fix: 'Remove tfNoRippleDirect.',
+  },
+  temBAD_SEND_XRP_PARTIAL: {
+    description: 'An XRP to XRP payment uses tfPartialPayment.',
+    fix: 'Remove tfPartialPayment.',
+  },
+  temBAD_SEND_XRP_PATHS: {
+    description: 'An XRP to XRP payment has Paths.',
+    fix: 'Remove Paths.',
+  },
+  temBAD_SEQUENCE: {
+    description: 'The transaction references a sequence higher than its own Sequence.',
+    fix: 'Check the sequence fields of the transaction.',
+  },
+  temBAD_SIGNATURE: {
+    description: 'The signature is invalid.',
+    fix: 'Sign the transaction again, without changing it after signing.',
+  },
+  temBAD_SIGNER: {
+    description: 'A signer entry is invalid, e.g. duplicated or the account itself.',
+    fix: 'List each signer once, without the account itself.',
+  },
+  temBAD_SRC_ACCOUNT: {
+    description: 'The sending account address is invalid.',
+    fix: 'Check the Account field.',
+  },
+  temBAD_TICK_SIZE: {
+    description: 'The TickSize is out of range.',
+    fix: 'Use a TickSize between 3 and 15, or 0 to remove it.',
+  },
+  temBAD_TRANSFER_FEE: {
+    description: 'The transfer fee is out of range.',
+    fix: 'Use a TransferFee within the range of the transaction, e.g. 0 - 50000 for MPTs.',
+  },
+  temBAD_TRANSFER_RATE: {
+    description: 'The TransferRate is out of range.',
+    fix: 'Use 0, or a value between 1000000000 and 2000000000.',
+  },
+  temBAD_WEIGHT: {
+    description: 'A SignerWeight is invalid.',
+    fix: 'Use a SignerWeight of at least 1.',
+  },
+  temCANNOT_PREAUTH_SELF: {
+    description: 'An account cannot preauthorize itself.',
+    fix: 'Preauthorize another account.',
+  },
+  temDISABLED: {
+    description: 'The transaction or one of its features requires an amendment that is not enabled on this network.',
+    fix: 'Use a network where the amendment is enabled (see the feature method), e.g. devnet for new features.',
+  },
+  temDST_IS_SRC: {
+    description: 'The destination is the same as the sender.',
+    fix: 'Use a different destination.',
+  },
+  temDST_NEEDED: {
+    description: 'The destination is missing.',
+    fix: 'Set the Destination field.',
+  },
+  temEMPTY_DID: {
+    description: 'The DID would be empty.',
+    fix: 'Provide at least one of URI, DIDDocument or Data.',
+  },
+  temINVALID: {
+    description: 'The transaction is invalid, e.g. a field is in the wrong format.',
+    fix: 'Check the format of every field of the transaction.',
+  },
+  temINVALID_ACCOUNT_ID: {
+    description: 'An account address field is invalid.',
+    fix: 'Check the addresses of the transaction.',
+  },
+  temINVALID_COUNT: {
+    description: 'A count field is out of range, e.g. TicketCount.',
+    fix: 'Use a count within the allowed range, e.g. 1 - 250 tickets.',
+  },
+  temINVALID_FLAG: {
+    description: 'The transaction uses flags that are invalid or conflicting for its type.',
+    fix: 'Only use the flags documented for the transaction type, and not conflicting ones together.',
+  },
+  temINVALID_INNER_BATCH: {
+    description: 'An inner transaction of the batch is invalid.',
+    fix: 'Check every inner transaction of the batch.',
+  },
+  temMALFORMED: {
+    description: 'The transaction is malformed, e.g. required fields are missing or fields conflict.',
+    fix: 'Check the required fields and the rules of the transaction type.',
+  },
+  temREDUNDANT: {
+    description: 'The transaction would do nothing, e.g. a payment to oneself with the same asset.',
+    fix: 'Change the transaction so it has an effect, or skip it.',
+  },
+  temRIPPLE_EMPTY: {
+    description: 'The payment has an empty path.',
+    fix: 'Remove empty paths.',
+  },
+  temSEQ_AND_TICKET: {
+    description: 'The transaction has both a non-zero Sequence and a TicketSequence.',
+    fix: 'Set Sequence to 0 when using TicketSequence.',
+  },
+  temUNCERTAIN: {
+    description: 'An internal placeholder result.',
+    fix: 'This should never be returned. Report it to the server operators.',
+  },
+  temUNKNOWN: {
+    description: 'The transaction type is unknown, or the server could not process it.',
+    fix: 'Check the TransactionType.',
+  },
+  temXCHAIN_BAD_PROOF: {
+    description: 'The cross-chain proof is invalid.',
+    fix: 'Check the attestation.',
+  },
+  temXCHAIN_BRIDGE_BAD_ISSUES: {
+    description: 'The assets of the bridge are invalid.',
+    fix: 'Check the LockingChainIssue and IssuingChainIssue of the bridge.',
+  },
+  temXCHAIN_BRIDGE_BAD_MIN_ACCOUNT_CREATE_AMOUNT: {
+    description: 'The MinAccountCreateAmount of the bridge is invalid.',
+    fix: 'Use a positive XRP amount.',
+  },
+  temXCHAIN_BRIDGE_BAD_REWARD_AMOUNT: {
+    description: 'The SignatureReward of the bridge is invalid.',
+    fix: 'Use a non-negative XRP amount.',
+  },
+  temXCHAIN_BRIDGE_NONDOOR_OWNER: {
+    description: 'The bridge is not owned by one of its door accounts.',
+    fix: 'Send the transaction from a door account.',
+  },
+  temXCHAIN_EQUAL_DOOR_ACCOUNTS: {
+    description: 'The two door accounts of the bridge are the same.',
+    fix: 'Use different door accounts.',
+  },
+
+  // ter: Retry, the transaction was not applied yet but could be later
+  terADDRESS_COLLISION: {
+    description: 'The pseudo-account address that would be created is already in use.',
+    fix: 'Submit again later, or change the transaction.',
+  },
+  terFUNDS_SPENT: {
+    description: 'The funds were already spent, e.g. by another transaction.',
+    fix: 'Check the balances and submit again.',
+  },
+  terINSUF_FEE_B: {
+    description: 'The account does not hold enough XRP to pay the fee.',
+    fix: 'Send more XRP to the account. The transaction may still apply if funded before it expires.',
+  },
+  terLAST: {
+    description: 'An internal placeholder result.',
+    fix: 'This should never be returned. Report it to the server operators.',
+  },
+  terNO_ACCOUNT: {
+    description: 'The sending account does not exist yet.',
+    fix: 'Fund the account with at least the base reserve first.',
+  },
+  terNO_AMM: {
+    description: 'There is no AMM for this asset pair.',
+    fix: 'Check the assets, or create the AMM with AMMCreate.',
+  },
+  terNO_AUTH: {
+    description: 'The trust line is not authorized by the issuer yet.',
+    fix: 'Ask the issuer to authorize the trust line.',
+  },
+  terNO_LINE: {
+    description: 'The trust line does not exist yet.',
+    fix: 'Create the trust line with TrustSet first.',
+  },
+  terNO_RIPPLE: {
+    description: 'The issuer does not have Default Ripple enabled, so the token cannot ripple through it.',
+    fix: 'Enable asfDefaultRipple on the issuer with AccountSet, and clear No Ripple on existing trust lines.',
+  },
+  terOWNERS: {
+    description: 'The account owns objects that must be removed first.',
+    fix: 'Delete the objects owned by the account, see account_objects.',
+  },
+  terPRE_SEQ: {
+    description: 'The Sequence is higher than the current one of the account: an earlier transaction is missing.',
+    fix: 'Submit the transactions with lower sequences first. It is held and may apply once they are validated.',
+  },
+  terPRE_TICKET: {
+    description: 'The Ticket does not exist yet.',
+    fix: 'Wait for the TicketCreate to be validated, then submit again.',
+  },
+  terQUEUED: {
+    description: 'The fee is too low to apply now, so the transaction was queued for a later ledger.',
+    fix: 'Do not resubmit. Wait for the transaction to be validated, or raise the fee of a replacement with the same Sequence.',
+  },
+  terRETRY: {
+    description: 'The transaction could not be applied yet and will be retried.',
+    fix: 'Wait and check the hash before submitting again.',
+  },
+} satisfies Record<string, EngineResultInfo>
+
+export type EngineResultCode = keyof typeof ENGINE_RESULTS
+
+/**
+ * Explanation of an engine result code
+ */
+export type EngineResultExplanation = EngineResultInfo & {
+  code: string
+  category: EngineResultCategory
+  // Whether the code is in the catalog, unknown codes only get a description of their class
+  known: boolean
+}
+
+// Category and generic description of each class of codes, from the prefix of the code
+const ENGINE_RESULT_CLASSES: Record<string, EngineResultInfo & { category: EngineResultCategory }> = {
+  tes: {
+    category: 'success',
+    description: 'The transaction succeeded.',
+    fix: 'Nothing to fix.',
+  },
+  tec: {
+    category: 'claimed-fee',
+    description: 'The transaction failed but was included in a ledger, the fee was charged.',
+    fix: 'Fix the cause of the failure, then send a new transaction.',
+  },
+  tef: {
+    category: 'permanent',
+    description: 'The transaction failed and can never be applied as is.',
+    fix: 'Fix the transaction, then sign and submit it again.',
+  },
+  tel: {
+    category: 'retryable',
+    description: 'The server rejected the transaction locally and did not relay it.',
+    fix: 'Submit again later, or to another server.',
+  },
+  tem: {
+    category: 'permanent',
+    description: 'The transaction is malformed and can never succeed.',
+    fix: 'Fix the transaction fields, then sign and submit it again.',
+  },
+  ter: {
+    category: 'retryable',
+    description: 'The transaction could not be applied yet, it may be applied later.',
+    fix: 'Wait and check the hash before submitting again.',
+  },
+}
+
+/**
+ * Whether a code is in the engine result catalog
+ * @param code - The code to check
+ */
+export const isEngineResultCode = (code: string): code is EngineResultCode => {
+  return Object.prototype.hasOwnProperty.call(ENGINE_RESULTS, code)
+}
+
+/**
+ * Explain an engine result code with its category and suggested fix
+ * @param code - The engine result code, e.g. tecPATH_DRY
+ * @returns The explanation, or undefined if the code doesn't belong to any class of results
+ */
+export const explainEngineResult = (code: string): EngineResultExplanation | undefined => {
+  const resultClass = ENGINE_RESULT_CLASSES[code.slice(0, 3)]
+
+  if (!resultClass) {
+    return undefined
+  }
+
+  if (isEngineResultCode(code)) {
+    return { code, category: resultClass.category, known: true, ...ENGINE_RESULTS[code] }
+  }
+
+  return { code, known: false, ...resultClass }
+}
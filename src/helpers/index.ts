@@ -1,4 +1,16 @@
+export * from './account-delete'
+export * from './credential'
+export * from './crypto-condition'
 export * from './currency'
+export * from './engine-result'
+export * from './keystore'
+export * from './network'
+export * from './network.types'
+export * from './permissioned-domain'
+export * from './reliable-submission'
+export * from './sequence'
+export * from './time'
+export * from './transaction-policy'
+export * from './transaction-summary'
 export * from './typeof-fns'
 export * from './xrpl-client'
-export * from './xrpl-client.types'
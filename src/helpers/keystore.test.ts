@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { Wallet } from 'xrpl'
+import { assertKeyAlias, createKeystore, decryptSeed, encryptSeed } from './keystore'
+
+const PASSPHRASE = 'correct horse battery staple'
+
+describe('encryptSeed', () => {
+  it('encrypts a seed with a random salt and IV, and decrypts it with the passphrase only', async () => {
+    const { seed } = Wallet.generate()
+    const encrypted = await encryptSeed(seed!, PASSPHRASE)
+
+    expect(encrypted).not.toContain(seed)
+    expect(await encryptSeed(seed!, PASSPHRASE)).not.toBe(encrypted)
+    expect(await decryptSeed(encrypted, PASSPHRASE)).toBe(seed)
+    await expect(decryptSeed(encrypted, 'wrong passphrase')).rejects.toThrow('Failed to decrypt the seed')
+  })
+})
+
+describe('assertKeyAlias', () => {
+  it('rejects seeds and malformed aliases', () => {
+    expect(() => assertKeyAlias('issuer-1')).not.toThrow()
+    expect(() => assertKeyAlias(Wallet.generate().seed!)).toThrow('Expected a key alias but got a seed')
+    expect(() => assertKeyAlias('my key')).toThrow('Invalid key alias')
+  })
+})
+
+describe('createKeystore', () => {
+  it('stores wallets encrypted and resolves their alias to the wallet', async () => {
+    const keystore = createKeystore({ url: ':memory:', passphrase: PASSPHRASE })
+    const wallet = Wallet.generate()
+
+    const entry = await keystore.saveWallet(wallet, 'alice')
+
+    expect(entry).toMatchObject({ alias: 'alice', address: wallet.address, publicKey: wallet.publicKey })
+    expect(entry).not.toHaveProperty('seed')
+    expect((await keystore.getWallet('alice')).seed).toBe(wallet.seed)
+    expect(await keystore.listKeys()).toEqual([entry])
+
+    keystore.close()
+  })
+
+  it('generates aliases and rejects used or unknown ones', async () => {
+    const keystore = createKeystore({ url: ':memory:', passphrase: PASSPHRASE })
+
+    const { alias } = await keystore.saveWallet(Wallet.generate())
+
+    expect(alias).toMatch(/^key-[0-9a-f]{8}$/)
+    await expect(keystore.saveWallet(Wallet.generate(), alias)).rejects.toThrow(`Key alias ${alias} is already used`)
+    await expect(keystore.getWallet('unknown')).rejects.toThrow('Unknown key alias: unknown')
+    expect(await keystore.deleteKey(alias)).toBe(true)
+    expect(await keystore.listKeys()).toEqual([])
+
+    keystore.close()
+  })
+})
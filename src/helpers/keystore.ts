@@ -0,0 +1,251 @@
+import { createClient, Client as LibSQLClient } from '@libsql/client'
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto'
+import { promisify } from 'node:util'
+import { isValidSecret, Wallet } from 'xrpl'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+// Where the keystore lives by default, relative to the .mastra/output directory like the agent memory
+const DEFAULT_KEYSTORE_URL = 'file:../keystore.db'
+
+// AES-256-GCM with a key derived from the passphrase by scrypt, with a random salt and IV per seed
+const CIPHER = 'aes-256-gcm'
+const KEY_LENGTH = 32
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+
+// Version of the encrypted seed format, so it can evolve without breaking stored keys
+const FORMAT_VERSION = 'v1'
+
+// Aliases are short names that can't be mistaken for a seed
+const ALIAS_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/
+
+/**
+ * Public part of a stored key, safe to show to the model and the user
+ */
+export type KeystoreEntry = {
+  // Opaque name of the key, used by the tools in place of the seed
+  alias: string
+  address: string
+  publicKey: string
+  // ISO date the key was stored
+  createdAt: string
+}
+
+type KeystoreConfig = {
+  // LibSQL URL of the keystore database, e.g. file:../keystore.db or :memory:
+  url: string
+  // Passphrase the seeds are encrypted with
+  passphrase: string
+}
+
+/**
+ * Encrypt a seed with a passphrase
+ * @returns The version, salt, IV, auth tag and ciphertext, base64 encoded and separated by colons
+ */
+export const encryptSeed = async (seed: string, passphrase: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH)
+  const iv = randomBytes(IV_LENGTH)
+  const key = await scryptAsync(passphrase, salt, KEY_LENGTH)
+
+  const cipher = createCipheriv(CIPHER, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(seed, 'utf8'), cipher.final()])
+
+  return [FORMAT_VERSION, salt, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':')
+}
+
+/**
+ * Decrypt a seed encrypted with encryptSeed
+ * @throws If the passphrase is wrong or the encrypted seed was tampered with
+ */
+export const decryptSeed = async (encrypted: string, passphrase: string): Promise<string> => {
+  const [version, ...parts] = encrypted.split(':')
+
+  if (version !== FORMAT_VERSION || parts.length !== 4) {
+    throw new Error('Unsupported encrypted seed format')
+  }
+
+  const [salt, iv, authTag, ciphertext] = parts.map(part => Buffer.from(part, 'base64'))
+  const key = await scryptAsync(passphrase, salt, KEY_LENGTH)
+
+  try {
+    const decipher = createDecipheriv(CIPHER, key, iv)
+    decipher.setAuthTag(authTag)
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+  } catch {
+    throw new Error('Failed to decrypt the seed, check XRPL_KEYSTORE_PASSPHRASE')
+  }
+}
+
+/**
+ * Check that an alias is a valid key alias, and not a seed pasted in its place
+ * @throws If the alias is invalid
+ */
+export const assertKeyAlias = (alias: string) => {
+  if (isValidSecret(alias)) {
+    throw new Error('Expected a key alias but got a seed, import the seed into the keystore and use its alias')
+  }
+
+  if (!ALIAS_PATTERN.test(alias)) {
+    throw new Error(`Invalid key alias: ${alias}, use up to 64 letters, digits, "-" or "_"`)
+  }
+}
+
+const toEntry = (row: Record<string, unknown>): KeystoreEntry => ({
+  alias: String(row.alias),
+  address: String(row.address),
+  publicKey: String(row.public_key),
+  createdAt: String(row.created_at),
+})
+
+/**
+ * Create a keystore that keeps wallets encrypted at rest in a LibSQL database
+ *
+ * Only the encrypted seed is stored. Wallets are decrypted on demand, when a transaction is signed,
+ * so the tools and the model only ever see the alias, address and public key.
+ */
+export const createKeystore = ({ url, passphrase }: KeystoreConfig) => {
+  const db: LibSQLClient = createClient({ url })
+
+  // Create the table once, on first use
+  let ready: Promise<unknown> | undefined
+  const init = () =>
+    (ready ??= db.execute(`CREATE TABLE IF NOT EXISTS xrpl_keys (
+      alias TEXT PRIMARY KEY,
+      address TEXT NOT NULL,
+      public_key TEXT NOT NULL,
+      encrypted_seed TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )`))
+
+  /**
+   * Store a wallet under an alias
+   * @param wallet - The wallet, it must have its seed
+   * @param alias - The alias, generated if not provided
+   * @returns The stored entry, without the seed
+   * @throws If the alias is invalid or already used
+   */
+  const saveWallet = async (
+    wallet: Wallet,
+    alias = `key-${randomBytes(4).toString('hex')}`,
+  ): Promise<KeystoreEntry> => {
+    assertKeyAlias(alias)
+
+    if (!wallet.seed) {
+      throw new Error(`Wallet ${wallet.address} has no seed to store`)
+    }
+
+    await init()
+
+    const existing = await db.execute({ sql: 'SELECT alias FROM xrpl_keys WHERE alias = ?', args: [alias] })
+
+    if (existing.rows.length > 0) {
+      throw new Error(`Key alias ${alias} is already used`)
+    }
+
+    const entry: KeystoreEntry = {
+      alias,
+      address: wallet.address,
+      publicKey: wallet.publicKey,
+      createdAt: new Date().toISOString(),
+    }
+
+    await db.execute({
+      sql: 'INSERT INTO xrpl_keys (alias, address, public_key, encrypted_seed, created_at) VALUES (?, ?, ?, ?, ?)',
+      args: [alias, entry.address, entry.publicKey, await encryptSeed(wallet.seed, passphrase), entry.createdAt],
+    })
+
+    return entry
+  }
+
+  /**
+   * Decrypt the wallet of an alias, only call this right before signing
+   * @throws If the alias is unknown or the seed can't be decrypted
+   */
+  const getWallet = async (alias: string): Promise<Wallet> => {
+    assertKeyAlias(alias)
+    await init()
+
+    const { rows } = await db.execute({ sql: 'SELECT * FROM xrpl_keys WHERE alias = ?', args: [alias] })
+
+    if (rows.length === 0) {
+      throw new Error(`Unknown key alias: ${alias}`)
+    }
+
+    const wallet = Wallet.fromSeed(await decryptSeed(String(rows[0].encrypted_seed), passphrase))
+
+    // A mismatch means the row was altered
+    if (wallet.address !== rows[0].address) {
+      throw new Error(`The key of ${alias} does not match its address ${rows[0].address}`)
+    }
+
+    return wallet
+  }
+
+  /**
+   * List the stored keys, without their seeds
+   */
+  const listKeys = async (): Promise<KeystoreEntry[]> => {
+    await init()
+
+    const { rows } = await db.execute(
+      'SELECT alias, address, public_key, created_at FROM xrpl_keys ORDER BY created_at',
+    )
+
+    return rows.map(row => toEntry(row))
+  }
+
+  /**
+   * Delete a stored key
+   * @returns Whether the key existed
+   */
+  const deleteKey = async (alias: string): Promise<boolean> => {
+    await init()
+
+    const { rowsAffected } = await db.execute({ sql: 'DELETE FROM xrpl_keys WHERE alias = ?', args: [alias] })
+
+    return rowsAffected > 0
+  }
+
+  return { saveWallet, getWallet, listKeys, deleteKey, close: () => db.close() }
+}
+
+export type Keystore = ReturnType<typeof createKeystore>
+
+let keystore: Keystore | undefined
+
+/**
+ * Get the keystore, stored at XRPL_KEYSTORE_URL and encrypted with XRPL_KEYSTORE_PASSPHRASE, unless set with
+ * setKeystore
+ * @throws If no passphrase is configured
+ */
+export const getKeystore = (): Keystore => {
+  if (!keystore) {
+    const passphrase = process.env.XRPL_KEYSTORE_PASSPHRASE
+
+    if (!passphrase) {
+      throw new Error('XRPL_KEYSTORE_PASSPHRASE must be set to store or use keys')
+    }
+
+    keystore = createKeystore({ url: process.env.XRPL_KEYSTORE_URL || DEFAULT_KEYSTORE_URL, passphrase })
+  }
+
+  return keystore
+}
+
+/**
+ * Replace the keystore, e.g. with an in-memory one
+ * @param store - The new keystore
+ */
+export const setKeystore = (store: Keystore) => {
+  keystore = store
+}
+
+/**
+ * Resolve a key alias to its wallet, at signing time
+ * @param alias - The key alias
+ */
+export const getWalletByAlias = (alias: string): Promise<Wallet> => getKeystore().getWallet(alias)
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  findNetwork,
+  getFaucetOptions,
+  getNetworkEndpoints,
+  getNetworkKey,
+  isTestNetwork,
+  withNetworkId,
+} from './network'
+
+describe('findNetwork', () => {
+  it('finds a network by name, alias or endpoint URL', () => {
+    expect(findNetwork('testnet')?.name).toBe('testnet')
+    expect(findNetwork('Altnet')?.name).toBe('testnet')
+    expect(findNetwork('wss://s2.ripple.com/')?.name).toBe('mainnet')
+    expect(findNetwork('wss://example.com')).toBeUndefined()
+  })
+})
+
+describe('getNetworkEndpoints', () => {
+  it('returns the endpoints of a network in order of preference', () => {
+    expect(getNetworkEndpoints('devnet')).toEqual([
+      'wss://s.devnet.rippletest.net:51233',
+      'wss://clio.devnet.rippletest.net:51233',
+    ])
+  })
+
+  it('puts a known endpoint first, followed by the rest of its network', () => {
+    expect(getNetworkEndpoints('wss://clio.devnet.rippletest.net:51233/')).toEqual([
+      'wss://clio.devnet.rippletest.net:51233',
+      'wss://s.devnet.rippletest.net:51233',
+    ])
+  })
+
+  it('uses an unknown endpoint alone', () => {
+    expect(getNetworkEndpoints('wss://example.com/')).toEqual(['wss://example.com'])
+  })
+})
+
+describe('getNetworkKey', () => {
+  it('gives the same key to the name, aliases and endpoints of a network', () => {
+    expect(getNetworkKey('altnet')).toBe('testnet')
+    expect(getNetworkKey('wss://clio.devnet.rippletest.net:51233/')).toBe('devnet')
+    expect(getNetworkKey('wss://s.devnet.rippletest.net:51233')).toBe('devnet')
+    expect(getNetworkKey('wss://example.com/')).toBe('wss://example.com')
+  })
+})
+
+describe('isTestNetwork', () => {
+  it('only accepts known test networks', () => {
+    expect(isTestNetwork('devnet')).toBe(true)
+    expect(isTestNetwork('wss://testnet.xrpl-labs.com/')).toBe(true)
+    expect(isTestNetwork('mainnet')).toBe(false)
+    expect(isTestNetwork('wss://example.com')).toBe(false)
+  })
+})
+
+describe('getFaucetOptions', () => {
+  it('returns the faucet of a test network', () => {
+    expect(getFaucetOptions('xahau')).toEqual({ faucetHost: 'xahau-test.net', faucetPath: '/accounts' })
+    expect(getFaucetOptions('mainnet')).toBeUndefined()
+  })
+})
+
+describe('withNetworkId', () => {
+  it('sets the NetworkID of networks with an ID above 1024', () => {
+    expect(withNetworkId({}, 'xahau-testnet')).toEqual({ NetworkID: 21338 })
+  })
+
+  it('leaves other networks and existing NetworkIDs unchanged', () => {
+    expect(withNetworkId({}, 'testnet')).toEqual({})
+    expect(withNetworkId({}, 'wss://example.com')).toEqual({})
+    expect(withNetworkId({ NetworkID: 5 }, 'xahau-testnet')).toEqual({ NetworkID: 5 })
+  })
+})
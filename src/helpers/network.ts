@@ -0,0 +1,170 @@
+import { XrplNetworkConfig } from './network.types'
+
+// Networks with an ID up to this value must omit NetworkID from their transactions
+const MAX_LEGACY_NETWORK_ID = 1024
+
+/**
+ * Registry of the known networks
+ * https://xrpl.org/public-servers.html
+ */
+export const xrplNetworks = {
+  mainnet: {
+    name: 'mainnet',
+    aliases: ['main', 'livenet'],
+    description: 'XRP Ledger mainnet, transactions move real value',
+    type: 'mainnet',
+    networkId: 0,
+    endpoints: [
+      { url: 'wss://xrplcluster.com', fullHistory: true, description: 'XRP Ledger Foundation, with CORS support' },
+      { url: 'wss://xrpl.ws', fullHistory: true, description: 'XRP Ledger Foundation, with CORS support' },
+      { url: 'wss://s1.ripple.com', description: 'Ripple, general purpose' },
+      { url: 'wss://s2.ripple.com', fullHistory: true, description: 'Ripple' },
+    ],
+  },
+  testnet: {
+    name: 'testnet',
+    aliases: ['altnet', 'test'],
+    description: 'Ripple Testnet, a stable test network for development',
+    type: 'test',
+    networkId: 1,
+    endpoints: [
+      { url: 'wss://s.altnet.rippletest.net:51233', description: 'Ripple' },
+      { url: 'wss://testnet.xrpl-labs.com', description: 'XRPL Labs, with CORS support' },
+      { url: 'wss://clio.altnet.rippletest.net:51233', clio: true, description: 'Ripple' },
+    ],
+    faucet: { host: 'faucet.altnet.rippletest.net', path: '/accounts' },
+  },
+  devnet: {
+    name: 'devnet',
+    aliases: ['dev'],
+    description: 'Ripple Devnet, a test network with new features and amendments',
+    type: 'test',
+    networkId: 2,
+    endpoints: [
+      { url: 'wss://s.devnet.rippletest.net:51233', description: 'Ripple' },
+      { url: 'wss://clio.devnet.rippletest.net:51233', clio: true, description: 'Ripple' },
+    ],
+    faucet: { host: 'faucet.devnet.rippletest.net', path: '/accounts' },
+  },
+  'sidechain-devnet': {
+    name: 'sidechain-devnet',
+    aliases: ['sidechain'],
+    description: 'XRPL-XRPL sidechain devnet, for testing cross-chain bridge features',
+    type: 'test',
+    endpoints: [{ url: 'wss://sidechain-net2.devnet.rippletest.net:51233', description: 'Ripple' }],
+    faucet: { host: 'sidechain-faucet.devnet.rippletest.net', path: '/accounts' },
+  },
+  'xahau-testnet': {
+    name: 'xahau-testnet',
+    aliases: ['xahau'],
+    description: 'Hooks-enabled Xahau testnet',
+    type: 'test',
+    networkId: 21338,
+    endpoints: [{ url: 'wss://xahau-test.net', description: 'XRPL Labs' }],
+    faucet: { host: 'xahau-test.net', path: '/accounts' },
+  },
+} as const satisfies Record<string, XrplNetworkConfig>
+
+export type XrplNetwork = keyof typeof xrplNetworks | (string & {})
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '')
+
+/**
+ * Find a network of the registry
+ * @param network - The name or alias of the network, or the URL of one of its endpoints
+ * @returns The network, or undefined for an unknown network
+ */
+export const findNetwork = (network: string): XrplNetworkConfig | undefined => {
+  const name = network.trim().toLowerCase()
+  const url = normalizeUrl(network)
+
+  return Object.values<XrplNetworkConfig>(xrplNetworks).find(
+    config =>
+      config.name === name || config.aliases.includes(name) || config.endpoints.some(endpoint => endpoint.url === url),
+  )
+}
+
+/**
+ * Get the endpoints of a network, in order of preference
+ * @param network - The name or alias of the network, or a WebSocket URL
+ * @returns The endpoints of the network. A URL of a known network comes first, followed by the other endpoints
+ * of that network. Any other URL is used alone.
+ */
+export const getNetworkEndpoints = (network: string): string[] => {
+  const config = findNetwork(network)
+  const urls = config?.endpoints.map(endpoint => endpoint.url) ?? []
+  const url = normalizeUrl(network)
+
+  if (urls.includes(url)) {
+    return [url, ...urls.filter(endpoint => endpoint !== url)]
+  }
+
+  return config ? urls : [url]
+}
+
+/**
+ * Get the key of a network, the same for its name, its aliases and the URLs of its endpoints
+ * @param network - The name or alias of the network, or a WebSocket URL
+ * @returns The name of a known network, or the URL of any other network
+ */
+export const getNetworkKey = (network: string): string => findNetwork(network)?.name ?? normalizeUrl(network)
+
+/**
+ * Whether a network is a known test network, where faucets are available and funds have no value
+ * @param network - The name or alias of the network, or a WebSocket URL
+ */
+export const isTestNetwork = (network: string): boolean => {
+  return findNetwork(network)?.type === 'test'
+}
+
+/**
+ * Get the faucet options of a network, to pass to client.fundWallet
+ * @param network - The name or alias of the network, or a WebSocket URL
+ * @returns The faucet host and path, or undefined if the registry doesn't know a faucet for the network
+ */
+export const getFaucetOptions = (network: string): { faucetHost: string; faucetPath: string } | undefined => {
+  const faucet = findNetwork(network)?.faucet
+
+  return faucet ? { faucetHost: faucet.host, faucetPath: faucet.path } : undefined
+}
+
+/**
+ * Set the NetworkID of a transaction for networks that require it, with an ID above 1024
+ * Transactions for other networks, or that already have a NetworkID, are returned unchanged.
+ * @param txn - The transaction
+ * @param network - The name or alias of the network, or a WebSocket URL
+ * @returns The transaction, with its NetworkID if required
+ */
+export const withNetworkId = <T extends { NetworkID?: number }>(txn: T, network: string): T => {
+  const networkId = findNetwork(network)?.networkId
+
+  if (txn.NetworkID !== undefined || networkId === undefined || networkId <= MAX_LEGACY_NETWORK_ID) {
+    return txn
+  }
+
+  return { ...txn, NetworkID: networkId }
+}
+
+/**
+ * Describe the networks of the registry in markdown, for agent instructions and tool descriptions
+ * @param type - Only describe the networks of this type
+ */
+export const describeNetworks = (type?: XrplNetworkConfig['type']): string => {
+  return Object.values<XrplNetworkConfig>(xrplNetworks)
+    .filter(config => !type || config.type === type)
+    .map(config => {
+      const details = [
+        config.aliases.length ? `aliases: ${config.aliases.join(', ')}` : undefined,
+        config.networkId !== undefined ? `NetworkID ${config.networkId}` : undefined,
+        config.faucet ? 'faucet available' : undefined,
+      ].filter(Boolean)
+      const endpoints = config.endpoints.map(({ url, fullHistory, clio, description }) => {
+        const features = [description, fullHistory ? 'full history' : undefined, clio ? 'Clio' : undefined]
+
+        return `  - ${url} (${features.filter(Boolean).join(', ')})`
+      })
+
+      return [`- **${config.name}**: ${config.description} (${details.join(', ')})`, ...endpoints].join('\n')
+    })
+    .join('\n')
+}
@@ -0,0 +1,42 @@
+/**
+ * Whether a network holds real value (mainnet) or is meant for development and testing (test)
+ */
+export type XrplNetworkType = 'mainnet' | 'test'
+
+/**
+ * WebSocket endpoint of a network
+ */
+export type XrplEndpoint = {
+  url: string
+  // Whether the server keeps the full ledger history
+  fullHistory?: boolean
+  // Whether the server is a Clio server, which serves extra methods such as mpt_holders
+  clio?: boolean
+  // Who runs the server and what it is suited for
+  description?: string
+}
+
+/**
+ * Faucet of a test network
+ */
+export type XrplFaucet = {
+  host: string
+  path: string
+}
+
+/**
+ * Configuration of a network in the registry
+ */
+export type XrplNetworkConfig = {
+  // The canonical name of the network, e.g. testnet
+  name: string
+  // Other names the network is known by, e.g. altnet
+  aliases: readonly string[]
+  description: string
+  type: XrplNetworkType
+  // The NetworkID of the network, transactions must include it when it is above 1024
+  networkId?: number
+  // Endpoints in order of preference
+  endpoints: readonly XrplEndpoint[]
+  faucet?: XrplFaucet
+}
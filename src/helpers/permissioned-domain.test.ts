@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { CredentialSummary, credentialTypeToHex } from './credential'
+import { getAcceptedCredentialTypes, getDomainMembership, PermissionedDomain } from './permissioned-domain'
+
+const OWNER = 'rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn'
+const ISSUER = 'ra5nK24KXen9AHvsdFTKHSANinZseWnPcX'
+const ACCOUNT = 'rsUiUMpnrgxQp24dJYZDhmV4bE3aBtQyt8'
+
+const domain = {
+  LedgerEntryType: 'PermissionedDomain',
+  index: 'D1',
+  Owner: OWNER,
+  Flags: 0,
+  Sequence: 10,
+  AcceptedCredentials: [{ Credential: { Issuer: ISSUER, CredentialType: credentialTypeToHex('KYC') } }],
+} as unknown as PermissionedDomain
+
+const createCredential = (fields: Partial<CredentialSummary> = {}): CredentialSummary => ({
+  credentialId: 'C1',
+  issuer: ISSUER,
+  subject: ACCOUNT,
+  credentialType: 'KYC',
+  role: 'subject',
+  accepted: true,
+  expired: false,
+  ...fields,
+})
+
+describe('getAcceptedCredentialTypes', () => {
+  it('decodes the credential types the domain accepts', () => {
+    expect(getAcceptedCredentialTypes(domain)).toEqual([{ issuer: ISSUER, credentialType: 'KYC' }])
+  })
+})
+
+describe('getDomainMembership', () => {
+  it('admits the owner and accounts with a valid accepted credential', () => {
+    expect(getDomainMembership({ domain, account: OWNER, credentials: [] })).toMatchObject({
+      member: true,
+      owner: true,
+      reasons: [],
+    })
+
+    const credential = createCredential()
+    expect(getDomainMembership({ domain, account: ACCOUNT, credentials: [credential] })).toEqual({
+      member: true,
+      owner: false,
+      matchingCredentials: [credential],
+      reasons: [],
+    })
+  })
+
+  it('explains why pending, expired or other credentials do not count', () => {
+    const credentials = [
+      createCredential({ accepted: false }),
+      createCredential({ credentialId: 'C2', expired: true, expiration: '2026-01-01T00:00:00.000Z' }),
+      createCredential({ credentialId: 'C3', credentialType: 'AML' }),
+    ]
+
+    expect(getDomainMembership({ domain, account: ACCOUNT, credentials })).toEqual({
+      member: false,
+      owner: false,
+      matchingCredentials: [],
+      reasons: [
+        `Credential KYC from ${ISSUER} is not accepted, the subject must accept it with CredentialAccept`,
+        `Credential KYC from ${ISSUER} expired on 2026-01-01T00:00:00.000Z, the issuer must issue a new one`,
+      ],
+    })
+    expect(getDomainMembership({ domain, account: ACCOUNT, credentials: [] }).reasons).toEqual([
+      `${ACCOUNT} holds none of the credentials the domain accepts`,
+    ])
+  })
+})
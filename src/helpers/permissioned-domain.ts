@@ -0,0 +1,76 @@
+import { LedgerEntry } from 'xrpl'
+import { CredentialSummary, hexToCredentialType } from './credential'
+
+// PermissionedDomain ledger entry, not exported by name from xrpl.js
+export type PermissionedDomain = Extract<LedgerEntry.LedgerEntry, { LedgerEntryType: 'PermissionedDomain' }>
+
+/**
+ * A kind of credential a permissioned domain accepts, with its type as text
+ */
+export type AcceptedCredentialType = {
+  issuer: string
+  credentialType: string
+}
+
+/**
+ * Whether an account is a member of a permissioned domain, and why
+ */
+export type DomainMembership = {
+  member: boolean
+  // Whether the account owns the domain, owners are always members
+  owner: boolean
+  // Valid credentials of the account that the domain accepts
+  matchingCredentials: CredentialSummary[]
+  // Why the account is not a member, or why some of its matching credentials don't count
+  reasons: string[]
+}
+
+type DomainMembershipProps = {
+  domain: PermissionedDomain
+  account: string
+  // Credentials of the account, from account_objects
+  credentials: CredentialSummary[]
+}
+
+/**
+ * List the kinds of credentials a permissioned domain accepts, with their types decoded to text
+ */
+export const getAcceptedCredentialTypes = (domain: PermissionedDomain): AcceptedCredentialType[] =>
+  domain.AcceptedCredentials.map(({ Credential }) => ({
+    issuer: Credential.Issuer,
+    credentialType: hexToCredentialType(Credential.CredentialType),
+  }))
+
+/**
+ * Evaluate whether an account is a member of a permissioned domain
+ * An account is a member if it owns the domain, or holds an accepted and unexpired credential the domain accepts.
+ */
+export const getDomainMembership = ({ domain, account, credentials }: DomainMembershipProps): DomainMembership => {
+  const acceptedTypes = getAcceptedCredentialTypes(domain)
+
+  // Credentials issued to the account that the domain accepts, valid or not
+  const candidates = credentials.filter(
+    credential =>
+      credential.subject === account &&
+      acceptedTypes.some(
+        ({ issuer, credentialType }) => credential.issuer === issuer && credential.credentialType === credentialType,
+      ),
+  )
+  const matchingCredentials = candidates.filter(credential => credential.accepted && !credential.expired)
+
+  const reasons = candidates
+    .filter(credential => !matchingCredentials.includes(credential))
+    .map(({ credentialType, issuer, accepted, expiration }) =>
+      accepted
+        ? `Credential ${credentialType} from ${issuer} expired on ${expiration}, the issuer must issue a new one`
+        : `Credential ${credentialType} from ${issuer} is not accepted, the subject must accept it with CredentialAccept`,
+    )
+
+  const owner = domain.Owner === account
+
+  if (!owner && candidates.length === 0) {
+    reasons.push(`${account} holds none of the credentials the domain accepts`)
+  }
+
+  return { member: owner || matchingCredentials.length > 0, owner, matchingCredentials, reasons }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Client, RippledError, Wallet } from 'xrpl'
+import { submitReliably } from './reliable-submission'
+
+const wallet = Wallet.fromSeed('sEdTM1uX8pu2do5XvTnutH6HsouMaM2')
+
+// Signed payment valid up to ledger 120
+const { tx_blob: TX_BLOB, hash: HASH } = wallet.sign({
+  TransactionType: 'Payment',
+  Account: wallet.classicAddress,
+  Destination: 'rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn',
+  Amount: '1000000',
+  Fee: '12',
+  Sequence: 5,
+  LastLedgerSequence: 120,
+})
+
+const notFound = (searchedAll: boolean) =>
+  new RippledError('Transaction not found.', { error: 'txnNotFound', searched_all: searchedAll })
+
+// Minimal client answering submit with the given engine result, and tx with the given answers in order
+const createClient = (engineResult: string, ledgerIndexes: number[], ...txAnswers: unknown[]) => {
+  const getLedgerIndex = vi.fn()
+  ledgerIndexes.forEach(ledgerIndex => getLedgerIndex.mockResolvedValueOnce(ledgerIndex))
+
+  const request = vi.fn(async ({ command }: { command: string }) => {
+    if (command === 'submit') {
+      return { result: { engine_result: engineResult, engine_result_message: engineResult } }
+    }
+
+    const answer = txAnswers.shift()
+    if (answer instanceof Error) {
+      throw answer
+    }
+    return answer
+  })
+
+  return { client: { request, getLedgerIndex, isConnected: () => true } as unknown as Client, request }
+}
+
+describe('submitReliably', () => {
+  it('reports a validated transaction with its ledger, fee and delivered amount', async () => {
+    const { client } = createClient('tesSUCCESS', [100], notFound(false), {
+      result: {
+        validated: true,
+        ledger_index: 102,
+        meta: { TransactionResult: 'tesSUCCESS', delivered_amount: '1000000' },
+      },
+    })
+
+    const result = await submitReliably(client, TX_BLOB, { pollInterval: 0 })
+
+    expect(result).toMatchObject({
+      status: 'success',
+      hash: HASH,
+      engine_result: 'tesSUCCESS',
+      validated: true,
+      ledger_index: 102,
+      last_ledger_sequence: 120,
+      fee: '12',
+      delivered_amount: '1000000',
+    })
+  })
+
+  it('reports a validated tec result as failed', async () => {
+    const { client } = createClient('tesSUCCESS', [100], {
+      result: { validated: true, ledger_index: 101, meta: { TransactionResult: 'tecNO_DST_INSUF_XRP' } },
+    })
+
+    const result = await submitReliably(client, TX_BLOB, { pollInterval: 0 })
+
+    expect(result).toMatchObject({ status: 'failed', engine_result: 'tecNO_DST_INSUF_XRP', validated: true })
+  })
+
+  it('fails without polling when the transaction can never be applied', async () => {
+    const { client, request } = createClient('tefPAST_SEQ', [100])
+
+    const result = await submitReliably(client, TX_BLOB, { pollInterval: 0 })
+
+    expect(result).toMatchObject({ status: 'failed', engine_result: 'tefPAST_SEQ', validated: false })
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports expired only once every ledger up to LastLedgerSequence was searched', async () => {
+    const { client } = createClient('terQUEUED', [100, 121], notFound(false), notFound(true))
+
+    const result = await submitReliably(client, TX_BLOB, { pollInterval: 0 })
+
+    expect(result).toMatchObject({ status: 'expired', engine_result: 'terQUEUED', validated: false })
+  })
+
+  it('reports pending when the outcome is still unknown', async () => {
+    const { client } = createClient('tesSUCCESS', [100], new Error('connection dropped'))
+
+    const result = await submitReliably(client, TX_BLOB, { pollInterval: 5, timeout: 1 })
+
+    expect(result).toMatchObject({ status: 'pending', hash: HASH, validated: false })
+  })
+})
@@ -0,0 +1,159 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { Client, decode, hashes, RippledError, SubmittableTransaction, TransactionMetadata } from 'xrpl'
+
+/**
+ * Final status of a submitted transaction
+ * - success: validated with tesSUCCESS
+ * - failed: validated with a tec code (the fee is paid), or rejected for good before reaching the ledger
+ * - expired: not in any validated ledger up to its LastLedgerSequence, it can never be validated
+ * - pending: the outcome is still unknown, check the hash again before resubmitting
+ */
+export type SubmissionStatus = 'success' | 'failed' | 'expired' | 'pending'
+
+/**
+ * Normalized outcome of a reliable submission
+ */
+export type ReliableSubmissionResult<T extends SubmittableTransaction = SubmittableTransaction> = {
+  status: SubmissionStatus
+  // The hash of the signed transaction, recorded before sending
+  hash: string
+  // The final result when validated, otherwise the preliminary result of the submission
+  engine_result: string
+  engine_result_message?: string
+  validated: boolean
+  // The ledger the transaction was validated in
+  ledger_index?: number
+  last_ledger_sequence: number
+  // The fee paid, in drops, only set when validated
+  fee?: string
+  // The amount actually delivered, for payments
+  delivered_amount?: TransactionMetadata['delivered_amount']
+  transaction: T
+  meta?: TransactionMetadata<T>
+}
+
+export type ReliableSubmissionOptions = {
+  // The mastra instance, for logging
+  mastra?: ToolExecutionContext['mastra']
+  // Delay between two checks of the transaction, in milliseconds
+  pollInterval?: number
+  // How long to wait for a final outcome before reporting the transaction as pending, in milliseconds
+  timeout?: number
+}
+
+// Preliminary results meaning the transaction can never be included in a ledger
+const FINAL_PRELIMINARY_RESULTS = ['tem', 'tef']
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Submit a signed transaction and track it until it is validated or provably expired
+ *
+ * The hash and LastLedgerSequence are recorded before sending, so the outcome can always be looked up,
+ * even if the connection drops while waiting.
+ * @param client - The client of the network
+ * @param txBlob - The signed transaction blob
+ * @param options - Logging and polling options
+ * @returns The normalized outcome of the transaction
+ */
+export const submitReliably = async <T extends SubmittableTransaction = SubmittableTransaction>(
+  client: Client,
+  txBlob: string,
+  { mastra, pollInterval = 1000, timeout = 120_000 }: ReliableSubmissionOptions = {},
+): Promise<ReliableSubmissionResult<T>> => {
+  const logger = mastra?.getLogger()
+
+  const transaction = decode(txBlob) as unknown as T
+  const hash = hashes.hashSignedTx(txBlob)
+  const lastLedgerSequence = transaction.LastLedgerSequence
+
+  if (lastLedgerSequence === undefined) {
+    throw new Error('Transaction must contain a LastLedgerSequence value for reliable submission')
+  }
+
+  // The transaction can't be in a ledger validated before it was sent
+  const minLedger = await client.getLedgerIndex()
+
+  logger?.info('Submitting transaction', { hash, lastLedgerSequence, minLedger })
+
+  const pending: ReliableSubmissionResult<T> = {
+    status: 'pending',
+    hash,
+    engine_result: 'unknown',
+    validated: false,
+    last_ledger_sequence: lastLedgerSequence,
+    transaction,
+  }
+
+  try {
+    const { result } = await client.request({ command: 'submit', tx_blob: txBlob })
+    pending.engine_result = result.engine_result
+    pending.engine_result_message = result.engine_result_message
+
+    if (FINAL_PRELIMINARY_RESULTS.some(prefix => result.engine_result.startsWith(prefix))) {
+      return { ...pending, status: 'failed' }
+    }
+  } catch (error) {
+    // The transaction may have been sent before the connection dropped, look it up anyway
+    logger?.warn('Submission failed, checking the transaction', { hash, error: String(error) })
+  }
+
+  const deadline = Date.now() + timeout
+
+  while (Date.now() < deadline) {
+    await sleep(pollInterval)
+
+    try {
+      if (!client.isConnected()) {
+        await client.connect()
+      }
+
+      const { result } = await client.request({
+        command: 'tx',
+        transaction: hash,
+        min_ledger: minLedger,
+        max_ledger: lastLedgerSequence,
+      })
+
+      if (result.validated) {
+        const meta = result.meta as TransactionMetadata<T>
+        const engineResult = meta.TransactionResult
+
+        logger?.info('Transaction validated', { hash, engineResult, ledgerIndex: result.ledger_index })
+
+        return {
+          ...pending,
+          status: engineResult === 'tesSUCCESS' ? 'success' : 'failed',
+          engine_result: engineResult,
+          // The message of the preliminary result doesn't apply to a different final result
+          engine_result_message: engineResult === pending.engine_result ? pending.engine_result_message : undefined,
+          validated: true,
+          ledger_index: result.ledger_index,
+          fee: transaction.Fee,
+          delivered_amount: meta.delivered_amount,
+          meta,
+        }
+      }
+    } catch (error) {
+      const data = error instanceof RippledError ? (error.data as { error?: string; searched_all?: boolean }) : {}
+
+      if (data?.error !== 'txnNotFound') {
+        logger?.warn('Failed to check the transaction', { hash, error: String(error) })
+        continue
+      }
+
+      // Expired only when every ledger up to LastLedgerSequence is validated and was searched
+      const validatedLedger = data.searched_all ? await client.getLedgerIndex().catch(() => 0) : 0
+
+      if (validatedLedger > lastLedgerSequence) {
+        logger?.info('Transaction expired', { hash, lastLedgerSequence })
+
+        return { ...pending, status: 'expired' }
+      }
+    }
+  }
+
+  logger?.warn('Transaction outcome still unknown', { hash, lastLedgerSequence })
+
+  return pending
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Client } from 'xrpl'
+import { getNetworkEndpoints } from './network'
+import { allocateSequence, isSequenceError, resyncSequence } from './sequence'
+
+const ACCOUNT = 'rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn'
+
+// Minimal client answering account_info with the given sequences, one per call
+const createClient = (url: string, ...sequences: number[]) => {
+  const request = vi.fn()
+  sequences.forEach(sequence => request.mockResolvedValueOnce({ result: { account_data: { Sequence: sequence } } }))
+  return { client: { url, request } as unknown as Client, request }
+}
+
+describe('allocateSequence', () => {
+  it('hands out distinct sequences to concurrent calls with one ledger lookup', async () => {
+    const { client, request } = createClient('wss://concurrent', 10)
+
+    const sequences = await Promise.all([1, 2, 3].map(() => allocateSequence(client, ACCOUNT)))
+
+    expect(sequences).toEqual([10, 11, 12])
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps separate sequences per network', async () => {
+    const { client: testnet } = createClient('wss://testnet', 5)
+    const { client: devnet } = createClient('wss://devnet', 50)
+
+    expect(await allocateSequence(testnet, ACCOUNT)).toBe(5)
+    expect(await allocateSequence(devnet, ACCOUNT)).toBe(50)
+    expect(await allocateSequence(testnet, ACCOUNT)).toBe(6)
+  })
+
+  it('shares sequences between the endpoints of one network', async () => {
+    const [first, second] = getNetworkEndpoints('testnet')
+    const { client: firstClient } = createClient(first, 60)
+    const { client: failoverClient, request } = createClient(second, 60)
+
+    expect(await allocateSequence(firstClient, ACCOUNT)).toBe(60)
+    // After a failover, the other endpoint continues from the sequences already allocated
+    expect(await allocateSequence(failoverClient, ACCOUNT)).toBe(61)
+    expect(request).not.toHaveBeenCalled()
+
+    resyncSequence(failoverClient, ACCOUNT)
+  })
+
+  it('reads the sequence from the ledger again after a resync', async () => {
+    const { client, request } = createClient('wss://resync', 20, 30)
+
+    expect(await allocateSequence(client, ACCOUNT)).toBe(20)
+    resyncSequence(client, ACCOUNT)
+    expect(await allocateSequence(client, ACCOUNT)).toBe(30)
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not cache a failed lookup', async () => {
+    const { client, request } = createClient('wss://failed')
+    request.mockRejectedValueOnce(new Error('actNotFound'))
+    request.mockResolvedValueOnce({ result: { account_data: { Sequence: 7 } } })
+
+    await expect(allocateSequence(client, ACCOUNT)).rejects.toThrow('actNotFound')
+    expect(await allocateSequence(client, ACCOUNT)).toBe(7)
+  })
+})
+
+describe('isSequenceError', () => {
+  it('detects sequence errors in errors and engine results', () => {
+    expect(isSequenceError('tefPAST_SEQ')).toBe(true)
+    expect(isSequenceError(new Error('Preliminary result: terPRE_SEQ'))).toBe(true)
+    expect(isSequenceError('tecUNFUNDED_PAYMENT')).toBe(false)
+    expect(isSequenceError(new Error('timeout'))).toBe(false)
+  })
+})
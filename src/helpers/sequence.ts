@@ -0,0 +1,108 @@
+import { Client, SubmittableTransaction, Wallet } from 'xrpl'
+import { getNetworkKey } from './network'
+import { ReliableSubmissionOptions, ReliableSubmissionResult, submitReliably } from './reliable-submission'
+
+/**
+ * Engine results meaning the cached Sequence of the account is out of sync with the ledger
+ */
+const SEQUENCE_ERRORS = ['tefPAST_SEQ', 'terPRE_SEQ']
+
+// Next Sequence of each account, keyed by network and account, shared by concurrent submissions
+const accountSequences = new Map<string, Promise<{ next: number }>>()
+
+// Keyed by network rather than endpoint, so a failover to another endpoint keeps allocating from the same Sequence
+const getSequenceKey = (client: Client, account: string) => `${getNetworkKey(client.url)}:${account}`
+
+/**
+ * Hand out the next Sequence of an account
+ *
+ * The first call reads the Sequence from the current ledger, next calls allocate locally,
+ * so concurrent submissions from one account never get the same Sequence.
+ * @param client - The connected client of the network
+ * @param account - The account sending the transaction
+ * @returns The Sequence to use for the transaction
+ */
+export const allocateSequence = async (client: Client, account: string): Promise<number> => {
+  const key = getSequenceKey(client, account)
+  let sequence = accountSequences.get(key)
+
+  if (!sequence) {
+    sequence = client
+      .request({ command: 'account_info', account, ledger_index: 'current' })
+      .then(({ result }) => ({ next: result.account_data.Sequence }))
+    accountSequences.set(key, sequence)
+
+    // Don't cache a failed lookup, e.g. for an unfunded account
+    sequence.catch(() => accountSequences.delete(key))
+  }
+
+  const state = await sequence
+  return state.next++
+}
+
+/**
+ * Drop the cached Sequence of an account, the next allocation reads it from the ledger again
+ * @param client - The connected client of the network
+ * @param account - The account to resync
+ */
+export const resyncSequence = (client: Client, account: string) => {
+  accountSequences.delete(getSequenceKey(client, account))
+}
+
+/**
+ * Whether an error or engine result is caused by an out of sync Sequence
+ * @param error - The error thrown by the submission, or an engine result
+ */
+export const isSequenceError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error)
+  return SEQUENCE_ERRORS.some(code => message.includes(code))
+}
+
+/**
+ * Sign and submit a transaction with a Sequence from the allocator, then track it until its final outcome
+ *
+ * Transactions that already have a Sequence, or use a Ticket, are submitted as is.
+ * The cache is resynced when the Sequence was not consumed, and the transaction is retried once on tefPAST_SEQ or terPRE_SEQ.
+ * @param client - The connected client of the network
+ * @param txn - The transaction to submit
+ * @param wallet - The wallet signing the transaction
+ * @param options - Logging and polling options of the reliable submission
+ * @param retries - How many times to retry on a Sequence error
+ * @returns The normalized outcome of the transaction
+ */
+export const submitWithSequence = async <T extends SubmittableTransaction>(
+  client: Client,
+  txn: T,
+  wallet: Wallet,
+  options: ReliableSubmissionOptions = {},
+  retries = 1,
+): Promise<ReliableSubmissionResult<T>> => {
+  const usesAllocator = txn.Sequence === undefined && txn.TicketSequence === undefined
+  // Transactions using a Ticket must have a Sequence of 0
+  const Sequence = usesAllocator ? await allocateSequence(client, txn.Account) : (txn.Sequence ?? 0)
+
+  let result: ReliableSubmissionResult<T>
+
+  try {
+    const prepared = await client.autofill({ ...txn, Sequence })
+    result = await submitReliably<T>(client, wallet.sign(prepared).tx_blob, options)
+  } catch (error) {
+    // Nothing was sent, later allocations must not skip the Sequence
+    if (usesAllocator) {
+      resyncSequence(client, txn.Account)
+    }
+    throw error
+  }
+
+  const isSequenceConsumed = result.validated || result.status === 'pending'
+
+  if (usesAllocator && !isSequenceConsumed) {
+    resyncSequence(client, txn.Account)
+
+    if (retries > 0 && isSequenceError(result.engine_result)) {
+      return await submitWithSequence(client, txn, wallet, options, retries - 1)
+    }
+  }
+
+  return result
+}
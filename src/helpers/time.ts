@@ -0,0 +1,20 @@
+import { isoTimeToRippleTime } from 'xrpl'
+import { isNumber } from './typeof-fns'
+
+/**
+ * Convert a time to seconds since the Ripple Epoch (2000-01-01T00:00:00Z)
+ * Numbers are assumed to already be in Ripple Epoch seconds, strings are parsed as ISO 8601 dates
+ * @param time - The time to convert
+ * @returns The time in seconds since the Ripple Epoch
+ */
+export const toRippleTime = (time: number | string): number => {
+  if (isNumber(time)) {
+    return time
+  }
+
+  if (isNaN(Date.parse(time))) {
+    throw new Error(`Invalid date: ${time}, expected an ISO 8601 string or seconds since the Ripple Epoch`)
+  }
+
+  return isoTimeToRippleTime(time)
+}
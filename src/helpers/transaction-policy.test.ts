@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Client, EscrowCreate, Payment, Transaction } from 'xrpl'
+import {
+  evaluateTransactionPolicy,
+  getApprovalReason,
+  isMainnetClient,
+  transactionPolicySchema,
+} from './transaction-policy'
+
+const ACCOUNT = 'rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn'
+const DESTINATION = 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfzbpAYe'
+
+const payment: Payment = {
+  TransactionType: 'Payment',
+  Account: ACCOUNT,
+  Destination: DESTINATION,
+  Amount: '50000000',
+}
+
+const evaluate = (txn: Transaction, policy: unknown, mainnet = false, signedLocally = true) =>
+  evaluateTransactionPolicy({ txn, mainnet, signedLocally, policy: transactionPolicySchema.parse(policy) })
+
+// Minimal client answering server_info with the given network ID
+const createClient = (url: string, networkId?: number) => {
+  const request = vi.fn().mockResolvedValue({ result: { info: { network_id: networkId } } })
+  return { client: { url, request } as unknown as Client, request }
+}
+
+describe('evaluateTransactionPolicy', () => {
+  it('rejects local signing on mainnet only', () => {
+    expect(evaluate(payment, {}, true).allowed).toBe(false)
+    expect(evaluate(payment, {}, true, false).allowed).toBe(true)
+    expect(evaluate(payment, {}, false).allowed).toBe(true)
+  })
+
+  it('enforces the maximum XRP per transaction', () => {
+    expect(evaluate(payment, { accounts: { [ACCOUNT]: { maxXrpPerTransaction: 50 } } }).allowed).toBe(true)
+    expect(evaluate(payment, { accounts: { [ACCOUNT]: { maxXrpPerTransaction: 10 } } })).toEqual({
+      allowed: false,
+      reasons: [`50 XRP exceeds the limit of 10 XRP per transaction for ${ACCOUNT}`],
+    })
+  })
+
+  it('applies the maximum XRP to the XRP spent by transactions other than payments', () => {
+    const escrow: EscrowCreate = {
+      TransactionType: 'EscrowCreate',
+      Account: ACCOUNT,
+      Destination: DESTINATION,
+      Amount: '20000000',
+      FinishAfter: 1,
+    }
+
+    expect(evaluate(escrow, { default: { maxXrpPerTransaction: 10 } }).reasons).toEqual([
+      `20 XRP exceeds the limit of 10 XRP per transaction for ${ACCOUNT}`,
+    ])
+  })
+
+  it('enforces the allowed transaction types and destinations', () => {
+    const policy = { default: { allowedTransactionTypes: ['TrustSet'], allowedDestinations: [ACCOUNT] } }
+
+    expect(evaluate(payment, policy).reasons).toEqual([
+      `Payment is not an allowed transaction type for ${ACCOUNT}`,
+      `${DESTINATION} is not an allowed destination for ${ACCOUNT}`,
+    ])
+  })
+
+  it('prefers the limits of the account over the default limits', () => {
+    const policy = { default: { maxXrpPerTransaction: 1 }, accounts: { [ACCOUNT]: { maxXrpPerTransaction: 100 } } }
+
+    expect(evaluate(payment, policy).allowed).toBe(true)
+  })
+})
+
+describe('getApprovalReason', () => {
+  const approve = (txn: Transaction, approval: unknown) =>
+    getApprovalReason(txn, transactionPolicySchema.parse({ approval }))
+
+  it('requires approval above the XRP threshold', () => {
+    expect(approve(payment, { thresholdXrp: 100 })).toBeUndefined()
+    expect(approve(payment, { thresholdXrp: 10 })).toBe('50 XRP exceeds the approval threshold of 10 XRP')
+  })
+
+  it('requires approval for the listed transaction types', () => {
+    expect(approve(payment, { transactionTypes: ['AccountDelete'] })).toBeUndefined()
+    expect(approve(payment, { transactionTypes: ['Payment'] })).toBe('Payment transactions need approval')
+    expect(approve(payment, { transactionTypes: ['*'] })).toBe('Payment transactions need approval')
+  })
+
+  it('requires no approval without an approval policy', () => {
+    expect(getApprovalReason(payment, transactionPolicySchema.parse({}))).toBeUndefined()
+  })
+})
+
+describe('isMainnetClient', () => {
+  it('detects mainnet from the network_id of server_info, once per server', async () => {
+    const { client, request } = createClient('wss://mainnet', 0)
+
+    expect(await isMainnetClient(client)).toBe(true)
+    expect(await isMainnetClient(client)).toBe(true)
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('treats servers without network_id as mainnet', async () => {
+    expect(await isMainnetClient(createClient('wss://unknown').client)).toBe(true)
+    expect(await isMainnetClient(createClient('wss://testnet', 1).client)).toBe(false)
+  })
+})
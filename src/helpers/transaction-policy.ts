@@ -0,0 +1,217 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { Client, Transaction } from 'xrpl'
+import { z } from 'zod'
+import { getXrpSpent } from './transaction-summary'
+import { getXrplClient } from './xrpl-client'
+
+// NetworkID reported by server_info on mainnet
+const MAINNET_NETWORK_ID = 0
+
+/**
+ * Limits of the transactions one account may sign or submit
+ */
+export const accountPolicySchema = z.object({
+  maxXrpPerTransaction: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Maximum XRP a single transaction may spend, e.g. sent, escrowed, put in a check, channel or offer'),
+  allowedTransactionTypes: z.array(z.string()).optional().describe('Transaction types the account may send'),
+  allowedDestinations: z.array(z.string()).optional().describe('Destination accounts the account may send to'),
+})
+
+/**
+ * Transactions that need a human approval before they are submitted
+ */
+export const approvalPolicySchema = z.object({
+  thresholdXrp: z.number().nonnegative().optional().describe('Transactions spending more XRP than this need approval'),
+  transactionTypes: z
+    .array(z.string())
+    .optional()
+    .describe('Transaction types that always need approval, "*" for every transaction'),
+})
+
+/**
+ * Policy applied to every transaction signed or submitted by the transaction tools
+ * Accounts without their own limits get the default limits, if any.
+ */
+export const transactionPolicySchema = z.object({
+  default: accountPolicySchema.optional(),
+  accounts: z.record(accountPolicySchema).default({}),
+  approval: approvalPolicySchema.optional(),
+})
+
+export type AccountPolicy = z.infer<typeof accountPolicySchema>
+export type ApprovalPolicy = z.infer<typeof approvalPolicySchema>
+export type TransactionPolicy = z.infer<typeof transactionPolicySchema>
+
+/**
+ * Outcome of the evaluation of a transaction against the policy
+ */
+export type PolicyDecision = {
+  allowed: boolean
+  // Why the transaction is rejected, empty if allowed
+  reasons: string[]
+}
+
+let transactionPolicy: TransactionPolicy | undefined
+
+/**
+ * Get the transaction policy, read from the XRPL_TRANSACTION_POLICY environment variable (JSON) unless set with
+ * setTransactionPolicy. An invalid policy throws, so no transaction goes through with a misconfigured policy.
+ */
+export const getTransactionPolicy = (): TransactionPolicy => {
+  transactionPolicy ??= transactionPolicySchema.parse(JSON.parse(process.env.XRPL_TRANSACTION_POLICY || '{}'))
+
+  return transactionPolicy
+}
+
+/**
+ * Replace the transaction policy
+ * @param policy - The new policy
+ */
+export const setTransactionPolicy = (policy: z.input<typeof transactionPolicySchema>) => {
+  transactionPolicy = transactionPolicySchema.parse(policy)
+}
+
+// NetworkID reported by each server, it never changes for a server
+const serverNetworkIds = new Map<string, Promise<number | undefined>>()
+
+/**
+ * Whether a client is connected to mainnet, from the network_id reported by server_info
+ * A server that doesn't report a network_id is treated as mainnet.
+ * @param client - The connected client
+ */
+export const isMainnetClient = async (client: Client): Promise<boolean> => {
+  let networkId = serverNetworkIds.get(client.url)
+
+  if (!networkId) {
+    networkId = client.request({ command: 'server_info' }).then(({ result }) => result.info.network_id)
+    serverNetworkIds.set(client.url, networkId)
+    // Don't cache failed lookups
+    networkId.catch(() => serverNetworkIds.delete(client.url))
+  }
+
+  const id = await networkId
+
+  return id === undefined || id === MAINNET_NETWORK_ID
+}
+
+type EvaluateTransactionPolicyProps = {
+  // The transaction to evaluate
+  txn: Transaction
+  // Whether the network is mainnet
+  mainnet: boolean
+  // Whether the transaction is signed by the tool, with a key from the keystore
+  signedLocally: boolean
+  // The policy to apply
+  policy: TransactionPolicy
+}
+
+/**
+ * Evaluate a transaction against the policy
+ * @returns The decision, with the reasons of a rejection
+ */
+export const evaluateTransactionPolicy = ({
+  txn,
+  mainnet,
+  signedLocally,
+  policy,
+}: EvaluateTransactionPolicyProps): PolicyDecision => {
+  const reasons: string[] = []
+
+  if (mainnet && signedLocally) {
+    reasons.push(
+      'Signing with a stored key is not allowed on mainnet, use mode "prepare" and submit the blob signed by the user as signature',
+    )
+  }
+
+  const accountPolicy = policy.accounts[txn.Account] ?? policy.default
+
+  if (accountPolicy?.allowedTransactionTypes && !accountPolicy.allowedTransactionTypes.includes(txn.TransactionType)) {
+    reasons.push(`${txn.TransactionType} is not an allowed transaction type for ${txn.Account}`)
+  }
+
+  const { Destination: destination } = txn as { Destination?: string }
+
+  if (accountPolicy?.allowedDestinations && destination && !accountPolicy.allowedDestinations.includes(destination)) {
+    reasons.push(`${destination} is not an allowed destination for ${txn.Account}`)
+  }
+
+  const maxXrp = accountPolicy?.maxXrpPerTransaction
+  const xrpSpent = getXrpSpent(txn)
+
+  if (maxXrp !== undefined && xrpSpent > maxXrp) {
+    reasons.push(`${xrpSpent} XRP exceeds the limit of ${maxXrp} XRP per transaction for ${txn.Account}`)
+  }
+
+  return { allowed: reasons.length === 0, reasons }
+}
+
+/**
+ * Check whether a transaction needs a human approval before it is submitted
+ * @param txn - The transaction to submit
+ * @param policy - The policy to apply
+ * @returns Why the transaction needs approval, or undefined if it doesn't
+ */
+export const getApprovalReason = (
+  txn: Transaction,
+  policy: TransactionPolicy = getTransactionPolicy(),
+): string | undefined => {
+  const { thresholdXrp, transactionTypes } = policy.approval ?? {}
+
+  if (transactionTypes?.includes('*') || transactionTypes?.includes(txn.TransactionType)) {
+    return `${txn.TransactionType} transactions need approval`
+  }
+
+  const xrpSpent = getXrpSpent(txn)
+
+  if (thresholdXrp !== undefined && xrpSpent > thresholdXrp) {
+    return `${xrpSpent} XRP exceeds the approval threshold of ${thresholdXrp} XRP`
+  }
+
+  return undefined
+}
+
+type EnforceTransactionPolicyProps = {
+  // The network the transaction is sent to
+  network: string
+  // The transaction to sign or submit, decoded from the blob for signed transactions
+  txn: Transaction
+  // Whether the transaction is signed by the tool, with a key from the keystore
+  signedLocally: boolean
+  mastra?: ToolExecutionContext['mastra']
+}
+
+/**
+ * Check a transaction against the policy before it is signed or submitted, and log the decision
+ * @throws If the policy rejects the transaction
+ */
+export const enforceTransactionPolicy = async ({
+  network,
+  txn,
+  signedLocally,
+  mastra,
+}: EnforceTransactionPolicyProps) => {
+  const logger = mastra?.getLogger()
+  const client = await getXrplClient(network, mastra)
+  const mainnet = await isMainnetClient(client)
+
+  const decision = evaluateTransactionPolicy({ txn, mainnet, signedLocally, policy: getTransactionPolicy() })
+  const details = {
+    network,
+    mainnet,
+    account: txn.Account,
+    transactionType: txn.TransactionType,
+    signedLocally,
+    ...decision,
+  }
+
+  if (!decision.allowed) {
+    logger?.warn('Transaction rejected by policy', details)
+
+    throw new Error(`Transaction rejected by policy: ${decision.reasons.join('; ')}`)
+  }
+
+  logger?.info('Transaction allowed by policy', details)
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { AccountSet, OfferCreate, Payment } from 'xrpl'
+import { formatAmount, getXrpSpent, summarizeTransaction } from './transaction-summary'
+
+const ACCOUNT = 'rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn'
+const DESTINATION = 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfzbpAYe'
+
+describe('formatAmount', () => {
+  it('formats XRP, issued currencies and MPTs', () => {
+    expect(formatAmount('25000000')).toBe('25 XRP')
+    expect(formatAmount({ currency: 'USD', issuer: ACCOUNT, value: '10' })).toBe(`10 USD (issuer ${ACCOUNT})`)
+    expect(formatAmount({ currency: '5245574152445300000000000000000000000000', issuer: ACCOUNT, value: '1' })).toBe(
+      `1 REWARDS (issuer ${ACCOUNT})`,
+    )
+    expect(formatAmount({ mpt_issuance_id: '00ABC', value: '5' })).toBe('5 of MPT 00ABC')
+  })
+})
+
+describe('getXrpSpent', () => {
+  it('counts only the SendMax of payments that have one', () => {
+    const payment: Payment = {
+      TransactionType: 'Payment',
+      Account: ACCOUNT,
+      Destination: DESTINATION,
+      Amount: '5000000',
+    }
+
+    expect(getXrpSpent(payment)).toBe(5)
+    expect(
+      getXrpSpent({ ...payment, Amount: { currency: 'USD', issuer: ACCOUNT, value: '1' }, SendMax: '2000000' }),
+    ).toBe(2)
+  })
+
+  it('counts the XRP an offer gives', () => {
+    const offer: OfferCreate = {
+      TransactionType: 'OfferCreate',
+      Account: ACCOUNT,
+      TakerGets: '3000000',
+      TakerPays: { currency: 'USD', issuer: DESTINATION, value: '1' },
+    }
+
+    expect(getXrpSpent(offer)).toBe(3)
+  })
+})
+
+describe('summarizeTransaction', () => {
+  it('summarizes the destination, amounts, flags and fee of a payment', () => {
+    const summary = summarizeTransaction({
+      TransactionType: 'Payment',
+      Account: ACCOUNT,
+      Destination: DESTINATION,
+      DestinationTag: 7,
+      Amount: '25000000',
+      Fee: '12',
+      Flags: { tfPartialPayment: true },
+    })
+
+    expect(summary).toMatchObject({
+      destination: DESTINATION,
+      destinationTag: 7,
+      amounts: [{ field: 'Amount', value: '25 XRP' }],
+      flags: ['tfPartialPayment'],
+      fee: '0.000012',
+      xrpSpent: 25,
+    })
+    expect(summary.text).toBe(
+      [
+        `Payment from ${ACCOUNT}`,
+        `Destination: ${DESTINATION} (tag 7)`,
+        'Amount: 25 XRP',
+        'Flags: tfPartialPayment',
+        'Fee: 0.000012 XRP',
+      ].join('\n'),
+    )
+  })
+
+  it('names the account flags set or cleared by AccountSet', () => {
+    const accountSet: AccountSet = { TransactionType: 'AccountSet', Account: ACCOUNT, SetFlag: 8, ClearFlag: 6 }
+
+    expect(summarizeTransaction(accountSet).flags).toEqual(['SetFlag asfDefaultRipple', 'ClearFlag asfNoFreeze'])
+  })
+})
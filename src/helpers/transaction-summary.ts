@@ -0,0 +1,120 @@
+import { AccountSetAsfFlags, Amount, dropsToXrp, MPTAmount, parseTransactionFlags, Transaction } from 'xrpl'
+import { hexToCurrencyCode } from './currency'
+
+// Amount fields of a transaction, with how they read in a summary
+const AMOUNT_FIELDS = {
+  Amount: 'Amount',
+  Amount2: 'Second amount',
+  DeliverMax: 'Deliver max',
+  DeliverMin: 'Deliver min',
+  SendMax: 'Send max',
+  TakerGets: 'Offers',
+  TakerPays: 'For',
+  LimitAmount: 'Trust limit',
+} as const
+
+// Amount fields the sender spends from its balance
+const SPENT_AMOUNT_FIELDS = ['Amount', 'Amount2', 'SendMax', 'TakerGets'] as const
+
+/**
+ * Human-readable summary of a transaction, for review before it is submitted
+ */
+export type TransactionSummary = {
+  transactionType: string
+  account: string
+  destination?: string
+  destinationTag?: number
+  // Decoded amounts, e.g. { field: 'Amount', value: '25 XRP' }
+  amounts: { field: string; value: string }[]
+  // Names of the flags set, e.g. tfPartialPayment or SetFlag asfDefaultRipple
+  flags: string[]
+  // The fee in XRP, once the transaction is autofilled
+  fee?: string
+  // The most XRP the transaction can spend, excluding the fee
+  xrpSpent: number
+  // The summary as text
+  text: string
+}
+
+/**
+ * Format an amount for humans: XRP instead of drops and readable currency codes
+ * @param amount - The amount to format
+ * @returns The formatted amount, e.g. "25 XRP" or "100 USD (issuer rP9j...)"
+ */
+export const formatAmount = (amount: Amount | MPTAmount): string => {
+  if (typeof amount === 'string') {
+    return `${dropsToXrp(amount)} XRP`
+  }
+
+  if ('mpt_issuance_id' in amount) {
+    return `${amount.value} of MPT ${amount.mpt_issuance_id}`
+  }
+
+  const currency = amount.currency.length === 40 ? hexToCurrencyCode(amount.currency) : amount.currency
+
+  return `${amount.value} ${currency} (issuer ${amount.issuer})`
+}
+
+/**
+ * Get the most XRP a transaction can spend, excluding the fee
+ * For payments with a SendMax, only the SendMax is spent.
+ * @param txn - The transaction
+ */
+export const getXrpSpent = (txn: Transaction): number => {
+  const fields = txn as Partial<Record<(typeof SPENT_AMOUNT_FIELDS)[number], unknown>>
+  const spent = txn.TransactionType === 'Payment' && fields.SendMax !== undefined ? ['SendMax'] : SPENT_AMOUNT_FIELDS
+
+  return spent
+    .map(field => fields[field as (typeof SPENT_AMOUNT_FIELDS)[number]])
+    .filter((amount): amount is string => typeof amount === 'string')
+    .reduce((total, drops) => total + dropsToXrp(drops), 0)
+}
+
+/**
+ * Summarize a transaction for human review: decoded amounts, destination, flags and fee
+ * @param txn - The transaction, ideally autofilled so the fee is known
+ * @returns The summary
+ */
+export const summarizeTransaction = (txn: Transaction): TransactionSummary => {
+  const fields = txn as unknown as Record<string, unknown>
+
+  const amounts = Object.entries(AMOUNT_FIELDS)
+    .filter(([field]) => fields[field] !== undefined)
+    .map(([field, label]) => ({ field: label, value: formatAmount(fields[field] as Amount | MPTAmount) }))
+
+  const flags = Object.entries(parseTransactionFlags({ ...txn }))
+    .filter(([, value]) => value === true)
+    .map(([name]) => name)
+
+  if (txn.TransactionType === 'AccountSet') {
+    if (txn.SetFlag !== undefined) flags.push(`SetFlag ${AccountSetAsfFlags[txn.SetFlag] ?? txn.SetFlag}`)
+    if (txn.ClearFlag !== undefined) flags.push(`ClearFlag ${AccountSetAsfFlags[txn.ClearFlag] ?? txn.ClearFlag}`)
+  }
+
+  const destination = typeof fields.Destination === 'string' ? fields.Destination : undefined
+  const destinationTag = typeof fields.DestinationTag === 'number' ? fields.DestinationTag : undefined
+  const fee = txn.Fee !== undefined ? dropsToXrp(txn.Fee).toString() : undefined
+  const xrpSpent = getXrpSpent(txn)
+
+  const text = [
+    `${txn.TransactionType} from ${txn.Account}`,
+    destination && `Destination: ${destination}${destinationTag !== undefined ? ` (tag ${destinationTag})` : ''}`,
+    ...amounts.map(({ field, value }) => `${field}: ${value}`),
+    flags.length > 0 && `Flags: ${flags.join(', ')}`,
+    `Fee: ${fee !== undefined ? `${fee} XRP` : 'autofilled on submission'}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  return {
+    transactionType: txn.TransactionType,
+    account: txn.Account,
+    destination,
+    destinationTag,
+    amounts,
+    flags,
+    fee,
+    xrpSpent,
+    text,
+  }
+}
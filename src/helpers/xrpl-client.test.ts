@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { RippledError, TimeoutError } from 'xrpl'
+import { getNetworkEndpoints } from './network'
+import { disconnectXrplClient, getXrplClient, requestWithFailover } from './xrpl-client'
+
+// Behaviour of each fake endpoint, by URL
+const servers = vi.hoisted(
+  () =>
+    new Map<string, { connect?: () => Promise<void>; request?: (request: { command: string }) => Promise<unknown> }>(),
+)
+
+vi.mock('xrpl', async importOriginal => {
+  const actual = await importOriginal<typeof import('xrpl')>()
+
+  class FakeClient {
+    connected = false
+    connect = vi.fn(async () => {
+      await servers.get(this.url)?.connect?.()
+      this.connected = true
+    })
+    disconnect = vi.fn(async () => {
+      this.connected = false
+    })
+    request = vi.fn(async (request: { command: string }) => {
+      const server = servers.get(this.url)
+      if (server?.request) {
+        return server.request(request)
+      }
+      return { result: { info: { server_state: 'full', validated_ledger: { seq: 1 } } } }
+    })
+
+    constructor(public url: string) {}
+
+    isConnected() {
+      return this.connected
+    }
+  }
+
+  return { ...actual, Client: FakeClient }
+})
+
+const [FIRST, SECOND] = getNetworkEndpoints('testnet')
+
+afterEach(async () => {
+  servers.clear()
+  await disconnectXrplClient('testnet', undefined)
+})
+
+describe('getXrplClient', () => {
+  it('keeps the connection warm between calls', async () => {
+    const client = await getXrplClient('testnet', undefined)
+
+    expect(await getXrplClient('altnet', undefined)).toBe(client)
+    expect(client.connect).toHaveBeenCalledTimes(1)
+  })
+
+  it('shares one pool between the name and the endpoint URLs of a network', async () => {
+    const client = await getXrplClient('testnet', undefined)
+
+    expect(await getXrplClient(`${SECOND}/`, undefined)).toBe(client)
+    expect(client.connect).toHaveBeenCalledTimes(1)
+  })
+
+  it('fails over to the next endpoint when one cannot connect', async () => {
+    servers.set(FIRST, { connect: () => Promise.reject(new TimeoutError('Timeout')) })
+
+    expect((await getXrplClient('testnet', undefined)).url).toBe(SECOND)
+  })
+
+  it('skips endpoints that are not synced with the network', async () => {
+    servers.set(FIRST, { request: async () => ({ result: { info: { server_state: 'syncing' } } }) })
+
+    expect((await getXrplClient('testnet', undefined)).url).toBe(SECOND)
+  })
+})
+
+describe('requestWithFailover', () => {
+  it('sends the request again to the next endpoint on noNetwork', async () => {
+    servers.set(FIRST, {
+      request: async ({ command }) => {
+        if (command === 'server_info') {
+          return { result: { info: { server_state: 'full', validated_ledger: { seq: 1 } } } }
+        }
+        throw new RippledError('noNetwork', { error: 'noNetwork' })
+      },
+    })
+
+    const response = await requestWithFailover('testnet', { command: 'fee' }, undefined)
+
+    expect(response).toEqual({ result: { info: { server_state: 'full', validated_ledger: { seq: 1 } } } })
+    expect((await getXrplClient('testnet', undefined)).url).toBe(SECOND)
+  })
+
+  it('does not fail over on other errors', async () => {
+    servers.set(FIRST, {
+      request: async ({ command }) => {
+        if (command === 'server_info') {
+          return { result: { info: { server_state: 'full', validated_ledger: { seq: 1 } } } }
+        }
+        throw new RippledError('actNotFound', { error: 'actNotFound' })
+      },
+    })
+
+    await expect(
+      requestWithFailover('testnet', { command: 'account_info', account: 'rAccount' }, undefined),
+    ).rejects.toThrow('actNotFound')
+    expect((await getXrplClient('testnet', undefined)).url).toBe(FIRST)
+  })
+})
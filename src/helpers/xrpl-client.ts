@@ -1,59 +1,227 @@
 import { ToolExecutionContext } from '@mastra/core'
-import { Client } from 'xrpl'
+import { Client, ConnectionError, Request, RippledError } from 'xrpl'
+import { getNetworkEndpoints, getNetworkKey } from './network'
 
-// Singleton pattern: store client instances
-const clientInstances = new Map<string, Client>()
+// Time to wait for a connection to an endpoint, in milliseconds
+const CONNECTION_TIMEOUT = 5000
+// Time to wait for a response to a request, in milliseconds
+const REQUEST_TIMEOUT = 20000
+// Time after which the health of the active endpoint is checked again, in milliseconds
+const HEALTH_CHECK_INTERVAL = 60000
+// Time an unhealthy endpoint is tried last, in milliseconds
+const UNHEALTHY_COOLDOWN = 60000
 
-export const getXrplClient = async (network: string, mastra: ToolExecutionContext['mastra']): Promise<Client> => {
-  // Check if client already exists for this network
-  if (clientInstances.has(network)) {
-    const existingClient = clientInstances.get(network)!
+// Server states of a rippled server that is not synced with the network
+const UNSYNCED_SERVER_STATES = ['disconnected', 'connected', 'syncing']
 
-    // Check if client is connected, if not connect it
-    if (!existingClient.isConnected()) {
-      // Log the connection
-      const logger = mastra?.getLogger()
-      logger?.info('Connecting to XRP Ledger', { network, clientUrl: existingClient.url })
+type PoolEndpoint = {
+  client: Client
+  // Time of the last successful health check
+  checkedAt?: number
+  // Time the endpoint last failed, it is tried last until the cooldown has passed
+  failedAt?: number
+}
 
-      await existingClient.connect()
+type ConnectionPool = {
+  network: string
+  endpoints: PoolEndpoint[]
+  // The endpoint requests are sent to, until it fails
+  active?: PoolEndpoint
+  // Pending selection of the active endpoint, shared by concurrent callers
+  selecting?: Promise<PoolEndpoint>
+}
 
-      // Log the connection
-      logger?.info('Connected to XRP Ledger', { network, clientUrl: existingClient.url })
-    }
+// One pool of warm connections per network
+const pools = new Map<string, ConnectionPool>()
 
-    return existingClient
+/**
+ * Whether an error means the endpoint is unusable and the request should be sent to another one:
+ * connection errors and timeouts, or a server that is not connected to the network
+ * @param error - The error to check
+ */
+export const isFailoverError = (error: unknown): boolean => {
+  if (error instanceof ConnectionError) {
+    return true
   }
 
-  // Create new client if it doesn't exist
-  const client = new Client(network)
-  clientInstances.set(network, client)
+  return error instanceof RippledError && (error.data as { error?: string } | undefined)?.error === 'noNetwork'
+}
+
+const getPool = (network: string): ConnectionPool => {
+  // Names, aliases and endpoint URLs of the same network share one pool
+  const key = getNetworkKey(network)
+  const existingPool = pools.get(key)
 
-  // Log the connection
+  if (existingPool) {
+    return existingPool
+  }
+
+  const pool: ConnectionPool = {
+    network,
+    endpoints: getNetworkEndpoints(network).map(url => ({
+      client: new Client(url, { connectionTimeout: CONNECTION_TIMEOUT, timeout: REQUEST_TIMEOUT }),
+    })),
+  }
+  pools.set(key, pool)
+
+  return pool
+}
+
+/**
+ * Connect to an endpoint if needed, and check with server_info that it is synced with the network
+ */
+const checkEndpoint = async (endpoint: PoolEndpoint, mastra?: ToolExecutionContext['mastra']) => {
+  const { client } = endpoint
   const logger = mastra?.getLogger()
-  logger?.info('Connecting to XRP Ledger', { network, clientUrl: client.url })
 
-  await client.connect()
+  if (!client.isConnected()) {
+    logger?.info('Connecting to XRP Ledger', { clientUrl: client.url })
+
+    await client.connect()
+
+    logger?.info('Connected to XRP Ledger', { clientUrl: client.url })
+  }
+
+  const { result } = await client.request({ command: 'server_info' })
+  const { server_state, validated_ledger } = result.info
+
+  if (!validated_ledger || UNSYNCED_SERVER_STATES.includes(server_state)) {
+    throw new Error(`${client.url} is not synced with the network (server state: ${server_state ?? 'unknown'})`)
+  }
+
+  endpoint.checkedAt = Date.now()
+  endpoint.failedAt = undefined
+}
+
+/**
+ * Take an endpoint out of rotation after a failure, it is tried last until the cooldown has passed
+ */
+const markUnhealthy = (
+  pool: ConnectionPool,
+  endpoint: PoolEndpoint,
+  error: unknown,
+  mastra?: ToolExecutionContext['mastra'],
+) => {
+  endpoint.checkedAt = undefined
+  endpoint.failedAt = Date.now()
+
+  if (pool.active === endpoint) {
+    pool.active = undefined
+  }
+
+  mastra?.getLogger()?.warn('XRP Ledger endpoint is unhealthy', {
+    network: pool.network,
+    clientUrl: endpoint.client.url,
+    error: error instanceof Error ? error.message : String(error),
+  })
+}
+
+/**
+ * Select the first healthy endpoint of a pool, endpoints that failed recently are tried last
+ */
+const selectEndpoint = async (pool: ConnectionPool, mastra?: ToolExecutionContext['mastra']): Promise<PoolEndpoint> => {
+  const now = Date.now()
+  const isCoolingDown = (endpoint: PoolEndpoint) =>
+    endpoint.failedAt !== undefined && now - endpoint.failedAt < UNHEALTHY_COOLDOWN
+  const candidates = [
+    ...pool.endpoints.filter(endpoint => !isCoolingDown(endpoint)),
+    ...pool.endpoints.filter(isCoolingDown),
+  ]
+  const errors: string[] = []
+
+  for (const endpoint of candidates) {
+    try {
+      await checkEndpoint(endpoint, mastra)
+
+      pool.active = endpoint
+
+      return endpoint
+    } catch (error) {
+      markUnhealthy(pool, endpoint, error, mastra)
+      errors.push(`${endpoint.client.url}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  throw new Error(`No healthy endpoint available for ${pool.network}. ${errors.join('; ')}`)
+}
+
+/**
+ * Get a connected client for a network from the connection pool
+ * Connections are kept warm between calls, the active endpoint is health-checked with server_info every minute and
+ * replaced by the next healthy endpoint of the network when it fails.
+ * @param network - The name or alias of a network, or a WebSocket URL
+ * @param mastra - The Mastra instance for logging
+ * @returns A connected client
+ */
+export const getXrplClient = async (network: string, mastra: ToolExecutionContext['mastra']): Promise<Client> => {
+  const pool = getPool(network)
+  const { active } = pool
 
-  // Log the connection
-  logger?.info('Connected to XRP Ledger', { network, clientUrl: client.url })
+  if (
+    active?.client.isConnected() &&
+    active.checkedAt !== undefined &&
+    Date.now() - active.checkedAt < HEALTH_CHECK_INTERVAL
+  ) {
+    return active.client
+  }
+
+  pool.selecting ??= selectEndpoint(pool, mastra).finally(() => {
+    pool.selecting = undefined
+  })
 
-  return client
+  return (await pool.selecting).client
 }
 
 /**
- * Disconnect the client from the XRP Ledger
+ * Send a request to a network, failing over to the next healthy endpoint on a timeout, a connection error or
+ * noNetwork
+ * @param network - The name or alias of a network, or a WebSocket URL
+ * @param request - The request to send
+ * @param mastra - The Mastra instance for logging
+ * @returns The response of the first endpoint that answered
+ */
+export const requestWithFailover = async (
+  network: string,
+  request: Request,
+  mastra: ToolExecutionContext['mastra'],
+) => {
+  const pool = getPool(network)
+  let lastError: unknown
+
+  for (let attempt = 0; attempt < pool.endpoints.length; attempt++) {
+    const client = await getXrplClient(network, mastra)
+
+    try {
+      return await client.request(request)
+    } catch (error) {
+      if (!isFailoverError(error)) {
+        throw error
+      }
+
+      lastError = error
+      markUnhealthy(pool, pool.endpoints.find(endpoint => endpoint.client === client)!, error, mastra)
+    }
+  }
+
+  throw lastError
+}
+
+/**
+ * Close the connections of a network and remove its pool, e.g. on shutdown
+ * Tools don't need to call this, connections are kept warm between requests
  * @param network - The network to disconnect from
  */
 export const disconnectXrplClient = async (network: string, mastra: ToolExecutionContext['mastra']) => {
-  const client = clientInstances.get(network)
-  if (client) {
-    await client.disconnect()
+  const key = getNetworkKey(network)
+  const pool = pools.get(key)
+
+  if (pool) {
+    pools.delete(key)
+
+    await Promise.all(pool.endpoints.map(({ client }) => (client.isConnected() ? client.disconnect() : undefined)))
 
     // Log the disconnection
     const logger = mastra?.getLogger()
-    logger?.info('Disconnected from XRP Ledger', { network, clientUrl: client.url })
-
-    // Delete the client from the instances
-    clientInstances.delete(network)
+    logger?.info('Disconnected from XRP Ledger', { network })
   }
 }
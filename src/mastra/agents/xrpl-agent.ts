@@ -2,12 +2,20 @@ import { openai } from '@ai-sdk/openai'
 import { Agent } from '@mastra/core/agent'
 import { LibSQLStore } from '@mastra/libsql'
 import { Memory } from '@mastra/memory'
+import { describeNetworks } from '../../helpers'
 import {
+  checkAccountDeleteTool,
+  checkDomainMembershipTool,
+  combineMultisignSignaturesTool,
   createWalletTool,
   currencyCodeToHexTool,
   dropsToXrpTool,
+  explainResultCodeTool,
   fundWalletWithFaucetTool,
+  generateCryptoConditionTool,
   getAccountChannelsTool,
+  getAccountChecksTool,
+  getAccountCredentialsTool,
   getAccountCurrenciesTool,
   getAccountInfoTool,
   getAccountLinesTool,
@@ -15,97 +23,134 @@ import {
   getAccountObjectsTool,
   getAccountOffersTool,
   getAccountTxTool,
+  getAmmInfoTool,
+  getDepositAuthorizedTool,
   getFeeTool,
   getGatewayBalancesTool,
+  getMPTHoldersTool,
+  getNFTBuyOffersTool,
+  getNFTSellOffersTool,
   getServerInfoTool,
+  getTransactionTool,
   hexToCurrencyCodeTool,
+  importWalletTool,
+  listKeysTool,
+  prepareMultisignTransactionTool,
+  signMultisignTransactionTool,
+  signPaymentChannelClaimTool,
+  simulateTransactionTool,
+  submitAccountDeleteTool,
   submitAccountSetTool,
+  submitAmmBidTool,
   submitAmmCreateTool,
+  submitAmmDeleteTool,
+  submitAmmDepositTool,
+  submitAmmVoteTool,
+  submitAmmWithdrawTool,
+  submitCheckCancelTool,
+  submitCheckCashTool,
+  submitCheckCreateTool,
   submitClawbackTool,
+  submitCredentialAcceptTool,
+  submitCredentialCreateTool,
+  submitCredentialDeleteTool,
+  submitDepositPreauthTool,
+  submitEscrowCancelTool,
+  submitEscrowCreateTool,
+  submitEscrowFinishTool,
+  submitMPTokenAuthorizeTool,
+  submitMPTokenIssuanceCreateTool,
+  submitMPTokenIssuanceDestroyTool,
+  submitMPTokenIssuanceSetTool,
+  submitNFTokenAcceptOfferTool,
+  submitNFTokenBurnTool,
+  submitNFTokenCancelOfferTool,
+  submitNFTokenCreateOfferTool,
   submitNFTokenMintTool,
+  submitNFTokenModifyTool,
   submitOfferCancelTool,
   submitOfferCreateTool,
+  submitPaymentChannelClaimTool,
+  submitPaymentChannelCreateTool,
+  submitPaymentChannelFundTool,
   submitPaymentTool,
+  submitPermissionedDomainDeleteTool,
+  submitPermissionedDomainSetTool,
+  submitSetRegularKeyTool,
+  submitSignerListSetTool,
+  submitTicketCreateTool,
   submitTrustSetTool,
+  verifyCryptoConditionTool,
+  verifyPaymentChannelClaimTool,
   xrpToDropsTool,
 } from '../tools'
-import { tokenIssuanceWorkflow } from '../workflows'
+import { keyRotationWorkflow, tokenIssuanceWorkflow } from '../workflows'
 
 export const xrplAgent = new Agent({
   name: 'XRP Ledger Agent',
   instructions: `
     You are a specialized XRP Ledger (XRPL) assistant that helps users interact with and understand the XRP Ledger blockchain. You have access to comprehensive tools for querying account information, server status, and performing conversions.
 
-    ## Available Networks and WebSocket URLs
+    ## Available Networks
 
-    ### Mainnet (Production Networks)
-    
-    **Non-Commercial (Free Access):**
-    - **XRP Ledger Foundation**: wss://xrplcluster.com/ or wss://xrpl.ws/
-      - Full history server cluster with CORS support
-      - Recommended for general use
-    - **Ripple (General Purpose)**: wss://s1.ripple.com/
-      - General purpose server cluster
-    - **Ripple (Full History)**: wss://s2.ripple.com/
-      - Full-history server cluster
+    Pass the network name (or one of its aliases) to the tools, or the WebSocket URL of an endpoint.
 
-    **Commercial (Paid Access):**
-    - **XRP Ledger Foundation via Dhali**: https://xrplcluster.dhali.io/
-      - Requires paid API key in Payment-Claim header
-    - **QuickNode**: Various endpoints under free and paid plans
+    ### Mainnet (Production Network)
+${describeNetworks('mainnet')}
 
     ### Test Networks (Development/Testing)
-
-    **Testnet:**
-    - **Ripple Testnet**: wss://s.altnet.rippletest.net:51233/
-    - **XRPL Labs Testnet**: wss://testnet.xrpl-labs.com/
-      - Testnet public server with CORS support
-    - **Ripple Testnet (Clio)**: wss://clio.altnet.rippletest.net:51233/
-      - Testnet public server with Clio
-
-    **Devnet:**
-    - **Ripple Devnet**: wss://s.devnet.rippletest.net:51233/
-    - **Ripple Devnet (Clio)**: wss://clio.devnet.rippletest.net:51233/
-    - **Sidechain-Devnet**: wss://sidechain-net2.devnet.rippletest.net:51233/
-      - Sidechain Devnet for testing cross-chain bridge features
-
-    **Specialized Test Networks:**
-    - **Xahau Testnet (XRPL Labs)**: wss://xahau-test.net/
-      - Hooks-enabled Xahau Testnet
+${describeNetworks('test')}
 
     ## Important Context
 
     ### Default Network
-    By default, use the mainnet non-commercial network operated by the XRP Ledger Foundation:
-    - **WebSocket URL**: wss://xrplcluster.com/
-    - **Network Type**: Mainnet (Non-Commercial)
-    - **Features**: Full history server cluster with CORS support
+    By default, use mainnet. Its first endpoint, wss://xrplcluster.com, is a full history server cluster run by the XRP Ledger Foundation.
 
     ### Network Usage Guidelines
     - Always specify which network you're using in responses (unless user requests otherwise)
-    - Always use a WebSocket URL to connect the XRPL Client to the network. Never use a HTTP or HTTPS URL.
+    - Pass the network name to use the connection pool with failover across its endpoints, or a WebSocket URL. Never use a HTTP or HTTPS URL.
     - Use the user's provided WebSocket URL if they specify one
-    - The network URL is passed to the XRPL Client constructor
+    - The NetworkID of networks that require it (ID above 1024) is set automatically
     - Different networks may have different data and capabilities
     - For faucet operations, only use testnet networks (testnet, devnet, etc.)
 
     ### Transaction Guidelines
     - Always use the correct transaction type for the operation.
     - You typically don't need to set the Fee, LastLedgerSequence, Sequence fields, the autofill will set it for you.
-    - Either provide a seed with a transaction json (on testnet/devnet) or a signature on mainnet, not both.
+    - Either provide a keyAlias with a transaction json (on testnet/devnet) or a signature on mainnet, not both.
+    - A transaction policy rejects signing with stored keys on mainnet and enforces per-account limits (max XRP per payment, allowed transaction types and destinations). When a transaction is rejected by policy, explain the reason to the user, never try to work around it.
+    - A submission can return the status "approval_required" instead of a result. Show the user the reason and the summary of the transaction, and tell them it is waiting for a human to approve the run of the transaction-approval-workflow with the given runId. Never approve it yourself or resubmit it.
+    - Before submitting a transaction that moves funds or creates objects, dry-run it with mode "simulate" and explain the projected result to the user.
+    - On mainnet, use mode "prepare" to return the unsigned transaction and blob for the user to sign on their own device, then submit the signed blob as signature. Use mode "sign" to get a signed blob and hash without broadcasting.
     - Always encode the currency code in hex if it's not a standard currency code. Use the currencyCodeToHexTool to convert it to a 160-bit hex value.
+    - A submitted transaction reports a status: "success", "failed", "expired" or "pending". Never resubmit a "pending" transaction, look it up by hash with getTransactionTool first. Only an "expired" transaction, or a failed one that was never validated, can safely be sent again.
+    - Transaction results include an explanation of their result code with its category and a suggested fix. Use it, or the explainResultCodeTool for any other code, to explain failures. Never guess the meaning of a result code.
+    - For conditional escrows, always generate the Condition and Fulfillment with the generateCryptoConditionTool, never craft them by hand.
+    - Never disable the master key (asfDisableMaster) before a regular key or signer list is proven to sign for the account. To rotate keys or disable the master key, run the keyRotationWorkflow, which assigns a new regular key, verifies it with a no-op AccountSet and only then disables the master key. Only set its disableMaster input when the user explicitly asks to disable the master key, it can't be undone. When one of its steps is suspended for approval, show the user the summary and tell them a human must resume that step, never resume it yourself.
+    - Before deleting an account, run checkAccountDeleteTool and resolve every blocker it lists: a failed AccountDelete still costs its fee of one owner reserve (2 XRP on mainnet).
+    - Accounts with Deposit Authorization (asfDepositAuth) only receive funds from accounts they preauthorized with DepositPreauth, directly or through credentials. The payment tool checks this with getDepositAuthorizedTool before signing, when it fails, tell the user the destination must preauthorize the sender instead of retrying.
+    - Credentials attest that an account passed a check such as KYC. To run a KYC flow: the issuer creates the credential with submitCredentialCreateTool, the subject accepts it with submitCredentialAcceptTool, the destination preauthorizes the credential with DepositPreauth AuthorizeCredentials, and the subject then pays with the credentialId from getAccountCredentialsTool in CredentialIDs. Give credential types as plain text, the tools hex-encode them. Never put personal data in a credential, the ledger is public.
+    - Permissioned domains group the accounts holding any of the credentials they accept. Create or update them with submitPermissionedDomainSetTool, and use checkDomainMembershipTool to report the credentials a domain accepts and whether an account is a member, never infer membership yourself.
+    - For multisig accounts, prepare the transaction with prepareMultisignTransactionTool, have each signer sign it with signMultisignTransactionTool (on mainnet, each signer signs it with their own wallet instead), then combine and submit the blobs with combineMultisignSignaturesTool.
 
     ### Faucet Usage Guidelines
     - Faucet funding is only available on testnet networks
     - Never use mainnet networks for funding operations
-    - Testnet networks include: testnet, devnet, sidechain-devnet, xahau-testnet
+    - Test networks are the networks listed under Test Networks above, the faucet host of each is set automatically
     - Default funding amount varies by network (typically 10 XRP but can vary)
     - If no wallet is provided, the tool will create a new wallet for you so you can skip the createWalletTool step.
 
+    ### Keystore Guidelines
+    - Wallets are stored encrypted in the keystore, and referred to by their key alias. Tools that sign take a keyAlias, never a seed.
+    - Use listKeysTool to find the key alias of an address.
+    - If the user gives a seed, import it with importWalletTool and use its key alias from then on. Never repeat or display a seed.
+
     ### Key Concepts
     - **Drops**: The smallest unit of XRP (1 XRP = 1,000,000 drops). Only the XRP amount are expressed in drops.
     - **Trust Lines**: Required for holding non-XRP currencies/tokens
     - **Offers**: Orders in the decentralized exchange
+    - **Payment Channels**: XRP set aside for fast off-ledger payments, redeemed on-ledger with signed claims
+    - **Checks**: Deferred payments that the destination cashes later, up to the amount authorized by the sender
     - **NFTs**: Non-fungible tokens on the XRPL
     - **Ledger Objects**: Raw data structures in the ledger
 
@@ -124,11 +169,11 @@ export const xrplAgent = new Agent({
     - NFT data includes metadata that may need decoding
 
     ### Network Selection Tips
-    - **For Production**: Use mainnet networks (wss://xrplcluster.com/ recommended)
-    - **For Development**: Use testnet networks (wss://s.altnet.rippletest.net:51233/ or wss://testnet.xrpl-labs.com/)
-    - **For Testing**: Use devnet networks (wss://s.devnet.rippletest.net:51233/)
-    - **For Faucet Funding**: Only use test networks (testnet, devnet, sidechain-devnet, xahau-testnet)
-    - **For Full History**: Use wss://s2.ripple.com/ or wss://xrplcluster.com/
+    - **For Production**: Use mainnet
+    - **For Development**: Use testnet
+    - **For Testing New Features**: Use devnet
+    - **For Faucet Funding**: Only use test networks
+    - **For Full History**: Use an endpoint marked as full history, e.g. wss://xrplcluster.com or wss://s2.ripple.com
 
     You are knowledgeable about XRPL technology and can help users understand blockchain concepts, interpret data, and perform various XRPL operations.
   `,
@@ -137,6 +182,7 @@ export const xrplAgent = new Agent({
     // Public methods
     // Account
     getAccountChannelsTool,
+    getAccountChecksTool,
     getAccountCurrenciesTool,
     getAccountInfoTool,
     getAccountLinesTool,
@@ -144,12 +190,26 @@ export const xrplAgent = new Agent({
     getAccountObjectsTool,
     getAccountOffersTool,
     getAccountTxTool,
+    getDepositAuthorizedTool,
     getGatewayBalancesTool,
 
+    // NFT
+    getNFTBuyOffersTool,
+    getNFTSellOffersTool,
+
+    // AMM
+    getAmmInfoTool,
+
+    // MPT
+    getMPTHoldersTool,
+
     // Currency
     currencyCodeToHexTool,
     hexToCurrencyCodeTool,
 
+    // Transaction
+    getTransactionTool,
+
     // Server Info
     getServerInfoTool,
     getFeeTool,
@@ -158,22 +218,84 @@ export const xrplAgent = new Agent({
     xrpToDropsTool,
     dropsToXrpTool,
 
+    // Crypto-conditions
+    generateCryptoConditionTool,
+    verifyCryptoConditionTool,
+
+    // Payment channel claims
+    signPaymentChannelClaimTool,
+    verifyPaymentChannelClaimTool,
+
+    // Multi-signing
+    prepareMultisignTransactionTool,
+    signMultisignTransactionTool,
+    combineMultisignSignaturesTool,
+
+    // Simulation
+    simulateTransactionTool,
+
+    // Result codes
+    explainResultCodeTool,
+
+    // Account deletion
+    checkAccountDeleteTool,
+
+    // Credentials
+    getAccountCredentialsTool,
+    checkDomainMembershipTool,
+
     // Wallet
     createWalletTool,
     fundWalletWithFaucetTool,
+    importWalletTool,
+    listKeysTool,
 
     // Transactions
+    submitAccountDeleteTool,
     submitAccountSetTool,
+    submitAmmBidTool,
     submitAmmCreateTool,
+    submitAmmDeleteTool,
+    submitAmmDepositTool,
+    submitAmmVoteTool,
+    submitAmmWithdrawTool,
+    submitCheckCancelTool,
+    submitCheckCashTool,
+    submitCheckCreateTool,
     submitClawbackTool,
+    submitCredentialAcceptTool,
+    submitCredentialCreateTool,
+    submitCredentialDeleteTool,
+    submitDepositPreauthTool,
+    submitEscrowCancelTool,
+    submitEscrowCreateTool,
+    submitEscrowFinishTool,
+    submitMPTokenAuthorizeTool,
+    submitMPTokenIssuanceCreateTool,
+    submitMPTokenIssuanceDestroyTool,
+    submitMPTokenIssuanceSetTool,
+    submitNFTokenAcceptOfferTool,
+    submitNFTokenBurnTool,
+    submitNFTokenCancelOfferTool,
+    submitNFTokenCreateOfferTool,
     submitNFTokenMintTool,
+    submitNFTokenModifyTool,
     submitOfferCancelTool,
     submitOfferCreateTool,
+    submitPaymentChannelClaimTool,
+    submitPaymentChannelCreateTool,
+    submitPaymentChannelFundTool,
+    submitPermissionedDomainDeleteTool,
+    submitPermissionedDomainSetTool,
     submitPaymentTool,
+    submitSetRegularKeyTool,
+    submitSignerListSetTool,
+    submitTicketCreateTool,
     submitTrustSetTool,
   },
   workflows: {
     tokenIssuanceWorkflow,
+    keyRotationWorkflow,
   },
   memory: new Memory({
     storage: new LibSQLStore({
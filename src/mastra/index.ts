@@ -2,10 +2,10 @@ import { Mastra } from '@mastra/core/mastra'
 import { LibSQLStore } from '@mastra/libsql'
 import { PinoLogger } from '@mastra/loggers'
 import { xrplAgent } from './agents/xrpl-agent'
-import { tokenIssuanceWorkflow } from './workflows'
+import { keyRotationWorkflow, tokenIssuanceWorkflow, transactionApprovalWorkflow } from './workflows'
 
 export const mastra = new Mastra({
-  workflows: { tokenIssuanceWorkflow },
+  workflows: { tokenIssuanceWorkflow, transactionApprovalWorkflow, keyRotationWorkflow },
   agents: { xrplAgent },
   storage: new LibSQLStore({
     // stores telemetry, evals, ... into memory storage, if it needs to persist, change to file:../mastra.db
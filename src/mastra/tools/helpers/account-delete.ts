@@ -0,0 +1,37 @@
+import { createTool } from '@mastra/core/tools'
+import { z } from 'zod'
+import { checkAccountDelete } from '../transactions/shared'
+
+export const checkAccountDeleteTool = createTool({
+  id: 'check-account-delete',
+  description: `Check whether an account can be deleted with AccountDelete, and list what prevents it. Nothing is signed or submitted.
+
+Input Parameters:
+- network: The network name or WebSocket URL (string, required)
+- account: The address of the account to delete (string, required)
+- destination: The address of the account to receive the remaining XRP (string, required)
+- destinationTag: The DestinationTag of the AccountDelete, if any (number, optional)
+
+The check reads the validated ledger with account_info, account_objects (deletion_blockers_only) and deposit_authorized:
+- The account's Sequence, and its last minted NFT, must be at least 256 ledgers old
+- The account must not own trust lines, escrows, payment channels, checks, NFT pages or other blocking objects
+- The destination must exist, be another account, get a DestinationTag if it requires one, and accept the deposit
+
+The result includes:
+- eligible: Whether the account can be deleted now (boolean)
+- blockers: What prevents the deletion, each with how to remove it (array of strings)
+- ledgerIndex: The validated ledger the check is based on (number)
+
+Important Notes:
+- The AccountDelete fee is the owner reserve increment (2 XRP on mainnet) and is paid even if the deletion fails, always run this check first
+- The submit-account-delete tool runs the same check before signing`,
+  inputSchema: z.object({
+    network: z.string().describe('Network name or WebSocket URL'),
+    account: z.string().describe('The account to delete'),
+    destination: z.string().describe('The account to receive the remaining XRP'),
+    destinationTag: z.number().int().optional().describe('The DestinationTag of the AccountDelete'),
+  }),
+  execute: async ({ context, mastra }) => {
+    return await checkAccountDelete({ ...context, mastra })
+  },
+})
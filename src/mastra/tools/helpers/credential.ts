@@ -0,0 +1,50 @@
+import { createTool } from '@mastra/core/tools'
+import { unixTimeToRippleTime } from 'xrpl'
+import { z } from 'zod'
+import { summarizeCredential } from '../../../helpers'
+import { getAccountCredentials } from '../transactions/shared'
+
+export const getAccountCredentialsTool = createTool({
+  id: 'get-account-credentials',
+  description: `List the credentials an account issued, or that were issued to it, from account_objects on the validated ledger. Credential types and URIs are decoded to text.
+
+Input Parameters:
+- network: The network name or WebSocket URL (string, required)
+- account: The address of the issuer or subject (string, required)
+- role: Only list the credentials the account issued ("issuer") or holds ("subject") (string, optional)
+
+The result includes:
+- account: The requested account (string - address)
+- ledgerIndex: The validated ledger the credentials were read from (number)
+- credentials: Array of credentials, each containing:
+  - credentialId: The ledger entry ID of the credential, to present in the CredentialIDs of a Payment (string)
+  - issuer / subject: The issuer and the subject of the credential (string - address)
+  - credentialType: The type of the credential as text (string)
+  - role: Whether the account is the "issuer" or the "subject" of the credential (string)
+  - accepted: Whether the subject accepted the credential with CredentialAccept (boolean)
+  - expiration: ISO date after which the credential is no longer valid (string, optional)
+  - expired: Whether the credential is expired now (boolean)
+  - uri: The URI of the credential, e.g. where its details are (string, optional)
+
+Important Notes:
+- A credential only counts for deposit authorization and permissioned domains once it is accepted and while it isn't expired
+- Expired credentials can be deleted by anyone with CredentialDelete`,
+  inputSchema: z.object({
+    network: z.string().describe('Network name or WebSocket URL'),
+    account: z.string().describe('The issuer or subject of the credentials'),
+    role: z.enum(['issuer', 'subject']).optional().describe('Only list the credentials with this role of the account'),
+  }),
+  execute: async ({ context, mastra }) => {
+    const { network, account, role } = context
+
+    const { credentials, ledgerIndex } = await getAccountCredentials(network, account, mastra)
+    const now = unixTimeToRippleTime(Date.now())
+    const summaries = credentials.map(credential => summarizeCredential(credential, account, now))
+
+    return {
+      account,
+      ledgerIndex,
+      credentials: role ? summaries.filter(summary => summary.role === role) : summaries,
+    }
+  },
+})
@@ -0,0 +1,58 @@
+import { createTool } from '@mastra/core/tools'
+import { z } from 'zod'
+import { generateCryptoCondition, verifyCryptoCondition } from '../../../helpers'
+
+export const generateCryptoConditionTool = createTool({
+  id: 'generate-crypto-condition',
+  description: `Generate a PREIMAGE-SHA-256 crypto-condition and its fulfillment for conditional escrows. This is an off-chain operation that doesn't depend on any network.
+
+Input Parameters:
+- preimage: Optional secret preimage as a hex string (string, optional)
+  - If not provided, 32 random bytes are generated
+  - Maximum 256 bytes
+
+The result includes:
+- condition: Hex value to use as EscrowCreate.Condition and EscrowFinish.Condition
+- fulfillment: Hex value to use as EscrowFinish.Fulfillment
+- preimage: The secret preimage as a hex string
+
+Important Notes:
+- This is an off-chain operation - no network connection required
+- Always use this tool instead of crafting conditions by hand
+- The fulfillment and the preimage are secrets: anyone who knows them can finish the escrow
+- Only share the condition until the escrow should be released
+- The condition and fulfillment are already hex encoded, do not convert them again`,
+  inputSchema: z.object({
+    preimage: z.string().optional().describe('Optional secret preimage as a hex string, random if omitted'),
+  }),
+  execute: async ({ context }) => {
+    const { preimage } = context
+
+    return generateCryptoCondition(preimage)
+  },
+})
+
+export const verifyCryptoConditionTool = createTool({
+  id: 'verify-crypto-condition',
+  description: `Verify offline that a PREIMAGE-SHA-256 fulfillment matches a crypto-condition. This is an off-chain operation that doesn't depend on any network.
+
+Input Parameters:
+- condition: The condition as a hex string (string, required)
+- fulfillment: The fulfillment as a hex string (string, required)
+
+The result includes:
+- valid: Whether the fulfillment matches the condition (boolean)
+
+Important Notes:
+- Use this tool before submitting an EscrowFinish to avoid a tecCRYPTOCONDITION_ERROR
+- Only PREIMAGE-SHA-256 conditions are supported, which is the only type the XRP Ledger accepts`,
+  inputSchema: z.object({
+    condition: z.string().describe('The condition as a hex string'),
+    fulfillment: z.string().describe('The fulfillment as a hex string'),
+  }),
+  execute: async ({ context }) => {
+    const { condition, fulfillment } = context
+
+    return { valid: verifyCryptoCondition(condition, fulfillment) }
+  },
+})
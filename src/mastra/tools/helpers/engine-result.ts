@@ -0,0 +1,42 @@
+import { createTool } from '@mastra/core/tools'
+import { z } from 'zod'
+import { explainEngineResult } from '../../../helpers'
+import { xrplEngineResultExplanationSchema } from '../transactions/shared'
+
+export const explainResultCodeTool = createTool({
+  id: 'explain-result-code',
+  description: `Explain a transaction result code (tes, tec, tef, tel, tem or ter) with its meaning, category and suggested fix.
+
+Input Parameters:
+- code: The result code, e.g. tecPATH_DRY, tefPAST_SEQ or terQUEUED (string, required)
+
+The result includes:
+- code: The result code (string)
+- category: What the code means for the transaction (string)
+  - success: The transaction was applied
+  - claimed-fee: The transaction is in a ledger and paid the fee, but failed. Fix the cause and send a new transaction
+  - retryable: The transaction was not applied yet, the same transaction may still succeed
+  - permanent: The transaction can never be applied as is, fix it and sign it again
+- description: What the code means (string)
+- fix: How to fix or handle it (string)
+- known: Whether the code is in the catalog, unknown codes only get a generic explanation of their class (boolean)
+
+Important Notes:
+- Results of the transaction tools already include the explanation of their code, use this tool for codes from other sources
+- Always use this tool rather than guessing the meaning of a code`,
+  inputSchema: z.object({
+    code: z.string().describe('The result code to explain, e.g. tecPATH_DRY'),
+  }),
+  outputSchema: xrplEngineResultExplanationSchema,
+  execute: async ({ context }) => {
+    const explanation = explainEngineResult(context.code.trim())
+
+    if (!explanation) {
+      throw new Error(
+        `${context.code} is not a transaction result code, codes start with tes, tec, tef, tel, tem or ter`,
+      )
+    }
+
+    return explanation
+  },
+})
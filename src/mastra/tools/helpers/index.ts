@@ -1 +1,9 @@
+export * from './account-delete'
 export * from './amount'
+export * from './credential'
+export * from './crypto-condition'
+export * from './engine-result'
+export * from './multisign'
+export * from './payment-channel-claim'
+export * from './permissioned-domain'
+export * from './simulate-transaction'
@@ -0,0 +1,125 @@
+import { createTool } from '@mastra/core/tools'
+import { decode, hashes, multisign, SubmittableTransaction } from 'xrpl'
+import { z } from 'zod'
+import { enforceTransactionPolicy, getApprovalReason, getWalletByAlias, getXrplClient } from '../../../helpers'
+import { requestTransactionApproval } from '../../workflows/transaction-approval-workflow'
+import { submitTransaction } from '../transactions/shared'
+
+export const prepareMultisignTransactionTool = createTool({
+  id: 'prepare-multisign-transaction',
+  description: `Prepare a transaction to be multi-signed: autofill Sequence, LastLedgerSequence and a Fee that covers the given number of signers.
+
+Input Parameters:
+- network: WebSocket URL of the network the transaction will be submitted to (string, required)
+- transaction: The transaction JSON, with TransactionType and Account set to the multisig account (object, required)
+- signersCount: The number of signers that will sign the transaction (number, required)
+
+The result includes:
+- transaction: The prepared transaction, with SigningPubKey set to "" as required for multi-signing
+
+Important Notes:
+- The fee of a multi-signed transaction is (N + 1) times the normal fee, so signersCount must be at least the number of signatures that will be combined
+- Give the same prepared transaction to every signer: any change invalidates the other signatures
+- LastLedgerSequence is set about 20 ledgers (~80 seconds) ahead, remove it or set a later one if collecting signatures takes longer
+- Use a Ticket (TicketSequence with Sequence 0) when collecting signatures may take long, so other transactions of the account don't invalidate it`,
+  inputSchema: z.object({
+    network: z.string().describe('The network the transaction will be submitted to'),
+    transaction: z.custom<SubmittableTransaction>().describe('The transaction JSON to prepare'),
+    signersCount: z.number().int().gte(1).lte(32).describe('The number of signers that will sign'),
+  }),
+  execute: async ({ context, mastra }) => {
+    const { network, transaction, signersCount } = context
+
+    const client = await getXrplClient(network, mastra)
+
+    const prepared = await client.autofill({ ...transaction, SigningPubKey: '' }, signersCount)
+
+    return { transaction: prepared }
+  },
+})
+
+export const signMultisignTransactionTool = createTool({
+  id: 'sign-multisign-transaction',
+  description: `Sign a prepared transaction as one signer of a multisig account. The signature itself is off-chain, the network is only used to check the transaction policy.
+
+Input Parameters:
+- network: WebSocket URL of the network the transaction will be submitted to (string, required)
+- transaction: The transaction returned by prepare-multisign-transaction (object, required)
+- keyAlias: The keystore alias of the signer's key, whose address must be in the signer list of the account (string, required)
+
+The result includes:
+- signer: The address of the signer
+- tx_blob: The signed transaction blob carrying this signer's signature, to give to the combine-multisign-signatures tool
+- hash: The hash of this partially signed transaction (not the final hash)
+
+Important Notes:
+- The transaction policy applies as if the transaction was signed by a stored key, so it is rejected on mainnet: have each signer sign it with their own wallet instead
+- Each signer signs the exact same prepared transaction
+- A regular key of the signer can be used, the signature is attributed to the signer's address`,
+  inputSchema: z.object({
+    network: z.string().describe('The network the transaction will be submitted to'),
+    transaction: z.custom<SubmittableTransaction>().describe('The prepared transaction JSON'),
+    keyAlias: z.string().describe('The keystore alias of the signer key'),
+  }),
+  execute: async ({ context, mastra }) => {
+    const { network, transaction, keyAlias } = context
+
+    // The partial signature is made with a stored key, like any locally signed transaction
+    await enforceTransactionPolicy({ network, txn: transaction, signedLocally: true, mastra })
+
+    const wallet = await getWalletByAlias(keyAlias)
+    const { tx_blob, hash } = wallet.sign(transaction, true)
+
+    return {
+      signer: wallet.classicAddress,
+      tx_blob,
+      hash,
+    }
+  },
+})
+
+export const combineMultisignSignaturesTool = createTool({
+  id: 'combine-multisign-signatures',
+  description: `Combine the blobs signed by each signer into one multi-signed transaction, and optionally submit it.
+
+Input Parameters:
+- signatures: The tx_blob of every signer, returned by sign-multisign-transaction (array of strings, required)
+- network: WebSocket URL of the network to submit the combined transaction to (string, optional)
+  - If not provided, the combined blob is returned without being submitted
+
+The result includes:
+- tx_blob: The multi-signed transaction blob
+- hash: The final hash of the transaction
+- transaction: The decoded multi-signed transaction, including the sorted Signers
+- result: The submission result, only when network is provided. When the approval policy holds the transaction, status "approval_required" with the run to resume
+
+Important Notes:
+- All blobs must sign the exact same transaction, otherwise combining fails
+- The sum of the signers' weights must reach the SignerQuorum of the account, check it with account_objects (type "signer_list")
+- The combined blob can also be submitted later as the signature of any submit transaction tool`,
+  inputSchema: z.object({
+    signatures: z.array(z.string()).min(1).describe('The tx_blob of every signer'),
+    network: z.string().optional().describe('Network to submit the combined transaction to, not submitted if omitted'),
+  }),
+  execute: async ({ context, mastra }) => {
+    const { signatures, network } = context
+
+    const txBlob = multisign(signatures)
+    const transaction = decode(txBlob) as unknown as SubmittableTransaction
+    const hash = hashes.hashSignedTx(txBlob)
+
+    if (!network) {
+      return { tx_blob: txBlob, hash, transaction }
+    }
+
+    await enforceTransactionPolicy({ network, txn: transaction, signedLocally: false, mastra })
+
+    // Hold risky submissions until a human approves them
+    const reason = getApprovalReason(transaction)
+    const result = reason
+      ? await requestTransactionApproval({ mastra, network, txn: transaction, signature: txBlob, reason })
+      : await submitTransaction({ mastra, network, txn: transaction, signature: txBlob })
+
+    return { tx_blob: txBlob, hash, transaction, result }
+  },
+})
@@ -0,0 +1,126 @@
+import { createTool } from '@mastra/core/tools'
+import {
+  ChannelVerifyRequest,
+  dropsToXrp,
+  PaymentChannelClaim,
+  signPaymentChannelClaim,
+  verifyPaymentChannelClaim,
+} from 'xrpl'
+import { z } from 'zod'
+import { enforceTransactionPolicy, getWalletByAlias } from '../../../helpers'
+import { executeMethod } from '../methods/shared'
+
+export const signPaymentChannelClaimTool = createTool({
+  id: 'sign-payment-channel-claim',
+  description: `Sign a payment channel claim authorizing the destination of a channel to redeem XRP. The claim itself is off-chain, the network is only used to check the transaction policy.
+
+Input Parameters:
+- network: WebSocket URL of the network of the channel (string, required)
+- channel: The ID of the payment channel, as a 64-character hexadecimal string (string, required)
+- amount: The cumulative amount of XRP, in drops, the destination can redeem from the channel (string, required)
+- keyAlias: The keystore alias of the key pair whose public key was set as PublicKey when the channel was created (string, required)
+
+The result includes:
+- channel: The ID of the payment channel
+- amount: The amount of XRP, in drops, authorized by the claim
+- signature: The hex signature of the claim, to give to the destination
+- publicKey: The hex public key to use to verify the claim
+
+Important Notes:
+- No transaction is sent and no fee is paid
+- The transaction policy applies to the PaymentChannelClaim the claim authorizes, signed by a stored key, so it is rejected on mainnet
+- The amount is cumulative: each new claim replaces the previous one, so sign the total owed so far, not the increment
+- Never authorize more than the XRP held by the channel
+- The destination redeems the claim with a PaymentChannelClaim transaction using Balance, Amount, Signature and PublicKey`,
+  inputSchema: z.object({
+    network: z.string().describe('The network of the payment channel'),
+    channel: z.string().describe('The ID of the payment channel'),
+    amount: z.string().describe('The cumulative amount of XRP, in drops, to authorize'),
+    keyAlias: z.string().describe('The keystore alias of the key pair that signs claims for this channel'),
+  }),
+  execute: async ({ context, mastra }) => {
+    const { network, channel, amount, keyAlias } = context
+
+    const wallet = await getWalletByAlias(keyAlias)
+
+    // A claim moves XRP as soon as it is redeemed, so the policy checks the claim transaction it authorizes
+    const claim: PaymentChannelClaim = {
+      TransactionType: 'PaymentChannelClaim',
+      Account: wallet.classicAddress,
+      Channel: channel,
+      Amount: amount,
+    }
+
+    await enforceTransactionPolicy({ network, txn: claim, signedLocally: true, mastra })
+
+    // signPaymentChannelClaim expects an XRP amount and converts it back to drops
+    const signature = signPaymentChannelClaim(channel, dropsToXrp(amount).toString(), wallet.privateKey)
+
+    return {
+      channel,
+      amount,
+      signature,
+      publicKey: wallet.publicKey,
+    }
+  },
+})
+
+export const verifyPaymentChannelClaimTool = createTool({
+  id: 'verify-payment-channel-claim',
+  description: `Verify that a payment channel claim was signed by the given public key for the given channel and amount.
+
+Input Parameters:
+- channel: The ID of the payment channel, as a 64-character hexadecimal string (string, required)
+- amount: The amount of XRP, in drops, authorized by the claim (string, required)
+- signature: The hex signature of the claim (string, required)
+- publicKey: The hex public key of the channel (string, required)
+- network: WebSocket URL of the network to verify the claim with the channel_verify method (string, optional)
+  - If not provided, the claim is verified locally without any network connection
+
+The result includes:
+- valid: Whether the signature is valid for the channel, amount and public key (boolean)
+- method: How the claim was verified ("local" or "channel_verify")
+
+Important Notes:
+- A valid signature does not guarantee the channel holds enough XRP: check the channel with getAccountChannelsTool
+- Make sure the public key matches the PublicKey of the channel before relying on a claim
+- Verify every claim before delivering goods or services against it`,
+  inputSchema: z.object({
+    channel: z.string().describe('The ID of the payment channel'),
+    amount: z.string().describe('The amount of XRP, in drops, authorized by the claim'),
+    signature: z.string().describe('The hex signature of the claim'),
+    publicKey: z.string().describe('The hex public key of the channel'),
+    network: z.string().optional().describe('Network to verify the claim with channel_verify, local check if omitted'),
+  }),
+  execute: async ({ context, mastra }) => {
+    const { channel, amount, signature, publicKey, network } = context
+
+    // Verify the claim locally if no network is provided
+    if (!network) {
+      return {
+        valid: verifyPaymentChannelClaim(channel, dropsToXrp(amount).toString(), signature, publicKey),
+        method: 'local',
+      }
+    }
+
+    const request: ChannelVerifyRequest = {
+      command: 'channel_verify',
+      channel_id: channel,
+      amount,
+      signature,
+      public_key: publicKey,
+    }
+
+    const response = await executeMethod({
+      network,
+      request,
+      logMessage: 'Channel verify request',
+      mastra,
+    })
+
+    return {
+      valid: (response.result as { signature_verified: boolean }).signature_verified,
+      method: 'channel_verify',
+    }
+  },
+})
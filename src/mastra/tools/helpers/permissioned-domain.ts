@@ -0,0 +1,54 @@
+import { createTool } from '@mastra/core/tools'
+import { unixTimeToRippleTime } from 'xrpl'
+import { z } from 'zod'
+import { getAcceptedCredentialTypes, getDomainMembership, summarizeCredential } from '../../../helpers'
+import { getAccountCredentials, getPermissionedDomain, xrplDomainIdSchema } from '../transactions/shared'
+
+export const checkDomainMembershipTool = createTool({
+  id: 'check-domain-membership',
+  description: `Report the credentials a permissioned domain accepts and, for an account, whether it is a member of the domain. Nothing is signed or submitted.
+
+Input Parameters:
+- network: The network name or WebSocket URL (string, required)
+- domainId: The ledger entry ID of the permissioned domain (string, required)
+- account: The address of the account to evaluate (string, optional)
+
+The domain is read with ledger_entry and the credentials of the account with account_objects, on the validated ledger.
+An account is a member if it owns the domain, or holds a credential of one of the accepted kinds that it accepted and that isn't expired.
+
+The result includes:
+- domainId: The ID of the domain (string)
+- owner: The owner of the domain (string - address)
+- acceptedCredentials: The kinds of credentials the domain accepts, each with its issuer and credentialType as text (array)
+- membership: Only when an account is given:
+  - account: The evaluated account (string - address)
+  - member: Whether the account is a member of the domain (boolean)
+  - owner: Whether the account owns the domain (boolean)
+  - matchingCredentials: The valid credentials of the account that the domain accepts (array)
+  - reasons: Why the account is not a member, or why some of its matching credentials don't count, with how to fix it (array of strings)`,
+  inputSchema: z.object({
+    network: z.string().describe('Network name or WebSocket URL'),
+    domainId: xrplDomainIdSchema,
+    account: z.string().optional().describe('The account to evaluate the membership of'),
+  }),
+  execute: async ({ context, mastra }) => {
+    const { network, domainId, account } = context
+
+    const domain = await getPermissionedDomain(network, domainId, mastra)
+    const report = { domainId, owner: domain.Owner, acceptedCredentials: getAcceptedCredentialTypes(domain) }
+
+    if (!account) {
+      return report
+    }
+
+    const { credentials } = await getAccountCredentials(network, account, mastra)
+    const now = unixTimeToRippleTime(Date.now())
+    const membership = getDomainMembership({
+      domain,
+      account,
+      credentials: credentials.map(credential => summarizeCredential(credential, account, now)),
+    })
+
+    return { ...report, membership: { account, ...membership } }
+  },
+})
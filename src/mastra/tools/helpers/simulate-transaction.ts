@@ -0,0 +1,41 @@
+import { createTool } from '@mastra/core/tools'
+import { SubmittableTransaction } from 'xrpl'
+import { z } from 'zod'
+import { simulateTransaction, xrplSimulatedTransactionSchema } from '../transactions/shared'
+
+export const simulateTransactionTool = createTool({
+  id: 'simulate-transaction',
+  description: `Simulate any transaction with the simulate API to preview its outcome. Nothing is signed or submitted, no fee or sequence is spent.
+
+Input Parameters:
+- network: WebSocket URL of the network to simulate the transaction on (string, required)
+- txn: The unsigned transaction JSON, same as the txn input of the submit transaction tools (object, required)
+
+The result includes:
+- applied: Always false, the ledger is not changed
+- engine_result: The projected result code, e.g. tesSUCCESS, tecNO_LINE, tecUNFUNDED_OFFER (string)
+- engine_result_code: The numeric result code (number)
+- engine_result_message: A human-readable explanation of the result (string)
+- ledger_index: The ledger the transaction was simulated against (number)
+- transaction: The transaction as autofilled by the server (Fee, Sequence, etc.)
+- balanceChanges: Projected balance changes per account, as { account, balances: [{ currency, issuer?, value }] }
+- createdObjects: Ledger objects that would be created, as { LedgerEntryType, LedgerIndex }
+- deletedObjects: Ledger objects that would be deleted, as { LedgerEntryType, LedgerIndex }
+
+Important Notes:
+- The transaction must not be signed: omit SigningPubKey, TxnSignature and Signers
+- The result is a projection against the current open ledger, the actual result can differ if the ledger changes before submission
+- Non-standard currency codes must already be in 160-bit hex format, use the currencyCodeToHexTool
+- Every submit transaction tool also accepts mode "simulate" to dry-run with its own input processing
+- Requires a rippled server version 2.4.0 or later`,
+  inputSchema: z.object({
+    network: z.string().describe('The network to simulate the transaction on'),
+    txn: z.custom<SubmittableTransaction>().describe('The unsigned transaction JSON to simulate'),
+  }),
+  outputSchema: xrplSimulatedTransactionSchema,
+  execute: async ({ context, mastra }) => {
+    const { network, txn } = context
+
+    return await simulateTransaction({ mastra, network, txn })
+  },
+})
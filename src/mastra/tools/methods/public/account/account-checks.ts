@@ -0,0 +1,49 @@
+import { createTool } from '@mastra/core/tools'
+import { AccountObjectsRequest } from 'xrpl'
+import { z } from 'zod'
+import { executeMethod } from '../../shared'
+
+export const getAccountChecksTool = createTool({
+  id: 'get-account-checks',
+  description: `Get the outstanding Checks of an XRP Ledger account. This method runs account_objects filtered to the "check" type and returns the Check entries the account sent or can cash.
+
+Request Parameters:
+- account: A unique identifier for the account, most commonly the account's Address (string, required)
+- ledger_hash: The unique hash of the ledger version to use (string, optional)
+- ledger_index: The ledger index to use, or shortcut string like "validated" (string or number, optional)
+- limit: Maximum number of objects to include (number, optional, range: 10-400, default: 200)
+- marker: Value from previous paginated response for resuming (optional)
+
+The response includes:
+- account: Unique address of the account this request corresponds to (string)
+- account_objects: Array of Check entries, each containing:
+  - Account: The sender of the Check (string - address)
+  - Destination: The account that can cash the Check (string - address)
+  - SendMax: Maximum amount the Check can debit from the sender (object or string)
+  - Sequence: Sequence number of the CheckCreate transaction that created the Check (number)
+  - Expiration: Time after which the Check is no longer valid, in seconds since Ripple Epoch (number, optional)
+  - InvoiceID: Arbitrary 256-bit hash identifying the Check (string, optional)
+  - DestinationTag / SourceTag: Tags of the Check (number, optional)
+  - index: The Check ID to use with CheckCash and CheckCancel (string)
+- ledger_hash / ledger_index / ledger_current_index: Ledger version used to generate this response
+- marker: Server-defined value for pagination, omitted when no additional pages (optional)
+- validated: Whether the information comes from a validated ledger version (boolean)
+
+Note: Checks are listed for both their sender and their destination. Compare Account and Destination with the requested account to know which side it is on.`,
+  inputSchema: z.object({
+    network: z.string(),
+    request: z.custom<AccountObjectsRequest>(),
+  }),
+  execute: async ({ context, mastra }) => {
+    // Extract network and request from the context
+    const { network, request } = context
+
+    // Use the shared utility function to execute the account_objects command filtered to checks
+    return await executeMethod({
+      network,
+      request: { ...request, command: 'account_objects', type: 'check' },
+      logMessage: 'Account checks request',
+      mastra,
+    })
+  },
+})
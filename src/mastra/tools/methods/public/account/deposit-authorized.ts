@@ -0,0 +1,56 @@
+import { createTool } from '@mastra/core/tools'
+import { DepositAuthorizedRequest } from 'xrpl'
+import { z } from 'zod'
+import { executeMethod } from '../../shared'
+
+export const getDepositAuthorizedTool = createTool({
+  id: 'get-deposit-authorized',
+  description: `Check whether an account is authorized to send funds directly to another account. This is only restricted when the destination has Deposit Authorization enabled (asfDepositAuth), in which case the sender must be preauthorized with DepositPreauth, either directly or through credentials it holds.
+
+Request Parameters:
+- source_account: The sender of a possible payment (string - address, required)
+- destination_account: The recipient of a possible payment (string - address, required)
+- credentials: Ledger entry IDs of Credential entries the sender would present with CredentialIDs, up to 8 (array of strings, optional)
+- ledger_hash: The unique hash of the ledger version to use (string, optional)
+- ledger_index: The ledger index to use, or shortcut string like "validated" (string or unsigned integer, optional)
+
+The response includes:
+- deposit_authorized: Whether the source account may send funds directly to the destination (boolean)
+- source_account: The source account from the request (string - address)
+- destination_account: The destination account from the request (string - address)
+- credentials: The credentials from the request, if any (array of strings)
+- ledger_hash: The identifying hash of the ledger used to generate this response (string, optional)
+- ledger_index: The ledger index of the ledger used to generate this response (number, optional)
+- ledger_current_index: The ledger index of the current in-progress ledger used (number, optional)
+- validated: Whether the information comes from a validated ledger version (boolean)
+
+Important Notes:
+- A deposit is always authorized when the destination doesn't require Deposit Authorization, or when the source and destination are the same
+- Checks, escrows and payment channels can still deliver funds to an unauthorized sender in some cases, this method only covers direct payments
+- The credentials must be accepted, not expired, and owned by the source account
+
+Possible Errors:
+- invalidParams: One or more fields are specified incorrectly, or one or more required fields are missing
+- actMalformed: An address specified in the source_account or destination_account field was not properly formatted
+- dstActNotFound: The destination_account does not correspond to an account in the ledger
+- srcActNotFound: The source_account does not correspond to an account in the ledger
+- badCredentials: A credential is expired, not accepted, or not owned by the source account
+- lgrNotFound: The ledger specified by the ledger_hash or ledger_index does not exist, or it does exist but the server does not have it
+- Any of the universal error types`,
+  inputSchema: z.object({
+    network: z.string(),
+    request: z.custom<DepositAuthorizedRequest>(),
+  }),
+  execute: async ({ context, mastra }) => {
+    // Extract network and options from the context
+    const { network, request } = context
+
+    // Use the shared utility function to execute the deposit_authorized command
+    return await executeMethod({
+      network,
+      request: { ...request, command: 'deposit_authorized' },
+      logMessage: 'Deposit authorized request',
+      mastra,
+    })
+  },
+})
@@ -1,4 +1,5 @@
 export * from './account-channels'
+export * from './account-checks'
 export * from './account-currencies'
 export * from './account-info'
 export * from './account-lines'
@@ -6,4 +7,7 @@ export * from './account-nfts'
 export * from './account-objects'
 export * from './account-offers'
 export * from './account-tx'
+export * from './deposit-authorized'
 export * from './gateway-balances'
+export * from './nft-buy-offers'
+export * from './nft-sell-offers'
@@ -0,0 +1,55 @@
+import { createTool } from '@mastra/core/tools'
+import { NFTBuyOffersRequest } from 'xrpl'
+import { z } from 'zod'
+import { executeMethod } from '../../shared'
+
+export const getNFTBuyOffersTool = createTool({
+  id: 'get-nft-buy-offers',
+  description: `Retrieve all of the buy offers for the specified NFT. Use it to find an offer ID before accepting, brokering or canceling it.
+
+Request Parameters:
+- nft_id: The unique identifier of an NFToken object (string, required)
+- ledger_hash: The unique hash of the ledger version to use (string, optional)
+- ledger_index: The ledger index to use, or shortcut string like "validated" (string or number, optional)
+- limit: Limit the number of offers to retrieve (integer, optional, range: 50-500, default: 250)
+- marker: Value from a previous paginated response for resuming (optional)
+
+The response includes:
+- nft_id: The NFToken these offers are for (string)
+- offers: Array of buy offers for the NFT, each containing:
+  - amount: The amount offered for the NFT, in drops (string) or a token amount (object)
+  - flags: A bit-map of boolean flags for this offer (number)
+  - nft_offer_index: The ID of the offer, to use with NFTokenAcceptOffer and NFTokenCancelOffer (string)
+  - owner: The account that placed this offer (string - address)
+  - destination: The account that can accept this offer, if restricted (string - address, optional)
+  - expiration: Time after which the offer is no longer active, in seconds since Ripple Epoch (number, optional)
+- limit: The limit that was used in this request, if any (number, optional)
+- marker: Server-defined value for pagination, omitted when no additional pages (optional)
+
+Important Notes:
+- Buy offers are created by accounts that want to acquire the NFT, the owner accepts one with NFTokenAcceptOffer (NFTokenBuyOffer)
+- A broker can match a buy offer with a sell offer using NFTokenAcceptOffer in brokered mode
+- Expired offers are still listed until someone cancels them
+
+Possible Errors:
+- invalidParams: One or more fields are specified incorrectly, or one or more required fields are missing
+- objectNotFound: There are no buy offers for the NFT
+- lgrNotFound: The ledger specified by ledger_hash or ledger_index does not exist, or the server doesn't have it
+- Any of the universal error types`,
+  inputSchema: z.object({
+    network: z.string(),
+    request: z.custom<NFTBuyOffersRequest>(),
+  }),
+  execute: async ({ context, mastra }) => {
+    // Extract network and request from the context
+    const { network, request } = context
+
+    // Use the shared utility function to execute the nft_buy_offers command
+    return await executeMethod({
+      network,
+      request: { ...request, command: 'nft_buy_offers' },
+      logMessage: 'NFT buy offers request',
+      mastra,
+    })
+  },
+})
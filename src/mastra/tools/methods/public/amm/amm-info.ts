@@ -0,0 +1,57 @@
+import { createTool } from '@mastra/core/tools'
+import { AMMInfoRequest } from 'xrpl'
+import { z } from 'zod'
+import { executeMethod } from '../../shared'
+
+export const getAmmInfoTool = createTool({
+  id: 'get-amm-info',
+  description: `Get information about an Automated Market Maker (AMM) instance. Use it to read the pool state before depositing, withdrawing, voting, bidding or deleting the AMM.
+
+Request Parameters (provide either amm_account, or both asset and asset2):
+- amm_account: The address of the AMM's special AccountRoot (string, optional)
+- asset: One of the assets of the AMM, as an object with currency and issuer, or { "currency": "XRP" } (object, optional)
+- asset2: The other asset of the AMM, in the same format as asset (object, optional)
+- account: Show the LP tokens held by this liquidity provider (string - address, optional)
+- ledger_hash: The unique hash of the ledger version to use (string, optional)
+- ledger_index: The ledger index to use, or shortcut string like "validated" (string or number, optional)
+
+The response includes:
+- amm: Object describing the AMM, containing:
+  - account: The address of the AMM's special AccountRoot (string)
+  - amount: The total amount of one asset in the pool, in drops or token amount (string or object)
+  - amount2: The total amount of the other asset in the pool (string or object)
+  - asset_frozen / asset2_frozen: Whether the assets are frozen (boolean, optional)
+  - auction_slot: The current owner of the auction slot, its price, discounted fee, authorized accounts and expiration (object, optional)
+  - lp_token: The total outstanding LP tokens, with the LP token currency code and issuer to use in LPTokenOut, LPTokenIn, BidMin and BidMax (object)
+  - trading_fee: The current trading fee, in units of 1/100,000 (number)
+  - vote_slots: The current votes for the trading fee, with the account, trading fee and vote weight (array, optional)
+- ledger_hash / ledger_index / ledger_current_index: Ledger version used to generate this response
+- validated: Whether the information comes from a validated ledger version (boolean)
+
+Important Notes:
+- Currency codes that are not 3-letter ISO codes must be given in 160-bit hex format, use the currencyCodeToHexTool
+- The ratio of amount and amount2 is the current spot price of the pool
+- An AMM with empty amounts can be deleted with AMMDelete or refilled with AMMDeposit (tfTwoAssetIfEmpty)
+
+Possible Errors:
+- invalidParams: One or more fields are specified incorrectly, or one or more required fields are missing
+- actNotFound: The AMM for the provided assets or amm_account does not exist
+- lgrNotFound: The ledger specified by ledger_hash or ledger_index does not exist, or the server doesn't have it
+- Any of the universal error types`,
+  inputSchema: z.object({
+    network: z.string(),
+    request: z.custom<AMMInfoRequest>(),
+  }),
+  execute: async ({ context, mastra }) => {
+    // Extract network and request from the context
+    const { network, request } = context
+
+    // Use the shared utility function to execute the amm_info command
+    return await executeMethod({
+      network,
+      request: { ...request, command: 'amm_info' },
+      logMessage: 'AMM info request',
+      mastra,
+    })
+  },
+})
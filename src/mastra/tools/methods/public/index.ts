@@ -1,2 +1,5 @@
 export * from './account'
+export * from './amm'
+export * from './mpt'
 export * from './server-info'
+export * from './transaction'
@@ -0,0 +1,70 @@
+import { createTool } from '@mastra/core/tools'
+import { BaseRequest, LedgerIndex, Request } from 'xrpl'
+import { z } from 'zod'
+import { executeMethod } from '../../shared'
+
+/**
+ * Clio-only `mpt_holders` request, not part of the xrpl.js request types
+ * Reference: https://xrpl.org/docs/references/http-websocket-apis/public-api-methods/clio-methods/mpt_holders
+ */
+type MPTHoldersRequestParams = {
+  mpt_issuance_id: string
+  ledger_hash?: string
+  ledger_index?: LedgerIndex
+  limit?: number
+  marker?: unknown
+}
+
+type MPTHoldersRequest = BaseRequest & MPTHoldersRequestParams & { command: 'mpt_holders' }
+
+export const getMPTHoldersTool = createTool({
+  id: 'get-mpt-holders',
+  description: `List the holders of a Multi-Purpose Token (MPT) issuance and their balances.
+
+This method is only served by Clio servers. The public cluster endpoints of mainnet, testnet and devnet (e.g. wss://s1.ripple.com, wss://s.altnet.rippletest.net:51233, wss://s.devnet.rippletest.net:51233) are backed by Clio, a rippled node alone returns unknownCmd.
+
+Request Parameters:
+- mpt_issuance_id: The ID of the MPT issuance (string, required)
+- ledger_hash: The unique hash of the ledger version to use (string, optional)
+- ledger_index: The ledger index to use, or shortcut string like "validated" (string or number, optional)
+- limit: Limit the number of holders to retrieve (integer, optional, range: 1-100, default: 50)
+- marker: Value from a previous paginated response for resuming (optional)
+
+The response includes:
+- mpt_issuance_id: The MPT issuance these holders are for (string)
+- mptokens: Array of MPToken objects, each containing:
+  - account: The address of the holder (string)
+  - flags: The flags of the holder's MPToken, e.g. lsfMPTLocked (1) and lsfMPTAuthorized (2) (number)
+  - mpt_amount: The holder's balance in the smallest unit of the token (string)
+  - mptoken_index: The ledger object ID of the holder's MPToken (string)
+- limit: The limit used for this request (number)
+- marker: Server-defined value for pagination, present if there are more holders (optional)
+- ledger_index: The ledger index of the ledger used (number)
+- validated: Whether the information comes from a validated ledger version (boolean)
+
+Possible Errors:
+- invalidParams: One or more fields are specified incorrectly, or one or more required fields are missing
+- objectNotFound: The MPT issuance does not exist
+- unknownCmd: The server is not a Clio server
+- lgrNotFound: The ledger specified by ledger_hash or ledger_index does not exist, or the server doesn't have it
+- Any of the universal error types`,
+  inputSchema: z.object({
+    network: z.string(),
+    request: z.custom<MPTHoldersRequestParams>(),
+  }),
+  execute: async ({ context, mastra }) => {
+    // Extract network and request from the context
+    const { network, request } = context
+
+    // Build the Clio request, cast since mpt_holders is not in the xrpl.js request union
+    const mptHoldersRequest: MPTHoldersRequest = { ...request, command: 'mpt_holders' }
+
+    // Use the shared utility function to execute the mpt_holders command
+    return await executeMethod({
+      network,
+      request: mptHoldersRequest as unknown as Request,
+      logMessage: 'MPT holders request',
+      mastra,
+    })
+  },
+})
@@ -0,0 +1,48 @@
+import { createTool } from '@mastra/core/tools'
+import { TxRequest } from 'xrpl'
+import { z } from 'zod'
+import { executeMethod } from '../../shared'
+
+export const getTransactionTool = createTool({
+  id: 'get-transaction',
+  description: `Retrieve a transaction by its hash. Use it to check the outcome of a pending transaction before deciding to resubmit it.
+
+Request Parameters:
+- transaction: The 256-bit hash of the transaction, as hex (string, required)
+- min_ledger: Use with max_ledger to search a range of ledgers, e.g. from submission to LastLedgerSequence (number, optional)
+- max_ledger: Use with min_ledger to search a range of ledgers (number, optional)
+- binary: If true, return the transaction and metadata as hex blobs (boolean, optional, default: false)
+
+The response includes:
+- hash: The hash of the transaction (string)
+- tx_json: The transaction fields (object)
+- meta: The metadata, with TransactionResult, AffectedNodes and delivered_amount (object, only once in a ledger)
+- ledger_index: The ledger the transaction is in (number, optional)
+- validated: Whether the transaction is in a validated ledger, only then the result is final (boolean)
+
+Important Notes:
+- A transaction that is not validated may still be included in a later ledger, up to its LastLedgerSequence
+- Never resubmit a transaction that may still be validated: a txnNotFound error is only final when searched_all is true for a range up to LastLedgerSequence
+
+Possible Errors:
+- txnNotFound: The transaction was not found. searched_all tells whether the whole min_ledger - max_ledger range was searched
+- excessiveLgrRange: The min_ledger - max_ledger range is more than 1000 ledgers
+- invalidLgrRange: max_ledger is lower than min_ledger
+- Any of the universal error types`,
+  inputSchema: z.object({
+    network: z.string(),
+    request: z.custom<TxRequest>(),
+  }),
+  execute: async ({ context, mastra }) => {
+    // Extract network and request from the context
+    const { network, request } = context
+
+    // Use the shared utility function to execute the tx command
+    return await executeMethod({
+      network,
+      request: { ...request, command: 'tx' },
+      logMessage: 'Transaction request',
+      mastra,
+    })
+  },
+})
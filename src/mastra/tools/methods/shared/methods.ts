@@ -1,6 +1,6 @@
 import { ToolExecutionContext } from '@mastra/core'
 import { Request } from 'xrpl'
-import { disconnectXrplClient, getXrplClient } from '../../../../helpers'
+import { requestWithFailover } from '../../../../helpers'
 
 type ExecuteMethodProps = {
   network: string
@@ -25,24 +25,16 @@ export const executeMethod = async <R extends Request>({
   logMessage,
   mastra,
 }: ExecuteMethodProps) => {
-  // Get or create an XRPL client instance for the specified network
-  // This handles singleton pattern and connection management
-  const client = await getXrplClient(network, mastra)
-
   // Get the logger instance from Mastra for structured logging
   const logger = mastra?.getLogger()
 
   // Log the account method request with network URL and request options
   // This helps with debugging and monitoring request patterns
-  logger?.info(logMessage, { url: client.url, opts: JSON.stringify(request) })
+  logger?.info(logMessage, { network, opts: JSON.stringify(request) })
 
   // Execute the specified command on the XRPL network
-  // This retrieves the requested account data
-  const response = await client.request(request)
-
-  // Clean up: Disconnect the XRPL client to free up network resources
-  // This is important for resource management and preventing connection leaks
-  await disconnectXrplClient(network, mastra)
+  // The connection pool fails over to the next healthy endpoint of the network on timeouts or noNetwork
+  const response = await requestWithFailover(network, request, mastra)
 
   // Return the response to the user
   return response
@@ -0,0 +1,66 @@
+import { useTransactionToolFactory } from '../factory'
+import { checkAccountDelete } from '../shared'
+import { xrplAccountDeleteSchema } from './account-delete.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplAccountDeleteSchema,
+})
+
+export const submitAccountDeleteTool = createTransactionTool({
+  toolId: 'submit-account-delete',
+  description: `Submit an AccountDelete transaction to delete an account and send its remaining XRP to another account.
+
+## What is AccountDelete?
+Deleting an account removes it from the ledger and reclaims its base reserve: all its XRP, minus the fee, goes to the destination.
+
+## Required Fields:
+- **Destination**: Address of a funded account receiving the remaining XRP. It must be another account
+
+## Optional Fields:
+- **DestinationTag**: Tag identifying a hosted recipient at the destination. Required if the destination requires destination tags
+
+## Important Business Rules:
+- The fee is the owner reserve increment (2 XRP on mainnet), much higher than a usual fee. It is paid even if the deletion fails
+- The account's Sequence must be at least 256 below the current ledger index, and so must its last minted NFT
+- The account must not own trust lines, escrows, payment channels, checks, NFTs or other objects that block deletion
+- Offers, tickets, signer lists and deposit preauthorizations are deleted with the account, up to 1000 objects
+- The destination must exist, and accept the payment if it has Deposit Authorization enabled
+- The same account can be created again later, but with a new Sequence
+
+## Pre-flight Check:
+Before anything is signed, the tool checks the account and destination on the validated ledger and rejects the transaction with the list of blockers, so no fee is wasted. Use the check-account-delete tool to get the blockers without building a transaction.
+
+## Common Error Cases:
+- **tecTOO_SOON**: The Sequence or last minted NFT of the account is too recent
+- **tecHAS_OBLIGATIONS**: The account owns objects that block deletion
+- **tecNO_DST**: The destination does not exist
+- **tecDST_TAG_NEEDED**: The destination requires a DestinationTag
+- **tecNO_PERMISSION**: The destination requires deposit authorization
+- **tefTOO_BIG**: The account owns more than 1000 deletable objects
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "Destination": "rPT1Sjq2YGrBMTttX4GZHjKu9dyfzbpAYe",
+  "DestinationTag": 13,
+  "TransactionType": "AccountDelete"
+}
+\`\`\``,
+  buildTransaction: accountDelete => {
+    return accountDelete
+  },
+  validateTransaction: async (params, { network, mastra }) => {
+    const { eligible, blockers } = await checkAccountDelete({
+      network,
+      account: params.Account,
+      destination: params.Destination,
+      destinationTag: params.DestinationTag,
+      mastra,
+    })
+
+    if (!eligible) {
+      throw new Error(`${params.Account} cannot be deleted yet:\n- ${blockers.join('\n- ')}`)
+    }
+  },
+})
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * AccountDelete-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/accountdelete#accountdelete-fields
+ */
+export const xrplAccountDeleteFieldsSchema = z.object({
+  // Required field
+  Destination: z.string().describe('Address of a funded account to receive the remaining XRP of the deleted account'),
+
+  // Optional field
+  DestinationTag: z
+    .number()
+    .int()
+    .optional()
+    .describe('Arbitrary tag identifying the reason for the payment, or a hosted recipient at the destination'),
+})
+
+/**
+ * Complete AccountDelete transaction schema
+ */
+export const xrplAccountDeleteSchema = xrplCommonFieldsSchema
+  .merge(xrplAccountDeleteFieldsSchema)
+  .extend({ TransactionType: z.literal('AccountDelete') })
+
+export type XrplAccountDeleteFields = z.infer<typeof xrplAccountDeleteFieldsSchema>
+export type XrplAccountDelete = z.infer<typeof xrplAccountDeleteSchema>
@@ -1,5 +1,6 @@
-import { convertStringToHex } from 'xrpl'
+import { AccountSetAsfFlags, convertStringToHex } from 'xrpl'
 import { useTransactionToolFactory } from '../factory'
+import { assertAlternativeKey } from '../shared'
 import { xrplAccountSetSchema } from './account-set.types'
 
 const { createTransactionTool } = useTransactionToolFactory({
@@ -65,7 +66,7 @@ The following transaction flags can be combined using the Flags field, but this
 - Multiple transactions may be needed to set multiple asf* flags
 
 ### Security Considerations
-- **asfDisableMaster**: Permanently disables master key (use with extreme caution)
+- **asfDisableMaster**: Disables the master key (use with extreme caution). Rejected unless the account has a regular key or a signer list; prefer the key rotation workflow, which proves the regular key can sign first
 - **asfNoFreeze**: Permanently gives up freeze abilities (irreversible)
 - **asfDepositAuth**: Blocks all incoming payments unless below reserve
 - **asfRequireAuth**: Requires authorization for issued tokens
@@ -83,7 +84,7 @@ The following transaction flags can be combined using the Flags field, but this
       TransactionType: 'AccountSet',
     }
   },
-  validateTransaction: params => {
+  validateTransaction: async (params, { network, mastra }) => {
     if (params.TransferRate !== undefined && params.TransferRate < 1000000000) {
       throw new Error('TransferRate must be greater than or equal to 1000000000')
     }
@@ -96,5 +97,8 @@ The following transaction flags can be combined using the Flags field, but this
     if (params.TickSize !== undefined && params.TickSize > 15) {
       throw new Error('TickSize must be less than or equal to 15')
     }
+    if (params.SetFlag === AccountSetAsfFlags.asfDisableMaster) {
+      await assertAlternativeKey(network, params.Account, mastra)
+    }
   },
 })
@@ -0,0 +1,71 @@
+import { isUndefined } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { processCurrency } from '../shared'
+import { xrplAmmBidSchema } from './amm-bid.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplAmmBidSchema,
+})
+
+export const submitAmmBidTool = createTransactionTool({
+  toolId: 'submit-amm-bid',
+  description: `Submit an AMMBid transaction to bid LP tokens for the auction slot of an Automated Market Maker (AMM) pool.
+
+## What is the Auction Slot?
+The holder of the auction slot (and up to 4 authorized accounts) trades against the AMM at a discounted fee (1/10 of the trading fee) for 24 hours. LP tokens paid for the slot are partly refunded to the previous holder and the rest are burned.
+
+## Required Fields:
+- **Asset**: One asset of the pool ({ "currency": "XRP" } or { "currency", "issuer" })
+- **Asset2**: The other asset of the pool
+
+## Optional Fields:
+- **BidMin**: Pay at least this amount of LP tokens
+- **BidMax**: Pay at most this amount of LP tokens, the transaction fails if the slot costs more
+- **AuthAccounts**: Up to 4 additional accounts that trade at the discounted fee
+
+## Important Notes:
+- Use the getAmmInfoTool first to read the LP token currency and the current auction slot price
+- BidMin and BidMax are LP token amounts (currency and issuer of the LP token of the AMM)
+- Without BidMin and BidMax, the sender pays the minimum price of the slot
+
+## Common Error Cases:
+tecAMM_FAILED, tecAMM_INVALID_TOKENS, temBAD_AMM_TOKENS, terNO_ACCOUNT, terNO_AMM
+The result includes an explanation and a suggested fix of its code, use explain-result-code to look up any code.
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rJVUeRqDFNs2xqA7ncVE6ZoAhPUoaJJSQm",
+  "Asset": { "currency": "XRP" },
+  "Asset2": { "currency": "TST", "issuer": "rP9jPyP5kyvFRb6ZiRghAGw5u8SGAmU4bd" },
+  "BidMax": {
+    "currency": "039C99CD9AB0B70B32ECDA51EAAE471625608EA2",
+    "issuer": "rE54zDvgnghAoPopCgvtiqWNq3dU5y836S",
+    "value": "100"
+  },
+  "TransactionType": "AMMBid"
+}
+\`\`\``,
+  buildTransaction: ammBid => {
+    const { Asset, Asset2, ...rest } = ammBid
+
+    return {
+      ...rest,
+      Asset: processCurrency(Asset),
+      Asset2: processCurrency(Asset2),
+    }
+  },
+  validateTransaction: params => {
+    if (
+      !isUndefined(params.BidMin) &&
+      !isUndefined(params.BidMax) &&
+      Number(params.BidMin.value) > Number(params.BidMax.value)
+    ) {
+      throw new Error('BidMin cannot be greater than BidMax')
+    }
+
+    if (params.AuthAccounts?.some(({ AuthAccount }) => AuthAccount.Account === params.Account)) {
+      throw new Error('AuthAccounts cannot include the sender of the transaction')
+    }
+  },
+})
@@ -0,0 +1,45 @@
+import { z } from 'zod'
+import { xrplCurrencyAmountSchema, xrplIssueSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * Auth account wrapper schema, an account allowed to trade at the discounted fee
+ */
+export const xrplAuthAccountSchema = z.object({
+  AuthAccount: z.object({
+    Account: z.string().describe('Address of an account to authorize at the discounted trading fee (r-address)'),
+  }),
+})
+
+/**
+ * AMMBid-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/ammbid#ammbid-fields
+ */
+export const xrplAmmBidFieldsSchema = z.object({
+  // Required fields
+  Asset: xrplIssueSchema.describe('The definition for one of the assets in the AMM pool'),
+  Asset2: xrplIssueSchema.describe('The definition for the other asset in the AMM pool'),
+
+  // Optional fields
+  BidMin: xrplCurrencyAmountSchema
+    .optional()
+    .describe('Pay at least this amount of LP tokens for the slot. The currency and issuer are those of the LP token'),
+  BidMax: xrplCurrencyAmountSchema
+    .optional()
+    .describe('Pay at most this amount of LP tokens for the slot. The currency and issuer are those of the LP token'),
+  AuthAccounts: z
+    .array(xrplAuthAccountSchema)
+    .max(4)
+    .optional()
+    .describe('A list of up to 4 additional accounts that can trade at the discounted fee'),
+})
+
+/**
+ * Complete AMMBid transaction schema
+ */
+export const xrplAmmBidSchema = xrplCommonFieldsSchema
+  .merge(xrplAmmBidFieldsSchema)
+  .extend({ TransactionType: z.literal('AMMBid') })
+
+export type XrplAmmBidFields = z.infer<typeof xrplAmmBidFieldsSchema>
+export type XrplAmmBid = z.infer<typeof xrplAmmBidSchema>
@@ -34,14 +34,8 @@ Creates a new AMM instance that allows automated trading between two assets (fun
 - **Reserve Requirements**: Account needs sufficient XRP for new trust line (LP tokens)
 
 ## Common Error Cases:
-- **tecDUPLICATE**: AMM already exists for this currency pair
-- **tecFROZEN**: One or both assets are frozen
-- **tecNO_AUTH**: No authorization for authorized trust line assets
-- **tecNO_LINE**: No trust line for one or both assets
-- **tecUNFUNDED_AMM**: Insufficient balance of specified assets
-- **terNO_RIPPLE**: Token issuer doesn't have Default Ripple enabled
-- **temAMM_BAD_TOKENS**: Invalid asset pair (e.g., same token)
-- **temBAD_FEE**: TradingFee outside 0-1000 range
+tecDUPLICATE, tecFROZEN, tecNO_AUTH, tecNO_LINE, tecUNFUNDED_AMM, terNO_RIPPLE, temBAD_AMM_TOKENS, temBAD_FEE
+The result includes an explanation and a suggested fix of its code, use explain-result-code to look up any code.
 
 ## Example Usage:
 \`\`\`json
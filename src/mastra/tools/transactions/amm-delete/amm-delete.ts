@@ -0,0 +1,46 @@
+import { useTransactionToolFactory } from '../factory'
+import { processCurrency } from '../shared'
+import { xrplAmmDeleteSchema } from './amm-delete.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplAmmDeleteSchema,
+})
+
+export const submitAmmDeleteTool = createTransactionTool({
+  toolId: 'submit-amm-delete',
+  description: `Submit an AMMDelete transaction to delete an empty Automated Market Maker (AMM) pool.
+
+## What is AMMDelete?
+An AMM is normally deleted automatically when the last liquidity is withdrawn. If it held too many trust lines to delete in one transaction, it stays empty in the ledger and AMMDelete removes the remaining trust lines (up to 512 per transaction) and the AMM itself. Anyone can send it.
+
+## Required Fields:
+- **Asset**: One asset of the pool ({ "currency": "XRP" } or { "currency", "issuer" })
+- **Asset2**: The other asset of the pool
+
+## Important Notes:
+- Use the getAmmInfoTool first to check that the AMM is empty
+- Send AMMDelete again while it returns tecINCOMPLETE
+
+## Common Error Cases:
+tecAMM_NOT_EMPTY, tecINCOMPLETE, terNO_AMM
+The result includes an explanation and a suggested fix of its code, use explain-result-code to look up any code.
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rJVUeRqDFNs2xqA7ncVE6ZoAhPUoaJJSQm",
+  "Asset": { "currency": "XRP" },
+  "Asset2": { "currency": "TST", "issuer": "rP9jPyP5kyvFRb6ZiRghAGw5u8SGAmU4bd" },
+  "TransactionType": "AMMDelete"
+}
+\`\`\``,
+  buildTransaction: ammDelete => {
+    const { Asset, Asset2, ...rest } = ammDelete
+
+    return {
+      ...rest,
+      Asset: processCurrency(Asset),
+      Asset2: processCurrency(Asset2),
+    }
+  },
+})
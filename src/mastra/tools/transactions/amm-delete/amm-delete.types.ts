@@ -0,0 +1,23 @@
+import { z } from 'zod'
+import { xrplIssueSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * AMMDelete-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/ammdelete#ammdelete-fields
+ */
+export const xrplAmmDeleteFieldsSchema = z.object({
+  // Required fields
+  Asset: xrplIssueSchema.describe('The definition for one of the assets in the AMM pool'),
+  Asset2: xrplIssueSchema.describe('The definition for the other asset in the AMM pool'),
+})
+
+/**
+ * Complete AMMDelete transaction schema
+ */
+export const xrplAmmDeleteSchema = xrplCommonFieldsSchema
+  .merge(xrplAmmDeleteFieldsSchema)
+  .extend({ TransactionType: z.literal('AMMDelete') })
+
+export type XrplAmmDeleteFields = z.infer<typeof xrplAmmDeleteFieldsSchema>
+export type XrplAmmDelete = z.infer<typeof xrplAmmDeleteSchema>
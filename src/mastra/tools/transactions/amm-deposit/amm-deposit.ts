@@ -0,0 +1,71 @@
+import { useTransactionToolFactory } from '../factory'
+import { processAmount, processCurrency, validateAmmMode } from '../shared'
+import { AmmDepositModes, getAmmDepositFlagValue, xrplAmmDepositSchema } from './amm-deposit.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplAmmDepositSchema,
+})
+
+export const submitAmmDepositTool = createTransactionTool({
+  toolId: 'submit-amm-deposit',
+  description: `Submit an AMMDeposit transaction to add liquidity to an Automated Market Maker (AMM) pool in exchange for LP tokens.
+
+## Required Fields:
+- **Asset**: One asset of the pool ({ "currency": "XRP" } or { "currency", "issuer" })
+- **Asset2**: The other asset of the pool
+- **Flags**: Exactly one deposit mode flag (see below)
+
+## Deposit Modes (Flags):
+| Flag Name | Decimal Value | Fields | Description |
+|-----------|---------------|--------|-------------|
+| tfLPToken | 65536 | LPTokenOut (Amount, Amount2 optional limits) | Double-asset deposit to receive exactly LPTokenOut |
+| tfSingleAsset | 524288 | Amount | Single-asset deposit of exactly Amount |
+| tfTwoAsset | 1048576 | Amount, Amount2 | Double-asset deposit of up to Amount and Amount2 |
+| tfOneAssetLPToken | 2097152 | Amount, LPTokenOut | Single-asset deposit of up to Amount to receive LPTokenOut |
+| tfLimitLPToken | 4194304 | Amount, EPrice | Single-asset deposit of up to Amount, paying at most EPrice per LP token |
+| tfTwoAssetIfEmpty | 8388608 | Amount, Amount2, TradingFee (optional) | Double-asset deposit into an empty AMM |
+
+## Important Notes:
+- Use the getAmmInfoTool first to read the pool balances, the LP token currency and the trading fee
+- Single-asset deposits pay the trading fee on the part that unbalances the pool
+- Fields not used by the selected mode must be omitted
+- Custom currency codes are converted to hex by the tool, LP token currency codes are already hex
+
+## Common Error Cases:
+tecAMM_EMPTY, tecAMM_NOT_EMPTY, tecAMM_FAILED, tecFROZEN, tecUNFUNDED_AMM, temBAD_AMM_TOKENS, temMALFORMED, terNO_AMM
+The result includes an explanation and a suggested fix of its code, use explain-result-code to look up any code.
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rJVUeRqDFNs2xqA7ncVE6ZoAhPUoaJJSQm",
+  "Asset": { "currency": "XRP" },
+  "Asset2": { "currency": "TST", "issuer": "rP9jPyP5kyvFRb6ZiRghAGw5u8SGAmU4bd" },
+  "Amount": { "currency": "TST", "issuer": "rP9jPyP5kyvFRb6ZiRghAGw5u8SGAmU4bd", "value": "2.5" },
+  "Amount2": "30000000",
+  "Flags": 1048576,
+  "TransactionType": "AMMDeposit"
+}
+\`\`\``,
+  buildTransaction: ammDeposit => {
+    const { Asset, Asset2, Amount, Amount2, EPrice, LPTokenOut, ...rest } = ammDeposit
+
+    return {
+      ...rest,
+      Asset: processCurrency(Asset),
+      Asset2: processCurrency(Asset2),
+      Amount: Amount && processAmount(Amount),
+      Amount2: Amount2 && processAmount(Amount2),
+      EPrice: EPrice && processAmount(EPrice),
+      LPTokenOut: LPTokenOut && processAmount(LPTokenOut),
+    }
+  },
+  validateTransaction: params => {
+    validateAmmMode({
+      transactionType: 'AMMDeposit',
+      txn: params,
+      getFlagValue: getAmmDepositFlagValue,
+      modes: AmmDepositModes,
+    })
+  },
+})
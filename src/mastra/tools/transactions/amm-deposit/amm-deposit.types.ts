@@ -0,0 +1,96 @@
+import { z } from 'zod'
+import { AmmModeRules, xrplCurrencyAmountSchema, xrplIssueSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * AMMDeposit flags that select the deposit mode, exactly one of them must be set
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/ammdeposit#ammdeposit-flags
+ */
+export const AmmDepositFlagsSchema = z.enum([
+  'tfLPToken', // 65536 - Double-asset deposit for the LPTokenOut amount of LP tokens
+  'tfSingleAsset', // 524288 - Single-asset deposit of the Amount asset
+  'tfTwoAsset', // 1048576 - Double-asset deposit of up to Amount and Amount2
+  'tfOneAssetLPToken', // 2097152 - Single-asset deposit for the LPTokenOut amount of LP tokens, up to Amount
+  'tfLimitLPToken', // 4194304 - Single-asset deposit of up to Amount at an effective price up to EPrice
+  'tfTwoAssetIfEmpty', // 8388608 - Double-asset deposit into an empty AMM, optionally setting the TradingFee
+])
+
+export type AmmDepositFlags = z.infer<typeof AmmDepositFlagsSchema>
+
+/**
+ * AMMDeposit-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/ammdeposit#ammdeposit-fields
+ */
+export const xrplAmmDepositFieldsSchema = z.object({
+  // Required fields
+  Asset: xrplIssueSchema.describe('The definition for one of the assets in the AMM pool'),
+  Asset2: xrplIssueSchema.describe('The definition for the other asset in the AMM pool'),
+
+  // Mode-dependent fields
+  Amount: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe(
+      'The amount of one asset to deposit to the AMM. Can be XRP (string in drops) or a token (currency object)',
+    ),
+  Amount2: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe(
+      'The amount of the other asset to deposit to the AMM. Can be XRP (string in drops) or a token (currency object)',
+    ),
+  EPrice: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe('The maximum effective price, in the deposit asset, to pay for each LP token received'),
+  LPTokenOut: xrplCurrencyAmountSchema
+    .optional()
+    .describe('How many of the AMM LP tokens to buy. The currency and issuer are those of the LP token of the AMM'),
+  TradingFee: z
+    .number()
+    .int()
+    .min(0)
+    .max(1000)
+    .optional()
+    .describe('The trading fee to set when depositing into an empty AMM (tfTwoAssetIfEmpty only), 0-1000'),
+})
+
+/**
+ * Complete AMMDeposit transaction schema
+ */
+export const xrplAmmDepositSchema = xrplCommonFieldsSchema
+  .merge(xrplAmmDepositFieldsSchema)
+  .extend({ TransactionType: z.literal('AMMDeposit') })
+
+export type XrplAmmDepositFields = z.infer<typeof xrplAmmDepositFieldsSchema>
+export type XrplAmmDeposit = z.infer<typeof xrplAmmDepositSchema>
+
+/**
+ * Fields required and allowed by each AMMDeposit mode
+ */
+export const AmmDepositModes: AmmModeRules<
+  AmmDepositFlags,
+  'Amount' | 'Amount2' | 'EPrice' | 'LPTokenOut' | 'TradingFee'
+> = {
+  tfLPToken: { required: ['LPTokenOut'], optional: ['Amount', 'Amount2'] },
+  tfSingleAsset: { required: ['Amount'] },
+  tfTwoAsset: { required: ['Amount', 'Amount2'] },
+  tfOneAssetLPToken: { required: ['Amount', 'LPTokenOut'] },
+  tfLimitLPToken: { required: ['Amount', 'EPrice'] },
+  tfTwoAssetIfEmpty: { required: ['Amount', 'Amount2'], optional: ['TradingFee'] },
+}
+
+/**
+ * Helper function to convert AMMDeposit flag names to numeric values
+ */
+export const getAmmDepositFlagValue = (flagName: AmmDepositFlags): number => {
+  const flagValues: Record<AmmDepositFlags, number> = {
+    tfLPToken: 65536,
+    tfSingleAsset: 524288,
+    tfTwoAsset: 1048576,
+    tfOneAssetLPToken: 2097152,
+    tfLimitLPToken: 4194304,
+    tfTwoAssetIfEmpty: 8388608,
+  }
+  return flagValues[flagName]
+}
@@ -0,0 +1,49 @@
+import { useTransactionToolFactory } from '../factory'
+import { processCurrency } from '../shared'
+import { xrplAmmVoteSchema } from './amm-vote.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplAmmVoteSchema,
+})
+
+export const submitAmmVoteTool = createTransactionTool({
+  toolId: 'submit-amm-vote',
+  description: `Submit an AMMVote transaction to vote on the trading fee of an Automated Market Maker (AMM) pool.
+
+## What is AMMVote?
+Liquidity providers vote on the trading fee of the AMM. The fee is the average of the votes weighted by the LP tokens held by each voter, and is recalculated with every vote.
+
+## Required Fields:
+- **Asset**: One asset of the pool ({ "currency": "XRP" } or { "currency", "issuer" })
+- **Asset2**: The other asset of the pool
+- **TradingFee**: Proposed fee, 0-1000 in units of 1/100,000 (1000 = 1%)
+
+## Important Notes:
+- Only accounts holding LP tokens of the AMM can vote
+- Up to 8 votes are counted, a new vote replaces the vote of the account with the fewest LP tokens
+- Voting again replaces the previous vote of the sender
+
+## Common Error Cases:
+tecAMM_INVALID_TOKENS, tecAMM_FAILED, temBAD_FEE, terNO_AMM
+The result includes an explanation and a suggested fix of its code, use explain-result-code to look up any code.
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rJVUeRqDFNs2xqA7ncVE6ZoAhPUoaJJSQm",
+  "Asset": { "currency": "XRP" },
+  "Asset2": { "currency": "TST", "issuer": "rP9jPyP5kyvFRb6ZiRghAGw5u8SGAmU4bd" },
+  "TradingFee": 600,
+  "TransactionType": "AMMVote"
+}
+\`\`\``,
+  buildTransaction: ammVote => {
+    const { Asset, Asset2, ...rest } = ammVote
+
+    return {
+      ...rest,
+      Asset: processCurrency(Asset),
+      Asset2: processCurrency(Asset2),
+    }
+  },
+})
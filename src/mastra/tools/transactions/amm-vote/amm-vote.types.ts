@@ -0,0 +1,31 @@
+import { z } from 'zod'
+import { xrplIssueSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * AMMVote-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/ammvote#ammvote-fields
+ */
+export const xrplAmmVoteFieldsSchema = z.object({
+  // Required fields
+  Asset: xrplIssueSchema.describe('The definition for one of the assets in the AMM pool'),
+  Asset2: xrplIssueSchema.describe('The definition for the other asset in the AMM pool'),
+  TradingFee: z
+    .number()
+    .int()
+    .min(0)
+    .max(1000)
+    .describe(
+      'The proposed fee to vote for, in units of 1/100,000. A value of 1 is equivalent to 0.001%. Maximum value is 1000 (1% fee)',
+    ),
+})
+
+/**
+ * Complete AMMVote transaction schema
+ */
+export const xrplAmmVoteSchema = xrplCommonFieldsSchema
+  .merge(xrplAmmVoteFieldsSchema)
+  .extend({ TransactionType: z.literal('AMMVote') })
+
+export type XrplAmmVoteFields = z.infer<typeof xrplAmmVoteFieldsSchema>
+export type XrplAmmVote = z.infer<typeof xrplAmmVoteSchema>
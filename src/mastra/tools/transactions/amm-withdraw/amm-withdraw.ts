@@ -0,0 +1,72 @@
+import { useTransactionToolFactory } from '../factory'
+import { processAmount, processCurrency, validateAmmMode } from '../shared'
+import { AmmWithdrawModes, getAmmWithdrawFlagValue, xrplAmmWithdrawSchema } from './amm-withdraw.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplAmmWithdrawSchema,
+})
+
+export const submitAmmWithdrawTool = createTransactionTool({
+  toolId: 'submit-amm-withdraw',
+  description: `Submit an AMMWithdraw transaction to remove liquidity from an Automated Market Maker (AMM) pool by returning LP tokens.
+
+## Required Fields:
+- **Asset**: One asset of the pool ({ "currency": "XRP" } or { "currency", "issuer" })
+- **Asset2**: The other asset of the pool
+- **Flags**: Exactly one withdrawal mode flag (see below)
+
+## Withdrawal Modes (Flags):
+| Flag Name | Decimal Value | Fields | Description |
+|-----------|---------------|--------|-------------|
+| tfLPToken | 65536 | LPTokenIn | Double-asset withdrawal returning exactly LPTokenIn |
+| tfWithdrawAll | 131072 | (none) | Double-asset withdrawal returning all LP tokens held |
+| tfOneAssetWithdrawAll | 262144 | Amount | Single-asset withdrawal of the Amount asset returning all LP tokens held |
+| tfSingleAsset | 524288 | Amount | Single-asset withdrawal of exactly Amount |
+| tfTwoAsset | 1048576 | Amount, Amount2 | Double-asset withdrawal of up to Amount and Amount2 |
+| tfOneAssetLPToken | 2097152 | Amount, LPTokenIn | Single-asset withdrawal of up to Amount returning LPTokenIn |
+| tfLimitLPToken | 4194304 | Amount, EPrice | Single-asset withdrawal of up to Amount at an effective price of at least EPrice |
+
+## Important Notes:
+- Use the getAmmInfoTool first to read the pool balances and the LP token currency
+- Single-asset withdrawals pay the trading fee on the part that unbalances the pool
+- Fields not used by the selected mode must be omitted
+- If the withdrawal empties the AMM, it is deleted automatically unless it holds too many trust lines (use AMMDelete then)
+- Custom currency codes are converted to hex by the tool, LP token currency codes are already hex
+
+## Common Error Cases:
+tecAMM_BALANCE, tecAMM_FAILED, tecAMM_INVALID_TOKENS, tecFROZEN, temBAD_AMM_TOKENS, temMALFORMED, terNO_AMM
+The result includes an explanation and a suggested fix of its code, use explain-result-code to look up any code.
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rJVUeRqDFNs2xqA7ncVE6ZoAhPUoaJJSQm",
+  "Asset": { "currency": "XRP" },
+  "Asset2": { "currency": "TST", "issuer": "rP9jPyP5kyvFRb6ZiRghAGw5u8SGAmU4bd" },
+  "Amount": "5000000",
+  "Flags": 524288,
+  "TransactionType": "AMMWithdraw"
+}
+\`\`\``,
+  buildTransaction: ammWithdraw => {
+    const { Asset, Asset2, Amount, Amount2, EPrice, LPTokenIn, ...rest } = ammWithdraw
+
+    return {
+      ...rest,
+      Asset: processCurrency(Asset),
+      Asset2: processCurrency(Asset2),
+      Amount: Amount && processAmount(Amount),
+      Amount2: Amount2 && processAmount(Amount2),
+      EPrice: EPrice && processAmount(EPrice),
+      LPTokenIn: LPTokenIn && processAmount(LPTokenIn),
+    }
+  },
+  validateTransaction: params => {
+    validateAmmMode({
+      transactionType: 'AMMWithdraw',
+      txn: params,
+      getFlagValue: getAmmWithdrawFlagValue,
+      modes: AmmWithdrawModes,
+    })
+  },
+})
@@ -0,0 +1,89 @@
+import { z } from 'zod'
+import { AmmModeRules, xrplCurrencyAmountSchema, xrplIssueSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * AMMWithdraw flags that select the withdrawal mode, exactly one of them must be set
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/ammwithdraw#ammwithdraw-flags
+ */
+export const AmmWithdrawFlagsSchema = z.enum([
+  'tfLPToken', // 65536 - Double-asset withdrawal returning the LPTokenIn amount of LP tokens
+  'tfWithdrawAll', // 131072 - Double-asset withdrawal returning all of the LP tokens held
+  'tfOneAssetWithdrawAll', // 262144 - Single-asset withdrawal of the Amount asset returning all of the LP tokens held
+  'tfSingleAsset', // 524288 - Single-asset withdrawal of exactly Amount
+  'tfTwoAsset', // 1048576 - Double-asset withdrawal of up to Amount and Amount2
+  'tfOneAssetLPToken', // 2097152 - Single-asset withdrawal of up to Amount returning LPTokenIn LP tokens
+  'tfLimitLPToken', // 4194304 - Single-asset withdrawal of up to Amount at an effective price of at least EPrice
+])
+
+export type AmmWithdrawFlags = z.infer<typeof AmmWithdrawFlagsSchema>
+
+/**
+ * AMMWithdraw-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/ammwithdraw#ammwithdraw-fields
+ */
+export const xrplAmmWithdrawFieldsSchema = z.object({
+  // Required fields
+  Asset: xrplIssueSchema.describe('The definition for one of the assets in the AMM pool'),
+  Asset2: xrplIssueSchema.describe('The definition for the other asset in the AMM pool'),
+
+  // Mode-dependent fields
+  Amount: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe(
+      'The amount of one asset to withdraw from the AMM. Can be XRP (string in drops) or a token (currency object)',
+    ),
+  Amount2: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe(
+      'The amount of the other asset to withdraw from the AMM. Can be XRP (string in drops) or a token (currency object)',
+    ),
+  EPrice: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe('The minimum effective price, in LP tokens returned, to pay per unit of the asset to withdraw'),
+  LPTokenIn: xrplCurrencyAmountSchema
+    .optional()
+    .describe('How many of the AMM LP tokens to redeem. The currency and issuer are those of the LP token of the AMM'),
+})
+
+/**
+ * Complete AMMWithdraw transaction schema
+ */
+export const xrplAmmWithdrawSchema = xrplCommonFieldsSchema
+  .merge(xrplAmmWithdrawFieldsSchema)
+  .extend({ TransactionType: z.literal('AMMWithdraw') })
+
+export type XrplAmmWithdrawFields = z.infer<typeof xrplAmmWithdrawFieldsSchema>
+export type XrplAmmWithdraw = z.infer<typeof xrplAmmWithdrawSchema>
+
+/**
+ * Fields required and allowed by each AMMWithdraw mode
+ */
+export const AmmWithdrawModes: AmmModeRules<AmmWithdrawFlags, 'Amount' | 'Amount2' | 'EPrice' | 'LPTokenIn'> = {
+  tfLPToken: { required: ['LPTokenIn'] },
+  tfWithdrawAll: { required: [] },
+  tfOneAssetWithdrawAll: { required: ['Amount'] },
+  tfSingleAsset: { required: ['Amount'] },
+  tfTwoAsset: { required: ['Amount', 'Amount2'] },
+  tfOneAssetLPToken: { required: ['Amount', 'LPTokenIn'] },
+  tfLimitLPToken: { required: ['Amount', 'EPrice'] },
+}
+
+/**
+ * Helper function to convert AMMWithdraw flag names to numeric values
+ */
+export const getAmmWithdrawFlagValue = (flagName: AmmWithdrawFlags): number => {
+  const flagValues: Record<AmmWithdrawFlags, number> = {
+    tfLPToken: 65536,
+    tfWithdrawAll: 131072,
+    tfOneAssetWithdrawAll: 262144,
+    tfSingleAsset: 524288,
+    tfTwoAsset: 1048576,
+    tfOneAssetLPToken: 2097152,
+    tfLimitLPToken: 4194304,
+  }
+  return flagValues[flagName]
+}
@@ -0,0 +1,36 @@
+import { useTransactionToolFactory } from '../factory'
+import { xrplCheckCancelSchema } from './check-cancel.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplCheckCancelSchema,
+})
+
+export const submitCheckCancelTool = createTransactionTool({
+  toolId: 'submit-check-cancel',
+  description: `Submit a CheckCancel transaction to cancel an unredeemed Check and remove it from the ledger without sending any money.
+
+## What is CheckCancel?
+Removes a Check ledger entry without sending any money. The source or the destination of the Check can cancel it at any time, and any address can cancel it once it has expired.
+
+## Required Fields:
+- **CheckID**: ID of the Check ledger entry to cancel (use getAccountChecksTool to find it)
+
+## Important Notes:
+- Canceling a Check frees the owner reserve of the Check sender
+
+## Common Error Cases:
+- **tecNO_ENTRY**: The Check does not exist
+- **tecNO_PERMISSION**: The Check has not expired and the sender is neither its source nor its destination
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rUn84CUYbNjRoTQ6mSW7BVJPSVJNLb1QLo",
+  "CheckID": "49647F0D748DC3FE26BDACBC57F251AADEFFF391403EC9BF87C97F67E9977FB0",
+  "TransactionType": "CheckCancel"
+}
+\`\`\``,
+  buildTransaction: checkCancel => {
+    return checkCancel
+  },
+})
@@ -0,0 +1,21 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * CheckCancel-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/checkcancel#checkcancel-fields
+ */
+export const xrplCheckCancelFieldsSchema = z.object({
+  // Required field
+  CheckID: z.string().describe('The ID of the Check ledger entry to cancel, as a 64-character hexadecimal string'),
+})
+
+/**
+ * Complete CheckCancel transaction schema
+ */
+export const xrplCheckCancelSchema = xrplCommonFieldsSchema
+  .merge(xrplCheckCancelFieldsSchema)
+  .extend({ TransactionType: z.literal('CheckCancel') })
+
+export type XrplCheckCancelFields = z.infer<typeof xrplCheckCancelFieldsSchema>
+export type XrplCheckCancel = z.infer<typeof xrplCheckCancelSchema>
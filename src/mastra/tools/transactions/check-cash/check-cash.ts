@@ -0,0 +1,67 @@
+import { CheckCash } from 'xrpl'
+import { isUndefined } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { processAmount } from '../shared'
+import { xrplCheckCashSchema } from './check-cash.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplCheckCashSchema,
+})
+
+export const submitCheckCashTool = createTransactionTool({
+  toolId: 'submit-check-cash',
+  description: `Submit a CheckCash transaction to redeem a Check for up to the amount its sender authorized.
+
+## What is CheckCash?
+Attempts to redeem a Check ledger entry and receive up to the amount authorized by the SendMax of the Check. Only the destination of the Check can cash it.
+
+## Required Fields:
+- **CheckID**: ID of the Check ledger entry to cash (use getAccountChecksTool to find it)
+- Exactly one of:
+  - **Amount**: Redeem the Check for exactly this amount, or fail
+  - **DeliverMin**: Redeem the Check for as much as possible, but at least this amount
+
+## Important Notes:
+- Amount and DeliverMin are mutually exclusive, provide exactly one of them
+- The currency and issuer must match the SendMax of the Check
+- Custom currency codes are converted to hex by the tool
+- The Check is removed from the ledger once it is cashed
+
+## Common Error Cases:
+- **tecNO_ENTRY**: The Check does not exist
+- **tecEXPIRED**: The Check has expired
+- **tecNO_PERMISSION**: The sender of this transaction is not the destination of the Check
+- **tecPATH_PARTIAL**: The Check cannot deliver the requested Amount or DeliverMin
+- **tecUNFUNDED_PAYMENT**: The sender of the Check does not have enough funds
+- **temMALFORMED**: Both or neither of Amount and DeliverMin are provided
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rfkE1aSy9G8Upk4JssnwBxhEv5p4mn2KTy",
+  "Amount": "100000000",
+  "CheckID": "838766BA2B995C00744175F69A1B11E32C3DBC40E64801A4056FCBD657F57334",
+  "TransactionType": "CheckCash"
+}
+\`\`\``,
+  buildTransaction: checkCash => {
+    const { Amount, DeliverMin, ...rest } = checkCash
+
+    const builtCheckCash: CheckCash = {
+      ...rest,
+      Amount: Amount && processAmount(Amount),
+      DeliverMin: DeliverMin && processAmount(DeliverMin),
+    }
+
+    return builtCheckCash
+  },
+  validateTransaction: params => {
+    if (isUndefined(params.Amount) && isUndefined(params.DeliverMin)) {
+      throw new Error('Either Amount or DeliverMin must be provided for CheckCash')
+    }
+
+    if (!isUndefined(params.Amount) && !isUndefined(params.DeliverMin)) {
+      throw new Error('Amount and DeliverMin are mutually exclusive, provide only one of them')
+    }
+  },
+})
@@ -0,0 +1,36 @@
+import { z } from 'zod'
+import { xrplCurrencyAmountSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * CheckCash-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/checkcash#checkcash-fields
+ */
+export const xrplCheckCashFieldsSchema = z.object({
+  // Required field
+  CheckID: z.string().describe('The ID of the Check ledger entry to cash, as a 64-character hexadecimal string'),
+
+  // Exactly one of the following fields must be provided
+  Amount: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe(
+      'Redeem the Check for exactly this amount, if possible. The currency must match the SendMax of the Check. Cannot be used with DeliverMin',
+    ),
+  DeliverMin: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe(
+      'Redeem the Check for at least this amount and for as much as possible. The currency must match the SendMax of the Check. Cannot be used with Amount',
+    ),
+})
+
+/**
+ * Complete CheckCash transaction schema
+ */
+export const xrplCheckCashSchema = xrplCommonFieldsSchema
+  .merge(xrplCheckCashFieldsSchema)
+  .extend({ TransactionType: z.literal('CheckCash') })
+
+export type XrplCheckCashFields = z.infer<typeof xrplCheckCashFieldsSchema>
+export type XrplCheckCash = z.infer<typeof xrplCheckCashSchema>
@@ -0,0 +1,70 @@
+import { CheckCreate } from 'xrpl'
+import { isUndefined, toRippleTime } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { processAmount } from '../shared'
+import { xrplCheckCreateSchema } from './check-create.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplCheckCreateSchema,
+})
+
+export const submitCheckCreateTool = createTransactionTool({
+  toolId: 'submit-check-create',
+  description: `Submit a CheckCreate transaction to create a Check, a deferred payment that the destination can cash later.
+
+## What is CheckCreate?
+Creates a Check ledger entry that the Destination can cash with CheckCash for up to SendMax. No funds move until the Check is cashed, and the sender can cancel it at any time before then with CheckCancel.
+
+## Required Fields:
+- **Destination**: Account that can cash the Check
+- **SendMax**: Maximum amount the Check can debit from the sender (XRP string in drops or token object)
+
+## Optional Fields:
+- **DestinationTag**: Arbitrary tag to identify the reason or the hosted recipient
+- **Expiration**: Time after which the Check can no longer be cashed (Ripple Epoch seconds or ISO 8601 date, converted by the tool)
+- **InvoiceID**: Arbitrary 256-bit hex value identifying the Check
+
+## Important Notes:
+- Creating a Check does not move or reserve the funds, the sender needs them when the Check is cashed
+- The Check counts toward the sender's owner reserve until it is cashed or canceled
+- Custom currency codes are converted to hex by the tool
+- The ID of the created Check is in the CreatedNode of the transaction metadata, or use getAccountChecksTool
+
+## Common Error Cases:
+- **tecNO_DST**: Destination account does not exist
+- **tecDST_TAG_NEEDED**: Destination requires a destination tag
+- **tecNO_PERMISSION**: Destination disallows incoming Checks
+- **tecEXPIRED**: Expiration is in the past
+- **tecFROZEN**: The token is frozen
+- **tecNO_LINE_INSUF_RESERVE / tecINSUFFICIENT_RESERVE**: Sender below reserve requirement
+- **temREDUNDANT**: Sender and Destination are the same account
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rUn84CUYbNjRoTQ6mSW7BVJPSVJNLb1QLo",
+  "Destination": "rfkE1aSy9G8Upk4JssnwBxhEv5p4mn2KTy",
+  "SendMax": "100000000",
+  "Expiration": "2026-12-31T00:00:00Z",
+  "InvoiceID": "6F1DFD1D0FE8A32E40E1F2C05CF1C15545BAB56B617F9C6C2D63A6B704BEF59B",
+  "DestinationTag": 1,
+  "TransactionType": "CheckCreate"
+}
+\`\`\``,
+  buildTransaction: checkCreate => {
+    const { SendMax, Expiration, ...rest } = checkCreate
+
+    const builtCheckCreate: CheckCreate = {
+      ...rest,
+      SendMax: processAmount(SendMax),
+      Expiration: isUndefined(Expiration) ? undefined : toRippleTime(Expiration),
+    }
+
+    return builtCheckCreate
+  },
+  validateTransaction: params => {
+    if (params.Destination === params.Account) {
+      throw new Error('Cannot create a Check to yourself (Destination cannot be the same as Account)')
+    }
+  },
+})
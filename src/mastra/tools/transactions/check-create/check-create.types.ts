@@ -0,0 +1,42 @@
+import { z } from 'zod'
+import { xrplCurrencyAmountSchema, xrplRippleTimeSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * CheckCreate-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/checkcreate#checkcreate-fields
+ */
+export const xrplCheckCreateFieldsSchema = z.object({
+  // Required fields
+  Destination: z.string().describe('The account that can cash the Check (r-address)'),
+  SendMax: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .describe(
+      'Maximum amount of source currency the Check is allowed to debit the sender, including transfer fees on non-XRP currencies. Can be XRP (string in drops) or a token (currency object)',
+    ),
+
+  // Optional fields
+  DestinationTag: z
+    .number()
+    .int()
+    .gte(0)
+    .optional()
+    .describe('Arbitrary tag that identifies the reason for the Check, or a hosted recipient to pay'),
+  Expiration: xrplRippleTimeSchema
+    .optional()
+    .describe('Time after which the Check is no longer valid. Seconds since the Ripple Epoch or an ISO 8601 date'),
+  InvoiceID: z
+    .string()
+    .optional()
+    .describe('Arbitrary 256-bit hash representing a specific reason or identifier for this Check'),
+})
+
+/**
+ * Complete CheckCreate transaction schema
+ */
+export const xrplCheckCreateSchema = xrplCommonFieldsSchema
+  .merge(xrplCheckCreateFieldsSchema)
+  .extend({ TransactionType: z.literal('CheckCreate') })
+
+export type XrplCheckCreateFields = z.infer<typeof xrplCheckCreateFieldsSchema>
+export type XrplCheckCreate = z.infer<typeof xrplCheckCreateSchema>
@@ -0,0 +1,47 @@
+import { CredentialAccept } from 'xrpl'
+import { credentialTypeToHex } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { xrplCredentialAcceptSchema } from './credential-accept.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplCredentialAcceptSchema,
+})
+
+export const submitCredentialAcceptTool = createTransactionTool({
+  toolId: 'submit-credential-accept',
+  description: `Submit a CredentialAccept transaction to accept a credential issued to your account, which makes it valid.
+
+## Required Fields:
+- **Issuer**: Address of the issuer of the credential
+- **CredentialType**: Type of the credential as plain text, e.g. "KYC", hex-encoded automatically
+
+## Important Business Rules:
+- The Account submitting the transaction must be the subject of the credential
+- Once accepted, the credential counts toward the owner reserve of the subject instead of the issuer
+- An expired credential can't be accepted, it is deleted instead
+- Use get-account-credentials to list the credentials issued to the account and their status
+
+## Common Error Cases:
+- **tecNO_ENTRY**: No such credential was issued to the account
+- **tecDUPLICATE**: The credential is already accepted
+- **tecEXPIRED**: The credential is expired
+- **tecINSUFFICIENT_RESERVE**: Not enough XRP for the owner reserve
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rsUiUMpnrgxQp24dJYZDhmV4bE3aBtQyt8",
+  "Issuer": "ra5nK24KXen9AHvsdFTKHSANinZseWnPcX",
+  "CredentialType": "KYC",
+  "TransactionType": "CredentialAccept"
+}
+\`\`\``,
+  buildTransaction: credentialAccept => {
+    const builtCredentialAccept: CredentialAccept = {
+      ...credentialAccept,
+      CredentialType: credentialTypeToHex(credentialAccept.CredentialType),
+    }
+
+    return builtCredentialAccept
+  },
+})
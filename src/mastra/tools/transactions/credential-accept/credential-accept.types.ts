@@ -0,0 +1,23 @@
+import { z } from 'zod'
+import { xrplCredentialTypeSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * CredentialAccept-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/credentialaccept#credentialaccept-fields
+ */
+export const xrplCredentialAcceptFieldsSchema = z.object({
+  // Required fields
+  Issuer: z.string().describe('Address of the issuer of the credential to accept'),
+  CredentialType: xrplCredentialTypeSchema,
+})
+
+/**
+ * Complete CredentialAccept transaction schema
+ */
+export const xrplCredentialAcceptSchema = xrplCommonFieldsSchema
+  .merge(xrplCredentialAcceptFieldsSchema)
+  .extend({ TransactionType: z.literal('CredentialAccept') })
+
+export type XrplCredentialAcceptFields = z.infer<typeof xrplCredentialAcceptFieldsSchema>
+export type XrplCredentialAccept = z.infer<typeof xrplCredentialAcceptSchema>
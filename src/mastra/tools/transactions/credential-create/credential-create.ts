@@ -0,0 +1,72 @@
+import { convertStringToHex, CredentialCreate, unixTimeToRippleTime } from 'xrpl'
+import { credentialTypeToHex, isUndefined, toRippleTime } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { xrplCredentialCreateSchema } from './credential-create.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplCredentialCreateSchema,
+})
+
+export const submitCredentialCreateTool = createTransactionTool({
+  toolId: 'submit-credential-create',
+  description: `Submit a CredentialCreate transaction to issue a credential to an account, e.g. after a KYC check.
+
+## What is a Credential?
+A credential is an on-ledger attestation by an issuer that an account (the subject) has a property, identified by a credential type such as "KYC". The subject must accept it with CredentialAccept before it is valid. Valid credentials can then be used to get deposit authorization (DepositPreauth) or to join permissioned domains.
+
+## Required Fields:
+- **Subject**: Address of the account the credential is about
+- **CredentialType**: Type of the credential as plain text, e.g. "KYC" (1 to 64 bytes), hex-encoded automatically
+
+## Optional Fields:
+- **Expiration**: Time after which the credential is no longer valid. Seconds since the Ripple Epoch or an ISO 8601 date
+- **URI**: Up to 256 bytes of plain text, typically a link to the details of the credential, hex-encoded automatically
+
+## Important Business Rules:
+- The Account submitting the transaction is the issuer of the credential
+- Until it is accepted, the credential counts toward the owner reserve of the issuer, then toward the reserve of the subject
+- An issuer can issue a credential to itself, it is accepted automatically
+- The same issuer, subject and type can only have one credential at a time
+- Don't put personal data in the credential or its URI, the ledger is public
+- Requires the Credentials amendment
+
+## Common Error Cases:
+- **tecDUPLICATE**: The credential already exists
+- **tecEXPIRED**: The Expiration is in the past
+- **tecNO_TARGET**: The subject doesn't exist
+- **tecINSUFFICIENT_RESERVE**: Not enough XRP for the owner reserve
+- **temDISABLED**: The Credentials amendment is not enabled
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "ra5nK24KXen9AHvsdFTKHSANinZseWnPcX",
+  "Subject": "rsUiUMpnrgxQp24dJYZDhmV4bE3aBtQyt8",
+  "CredentialType": "KYC",
+  "Expiration": "2027-01-01T00:00:00Z",
+  "URI": "https://example.com/credentials/kyc",
+  "TransactionType": "CredentialCreate"
+}
+\`\`\``,
+  buildTransaction: credentialCreate => {
+    const { CredentialType, Expiration, URI, ...rest } = credentialCreate
+
+    const builtCredentialCreate: CredentialCreate = {
+      ...rest,
+      CredentialType: credentialTypeToHex(CredentialType),
+      Expiration: isUndefined(Expiration) ? undefined : toRippleTime(Expiration),
+      URI: URI && convertStringToHex(URI),
+    }
+
+    return builtCredentialCreate
+  },
+  validateTransaction: params => {
+    if (params.URI !== undefined && params.URI.length > 512) {
+      throw new Error('URI must be at most 256 bytes')
+    }
+
+    if (params.Expiration !== undefined && params.Expiration <= unixTimeToRippleTime(Date.now())) {
+      throw new Error('Expiration must be in the future')
+    }
+  },
+})
@@ -0,0 +1,34 @@
+import { z } from 'zod'
+import { xrplCredentialTypeSchema, xrplRippleTimeSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * CredentialCreate-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/credentialcreate#credentialcreate-fields
+ */
+export const xrplCredentialCreateFieldsSchema = z.object({
+  // Required fields
+  Subject: z.string().describe('Address of the account the credential is about'),
+  CredentialType: xrplCredentialTypeSchema,
+
+  // Optional fields
+  Expiration: xrplRippleTimeSchema
+    .optional()
+    .describe('Time after which the credential is no longer valid. Seconds since the Ripple Epoch or an ISO 8601 date'),
+  URI: z
+    .string()
+    .optional()
+    .describe(
+      'Up to 256 bytes of plain text, typically a URI pointing to the details of the credential. It is hex-encoded automatically',
+    ),
+})
+
+/**
+ * Complete CredentialCreate transaction schema
+ */
+export const xrplCredentialCreateSchema = xrplCommonFieldsSchema
+  .merge(xrplCredentialCreateFieldsSchema)
+  .extend({ TransactionType: z.literal('CredentialCreate') })
+
+export type XrplCredentialCreateFields = z.infer<typeof xrplCredentialCreateFieldsSchema>
+export type XrplCredentialCreate = z.infer<typeof xrplCredentialCreateSchema>
@@ -0,0 +1,53 @@
+import { CredentialDelete } from 'xrpl'
+import { credentialTypeToHex } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { xrplCredentialDeleteSchema } from './credential-delete.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplCredentialDeleteSchema,
+})
+
+export const submitCredentialDeleteTool = createTransactionTool({
+  toolId: 'submit-credential-delete',
+  description: `Submit a CredentialDelete transaction to revoke a credential as its issuer, remove it as its subject, or clean up an expired credential.
+
+## Required Fields:
+- **CredentialType**: Type of the credential as plain text, e.g. "KYC", hex-encoded automatically
+
+## Optional Fields (at least one is required):
+- **Subject**: Address of the subject of the credential, defaults to the Account
+- **Issuer**: Address of the issuer of the credential, defaults to the Account
+
+## Important Business Rules:
+- The issuer and the subject can delete the credential at any time, e.g. the issuer revokes a KYC credential
+- Anyone can delete an expired credential
+- Deleting the credential frees the owner reserve of whoever held it
+
+## Common Error Cases:
+- **tecNO_ENTRY**: The credential doesn't exist
+- **tecNO_PERMISSION**: The Account is neither the issuer nor the subject, and the credential is not expired
+- **temMALFORMED**: Neither Subject nor Issuer is provided
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "ra5nK24KXen9AHvsdFTKHSANinZseWnPcX",
+  "Subject": "rsUiUMpnrgxQp24dJYZDhmV4bE3aBtQyt8",
+  "CredentialType": "KYC",
+  "TransactionType": "CredentialDelete"
+}
+\`\`\``,
+  buildTransaction: credentialDelete => {
+    const builtCredentialDelete: CredentialDelete = {
+      ...credentialDelete,
+      CredentialType: credentialTypeToHex(credentialDelete.CredentialType),
+    }
+
+    return builtCredentialDelete
+  },
+  validateTransaction: params => {
+    if (params.Subject === undefined && params.Issuer === undefined) {
+      throw new Error('Provide the Subject or the Issuer of the credential, the other one defaults to the Account')
+    }
+  },
+})
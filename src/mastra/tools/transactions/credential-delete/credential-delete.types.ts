@@ -0,0 +1,26 @@
+import { z } from 'zod'
+import { xrplCredentialTypeSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * CredentialDelete-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/credentialdelete#credentialdelete-fields
+ */
+export const xrplCredentialDeleteFieldsSchema = z.object({
+  // Required field
+  CredentialType: xrplCredentialTypeSchema,
+
+  // Optional fields, at least one is required
+  Subject: z.string().optional().describe('Address of the subject of the credential, defaults to the Account'),
+  Issuer: z.string().optional().describe('Address of the issuer of the credential, defaults to the Account'),
+})
+
+/**
+ * Complete CredentialDelete transaction schema
+ */
+export const xrplCredentialDeleteSchema = xrplCommonFieldsSchema
+  .merge(xrplCredentialDeleteFieldsSchema)
+  .extend({ TransactionType: z.literal('CredentialDelete') })
+
+export type XrplCredentialDeleteFields = z.infer<typeof xrplCredentialDeleteFieldsSchema>
+export type XrplCredentialDelete = z.infer<typeof xrplCredentialDeleteSchema>
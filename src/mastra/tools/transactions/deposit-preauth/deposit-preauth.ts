@@ -0,0 +1,75 @@
+import { DepositPreauth } from 'xrpl'
+import { useTransactionToolFactory } from '../factory'
+import { toAuthorizeCredentials } from '../shared'
+import { xrplDepositPreauthSchema } from './deposit-preauth.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplDepositPreauthSchema,
+})
+
+export const submitDepositPreauthTool = createTransactionTool({
+  toolId: 'submit-deposit-preauth',
+  description: `Submit a DepositPreauth transaction to preauthorize an account, or a set of credentials, to send funds to your account, or to revoke a preauthorization.
+
+## What is DepositPreauth?
+An account with Deposit Authorization enabled (AccountSet asfDepositAuth = 9) only receives funds from accounts it preauthorized. A preauthorization either names an account, or a set of credentials: any account holding all of them, and presenting them with CredentialIDs, may then send funds.
+
+## Fields (exactly one is required):
+- **Authorize**: Address of an account to preauthorize
+- **Unauthorize**: Address of a preauthorized account to revoke
+- **AuthorizeCredentials**: Set of 1 to 8 credentials to preauthorize, each with:
+  - Credential.Issuer: Address of the issuer of the credential
+  - Credential.CredentialType: Type of the credential as plain text, hex-encoded automatically
+- **UnauthorizeCredentials**: Set of 1 to 8 credentials to revoke, in the same format
+
+## Important Business Rules:
+- Preauthorizations can be set before Deposit Authorization is enabled, and are kept when it is disabled
+- An account can't preauthorize itself
+- Each preauthorization is a ledger object counting toward the owner reserve
+- Credential-based preauthorization requires the Credentials amendment
+- Use get-deposit-authorized to check whether an account may send funds to another
+
+## Common Error Cases:
+- **temCANNOT_PREAUTH_SELF**: The account tries to preauthorize itself
+- **tecDUPLICATE**: The account or credentials are already preauthorized
+- **tecNO_ENTRY**: The preauthorization to revoke doesn't exist
+- **tecNO_TARGET**: The account to preauthorize doesn't exist
+- **tecNO_ISSUER**: The issuer of a credential doesn't exist
+- **tecINSUFFICIENT_RESERVE**: Not enough XRP for the owner reserve
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rsUiUMpnrgxQp24dJYZDhmV4bE3aBtQyt8",
+  "AuthorizeCredentials": [
+    {
+      "Credential": {
+        "Issuer": "ra5nK24KXen9AHvsdFTKHSANinZseWnPcX",
+        "CredentialType": "KYC"
+      }
+    }
+  ],
+  "TransactionType": "DepositPreauth"
+}
+\`\`\``,
+  buildTransaction: ({ AuthorizeCredentials, UnauthorizeCredentials, ...depositPreauth }) => {
+    const builtDepositPreauth: DepositPreauth = {
+      ...depositPreauth,
+      AuthorizeCredentials: toAuthorizeCredentials(AuthorizeCredentials),
+      UnauthorizeCredentials: toAuthorizeCredentials(UnauthorizeCredentials),
+    }
+
+    return builtDepositPreauth
+  },
+  validateTransaction: params => {
+    const fields = [params.Authorize, params.Unauthorize, params.AuthorizeCredentials, params.UnauthorizeCredentials]
+
+    if (fields.filter(field => field !== undefined).length !== 1) {
+      throw new Error('Provide exactly one of Authorize, Unauthorize, AuthorizeCredentials or UnauthorizeCredentials')
+    }
+
+    if (params.Authorize === params.Account) {
+      throw new Error('An account cannot preauthorize itself')
+    }
+  },
+})
@@ -0,0 +1,32 @@
+import { z } from 'zod'
+import { xrplAuthorizeCredentialSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+// A set of credentials, held all together by the accounts to preauthorize
+const xrplCredentialSetSchema = z.array(xrplAuthorizeCredentialSchema).min(1).max(8)
+
+/**
+ * DepositPreauth-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/depositpreauth#depositpreauth-fields
+ */
+export const xrplDepositPreauthFieldsSchema = z.object({
+  // Exactly one of these fields
+  Authorize: z.string().optional().describe('Address of an account to preauthorize to send funds to this account'),
+  Unauthorize: z.string().optional().describe('Address of a preauthorized account to revoke'),
+  AuthorizeCredentials: xrplCredentialSetSchema
+    .optional()
+    .describe('Set of 1 to 8 credentials: accounts holding all of them are preauthorized to send funds'),
+  UnauthorizeCredentials: xrplCredentialSetSchema
+    .optional()
+    .describe('Set of 1 to 8 credentials whose preauthorization to revoke'),
+})
+
+/**
+ * Complete DepositPreauth transaction schema
+ */
+export const xrplDepositPreauthSchema = xrplCommonFieldsSchema
+  .merge(xrplDepositPreauthFieldsSchema)
+  .extend({ TransactionType: z.literal('DepositPreauth') })
+
+export type XrplDepositPreauthFields = z.infer<typeof xrplDepositPreauthFieldsSchema>
+export type XrplDepositPreauth = z.infer<typeof xrplDepositPreauthSchema>
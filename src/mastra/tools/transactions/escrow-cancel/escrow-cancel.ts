@@ -0,0 +1,39 @@
+import { useTransactionToolFactory } from '../factory'
+import { xrplEscrowCancelSchema } from './escrow-cancel.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplEscrowCancelSchema,
+})
+
+export const submitEscrowCancelTool = createTransactionTool({
+  toolId: 'submit-escrow-cancel',
+  description: `Submit an EscrowCancel transaction to return escrowed funds to the sender.
+
+## What is EscrowCancel?
+Returns the amount held in an expired Escrow ledger entry to the account that created it. Any account may send this transaction once the escrow's CancelAfter time has passed.
+
+## Required Fields:
+- **Owner**: Address of the account that created the escrow
+- **OfferSequence**: Sequence number of the EscrowCreate transaction (find it with account_objects type "escrow" or the transaction history)
+
+## Important Notes:
+- Escrows without CancelAfter never expire and can never be canceled
+- CancelAfter is compared to the close time of the previous validated ledger
+
+## Common Error Cases:
+- **tecNO_TARGET**: Escrow not found for Owner and OfferSequence
+- **tecNO_PERMISSION**: CancelAfter has not passed yet
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "Owner": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "OfferSequence": 7,
+  "TransactionType": "EscrowCancel"
+}
+\`\`\``,
+  buildTransaction: escrowCancel => {
+    return escrowCancel
+  },
+})
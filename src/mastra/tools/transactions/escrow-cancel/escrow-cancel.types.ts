@@ -0,0 +1,26 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * EscrowCancel-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/escrowcancel#escrowcancel-fields
+ */
+export const xrplEscrowCancelFieldsSchema = z.object({
+  // Required fields
+  Owner: z.string().describe('Address of the source account that funded the escrow (r-address)'),
+  OfferSequence: z
+    .number()
+    .int()
+    .gte(0)
+    .describe('Sequence number (or Ticket number) of the EscrowCreate transaction that created the escrow'),
+})
+
+/**
+ * Complete EscrowCancel transaction schema
+ */
+export const xrplEscrowCancelSchema = xrplCommonFieldsSchema
+  .merge(xrplEscrowCancelFieldsSchema)
+  .extend({ TransactionType: z.literal('EscrowCancel') })
+
+export type XrplEscrowCancelFields = z.infer<typeof xrplEscrowCancelFieldsSchema>
+export type XrplEscrowCancel = z.infer<typeof xrplEscrowCancelSchema>
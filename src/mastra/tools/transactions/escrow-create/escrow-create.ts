@@ -0,0 +1,96 @@
+import { EscrowCreate } from 'xrpl'
+import { isString, isUndefined, toRippleTime } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { processAmount } from '../shared'
+import { xrplEscrowCreateSchema } from './escrow-create.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplEscrowCreateSchema,
+})
+
+export const submitEscrowCreateTool = createTransactionTool({
+  toolId: 'submit-escrow-create',
+  description: `Submit an EscrowCreate transaction to lock XRP, tokens or MPTs until a time has passed or a crypto-condition is fulfilled.
+
+## What is EscrowCreate?
+Sequesters an amount from the sender's balance into an Escrow ledger entry. The funds can later be delivered to the Destination with EscrowFinish, or returned to the sender with EscrowCancel once the escrow has expired.
+
+## Required Fields:
+- **Amount**: Amount to escrow (XRP string in drops, token object or MPT object)
+- **Destination**: Account that receives the funds when the escrow is finished
+
+## Optional Fields:
+- **FinishAfter**: Time after which the escrow can be finished (Ripple Epoch seconds or ISO 8601 date, converted by the tool)
+- **CancelAfter**: Time after which the escrow can only be canceled (Ripple Epoch seconds or ISO 8601 date, converted by the tool)
+- **Condition**: Hex PREIMAGE-SHA-256 crypto-condition, use the crypto-condition tool to generate one
+- **DestinationTag**: Arbitrary tag to identify the recipient
+
+## Escrow Types:
+- **Time-based**: Set FinishAfter (and optionally CancelAfter)
+- **Conditional**: Set Condition and CancelAfter (and optionally FinishAfter)
+- **Combination**: Set Condition and FinishAfter, the escrow finishes once both are satisfied
+
+## Important Business Rules:
+- At least one of FinishAfter or CancelAfter must be set
+- XRP escrows need FinishAfter or Condition
+- If both are set, FinishAfter must be before CancelAfter
+- Token and MPT escrows require CancelAfter and the TokenEscrow amendment
+- Token escrows require the issuer to enable asfAllowTrustLineLocking
+- Custom currency codes are converted to hex by the tool
+- Times are compared to the ledger close time, not the real-world time
+
+## Common Error Cases:
+- **tecNO_DST**: Destination account does not exist
+- **tecNO_PERMISSION**: Destination disallows incoming escrows or the token issuer does not allow locking
+- **tecUNFUNDED**: Insufficient balance to escrow the amount
+- **tecNO_TARGET**: Destination requires a destination tag (with RequireDest)
+- **temBAD_EXPIRATION**: FinishAfter is not before CancelAfter
+- **tecINSUFFICIENT_RESERVE**: Account below reserve requirement for the Escrow entry
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "Amount": "10000",
+  "Destination": "rsA2LpzuawewSBQXkiju3YQTMzW13pAAdW",
+  "CancelAfter": "2026-12-31T00:00:00Z",
+  "FinishAfter": "2026-06-30T00:00:00Z",
+  "TransactionType": "EscrowCreate"
+}
+\`\`\`
+
+**Note**: This locks 0.01 XRP that the destination can receive between June 30th and December 31st, 2026.`,
+  buildTransaction: escrowCreate => {
+    const { Amount, CancelAfter, FinishAfter, ...rest } = escrowCreate
+
+    const builtEscrowCreate: EscrowCreate = {
+      ...rest,
+      Amount: processAmount(Amount),
+      CancelAfter: isUndefined(CancelAfter) ? undefined : toRippleTime(CancelAfter),
+      FinishAfter: isUndefined(FinishAfter) ? undefined : toRippleTime(FinishAfter),
+    }
+
+    return builtEscrowCreate
+  },
+  validateTransaction: params => {
+    if (isUndefined(params.FinishAfter) && isUndefined(params.CancelAfter)) {
+      throw new Error('Either FinishAfter or CancelAfter must be provided for EscrowCreate')
+    }
+
+    if (isString(params.Amount) && isUndefined(params.FinishAfter) && isUndefined(params.Condition)) {
+      throw new Error('XRP escrows require either FinishAfter or Condition')
+    }
+
+    if (!isString(params.Amount) && isUndefined(params.CancelAfter)) {
+      throw new Error('Token and MPT escrows require CancelAfter')
+    }
+
+    if (
+      !isUndefined(params.FinishAfter) &&
+      !isUndefined(params.CancelAfter) &&
+      params.FinishAfter >= params.CancelAfter
+    ) {
+      throw new Error('FinishAfter must be before CancelAfter')
+    }
+  },
+})
@@ -0,0 +1,45 @@
+import { z } from 'zod'
+import { xrplAnyAmountSchema } from '../payment/payment.types'
+import { xrplRippleTimeSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * EscrowCreate-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/escrowcreate#escrowcreate-fields
+ */
+export const xrplEscrowCreateFieldsSchema = z.object({
+  // Required fields
+  Amount: xrplAnyAmountSchema.describe(
+    'Amount to deduct from the sender and set aside in escrow. XRP in drops (string), a token (currency object, requires the TokenEscrow amendment and the issuer to allow locking) or an MPT amount',
+  ),
+  Destination: z.string().describe('Address to receive the escrowed amount (r-address)'),
+
+  // Optional fields
+  CancelAfter: xrplRippleTimeSchema
+    .optional()
+    .describe(
+      'The escrow expires after this time and can only be canceled. Seconds since the Ripple Epoch or an ISO 8601 date. Required for token and MPT escrows',
+    ),
+  FinishAfter: xrplRippleTimeSchema
+    .optional()
+    .describe(
+      'The escrowed amount can be released to the recipient after this time. Seconds since the Ripple Epoch or an ISO 8601 date',
+    ),
+  Condition: z
+    .string()
+    .optional()
+    .describe(
+      'Hex value representing a PREIMAGE-SHA-256 crypto-condition. The funds can only be delivered to the recipient if this condition is fulfilled',
+    ),
+  DestinationTag: z.number().int().gte(0).optional().describe('Arbitrary tag to identify the escrow recipient'),
+})
+
+/**
+ * Complete EscrowCreate transaction schema
+ */
+export const xrplEscrowCreateSchema = xrplCommonFieldsSchema
+  .merge(xrplEscrowCreateFieldsSchema)
+  .extend({ TransactionType: z.literal('EscrowCreate') })
+
+export type XrplEscrowCreateFields = z.infer<typeof xrplEscrowCreateFieldsSchema>
+export type XrplEscrowCreate = z.infer<typeof xrplEscrowCreateSchema>
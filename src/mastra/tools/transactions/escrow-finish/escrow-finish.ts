@@ -0,0 +1,56 @@
+import { isUndefined } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { xrplEscrowFinishSchema } from './escrow-finish.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplEscrowFinishSchema,
+})
+
+export const submitEscrowFinishTool = createTransactionTool({
+  toolId: 'submit-escrow-finish',
+  description: `Submit an EscrowFinish transaction to deliver escrowed funds to their destination.
+
+## What is EscrowFinish?
+Delivers the amount held in an Escrow ledger entry to the escrow's Destination. Any account may send this transaction once the escrow's FinishAfter time has passed and its Condition (if any) is fulfilled.
+
+## Required Fields:
+- **Owner**: Address of the account that created the escrow
+- **OfferSequence**: Sequence number of the EscrowCreate transaction (find it with account_objects type "escrow" or the transaction history)
+
+## Optional Fields:
+- **Condition**: Hex crypto-condition of the escrow (required if the escrow has one)
+- **Fulfillment**: Hex fulfillment matching the Condition (required if the escrow has one)
+- **CredentialIDs**: Credential entries authorizing the deposit if the destination uses Deposit Auth
+
+## Important Notes:
+- Condition and Fulfillment must be provided together
+- Finishing a conditional escrow costs more: 330 drops plus 10 drops per 16 bytes of fulfillment, the autofill handles it
+- The escrow cannot be finished after CancelAfter has passed, use EscrowCancel instead
+- Use the crypto-condition tool to generate or verify condition/fulfillment pairs
+
+## Common Error Cases:
+- **tecNO_TARGET**: Escrow not found for Owner and OfferSequence
+- **tecNO_PERMISSION**: FinishAfter not reached, CancelAfter passed or deposit not authorized
+- **tecCRYPTOCONDITION_ERROR**: Fulfillment does not match the Condition
+- **temMALFORMED**: Only one of Condition and Fulfillment provided
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "Owner": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "OfferSequence": 7,
+  "Condition": "A0258020E3B0C44298FC1C149AFBF4C8996FB92427AE41E4649B934CA495991B7852B855810100",
+  "Fulfillment": "A0028000",
+  "TransactionType": "EscrowFinish"
+}
+\`\`\``,
+  buildTransaction: escrowFinish => {
+    return escrowFinish
+  },
+  validateTransaction: params => {
+    if (isUndefined(params.Condition) !== isUndefined(params.Fulfillment)) {
+      throw new Error('Condition and Fulfillment must be provided together')
+    }
+  },
+})
@@ -0,0 +1,40 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * EscrowFinish-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/escrowfinish#escrowfinish-fields
+ */
+export const xrplEscrowFinishFieldsSchema = z.object({
+  // Required fields
+  Owner: z.string().describe('Address of the source account that funded the escrow (r-address)'),
+  OfferSequence: z
+    .number()
+    .int()
+    .gte(0)
+    .describe('Sequence number (or Ticket number) of the EscrowCreate transaction that created the escrow'),
+
+  // Optional fields
+  Condition: z
+    .string()
+    .optional()
+    .describe('Hex value matching the previously-supplied PREIMAGE-SHA-256 crypto-condition of the escrow'),
+  Fulfillment: z
+    .string()
+    .optional()
+    .describe('Hex value of the PREIMAGE-SHA-256 crypto-condition fulfillment matching the escrow Condition'),
+  CredentialIDs: z
+    .array(z.string())
+    .optional()
+    .describe('Ledger entry IDs of Credential entries to authorize the deposit when the destination uses Deposit Auth'),
+})
+
+/**
+ * Complete EscrowFinish transaction schema
+ */
+export const xrplEscrowFinishSchema = xrplCommonFieldsSchema
+  .merge(xrplEscrowFinishFieldsSchema)
+  .extend({ TransactionType: z.literal('EscrowFinish') })
+
+export type XrplEscrowFinishFields = z.infer<typeof xrplEscrowFinishFieldsSchema>
+export type XrplEscrowFinish = z.infer<typeof xrplEscrowFinishSchema>
@@ -1,19 +1,34 @@
 import { createTool } from '@mastra/core/tools'
-import { SubmittableTransaction } from 'xrpl'
+import { decode, SubmittableTransaction, Transaction } from 'xrpl'
 import { z } from 'zod'
-import { submitTransaction } from '../shared/transaction'
+import { enforceTransactionPolicy, getApprovalReason, getWalletByAlias, withNetworkId } from '../../../../helpers'
+import { requestTransactionApproval } from '../../../workflows/transaction-approval-workflow'
+import { prepareTransaction, signTransaction, simulateTransaction, submitTransaction } from '../shared/transaction'
+import { transactionToolOutputSchema } from '../shared/transaction-result'
 import { baseTransactionSchema, FactorySchema, TransactionToolConfig } from './transaction-factory.types'
 
 /**
  * Creates a complete transaction schema by merging base fields with transaction-specific fields
- * and adding validation to ensure either seed or signature is provided
+ * and adding validation to ensure the credentials match the mode
  */
 const createCompleteTransactionSchema = <S extends FactorySchema>(params: S) => {
   return baseTransactionSchema
     .merge(z.object({ txn: params.inputSchema }))
-    .refine(data => data.seed !== undefined || data.signature !== undefined, {
-      message: 'Either seed or signature must be provided for transaction authentication',
-      path: ['seed', 'signature'],
+    .refine(data => data.mode !== 'submit' || data.keyAlias !== undefined || data.signature !== undefined, {
+      message: 'Either keyAlias or signature must be provided for transaction authentication',
+      path: ['keyAlias', 'signature'],
+    })
+    .refine(data => data.mode !== 'sign' || (data.keyAlias !== undefined && data.signature === undefined), {
+      message: 'A keyAlias, and no signature, must be provided to sign the transaction',
+      path: ['keyAlias'],
+    })
+    .refine(data => data.mode !== 'prepare' || (data.keyAlias === undefined && data.signature === undefined), {
+      message: 'Neither keyAlias nor signature should be provided to prepare the transaction',
+      path: ['keyAlias', 'signature'],
+    })
+    .refine(data => data.mode !== 'simulate' || data.signature === undefined, {
+      message: 'A signed transaction cannot be simulated, provide the transaction json without signature',
+      path: ['signature'],
     })
 }
 
@@ -48,26 +63,85 @@ export const useTransactionToolFactory = <S extends FactorySchema>(params: S) =>
       ...config,
       id: config.toolId,
       inputSchema: completeSchema,
+      outputSchema: transactionToolOutputSchema,
       execute: async ({ context, mastra }) => {
         if (!context) {
           throw new Error('Context not found - ensure the tool is called with proper context')
         }
 
-        const { txn, ...rest } = context
+        const { txn, mode, ...rest } = context
 
         // Build the transaction object from input parameters
-        const builtTxn = config.buildTransaction(txn as z.infer<S['inputSchema']>)
+        // Networks with an ID above 1024 also get their NetworkID from the network registry
+        const builtTxn = withNetworkId(config.buildTransaction(txn as z.infer<S['inputSchema']>), rest.network)
+
+        // A signed blob is submitted as is, so the validation and the policy check the transaction it contains
+        const checkedTxn = rest.signature ? (decode(rest.signature) as unknown as Transaction) : builtTxn
+
+        if (checkedTxn.TransactionType !== builtTxn.TransactionType) {
+          throw new Error(
+            `The signed transaction is a ${checkedTxn.TransactionType}, this tool submits ${builtTxn.TransactionType} transactions`,
+          )
+        }
 
         // Run optional validation if provided
         if (config.validateTransaction) {
-          await config.validateTransaction(builtTxn)
+          await config.validateTransaction(checkedTxn as T, {
+            network: rest.network,
+            mastra,
+            input: txn as Record<string, unknown>,
+          })
+        }
+
+        // Check the transaction against the policy before anything is signed or broadcast
+        if (mode === 'submit' || mode === 'sign') {
+          await enforceTransactionPolicy({
+            network: rest.network,
+            txn: checkedTxn,
+            signedLocally: mode === 'sign' || !rest.signature,
+            mastra,
+          })
+        }
+
+        // Hold risky submissions until a human approves them
+        const approvalReason = mode === 'submit' ? getApprovalReason(checkedTxn) : undefined
+
+        if (approvalReason) {
+          return await requestTransactionApproval({
+            mastra,
+            network: rest.network,
+            txn: builtTxn,
+            keyAlias: rest.keyAlias,
+            signature: rest.signature,
+            reason: approvalReason,
+          })
+        }
+
+        // Return the unsigned transaction for signing elsewhere
+        if (mode === 'prepare') {
+          return await prepareTransaction<T>({ mastra, network: rest.network, txn: builtTxn })
+        }
+
+        // Dry-run the transaction without spending a fee or a sequence
+        if (mode === 'simulate') {
+          return await simulateTransaction<T>({ mastra, network: rest.network, txn: builtTxn })
+        }
+
+        // The key alias is resolved to its wallet only now, right before signing
+        const wallet = rest.keyAlias && !rest.signature ? await getWalletByAlias(rest.keyAlias) : undefined
+
+        // Return the signed transaction without broadcasting it
+        if (mode === 'sign' && wallet) {
+          return await signTransaction<T>({ mastra, network: rest.network, txn: builtTxn, wallet })
         }
 
-        // Submit the transaction using the appropriate
+        // Submit the transaction using the appropriate credentials
         return await submitTransaction<T>({
           mastra,
+          network: rest.network,
           txn: builtTxn,
-          ...rest,
+          signature: rest.signature,
+          wallet,
         })
       },
     })
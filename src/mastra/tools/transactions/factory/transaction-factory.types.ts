@@ -1,9 +1,21 @@
-import { createTool } from '@mastra/core'
+import { createTool, ToolExecutionContext } from '@mastra/core'
 import { SubmittableTransaction } from 'xrpl'
 import z from 'zod'
 
 type CreateToolConfig = Parameters<typeof createTool>[0]
 
+/**
+ * Context passed to the validation function of a transaction tool
+ */
+export type TransactionValidationContext = {
+  /** The network the transaction will be submitted to */
+  network: string
+  /** The mastra instance, for logging */
+  mastra?: ToolExecutionContext['mastra']
+  /** The tool input the transaction was built from, for tool options that are not transaction fields */
+  input: Record<string, unknown>
+}
+
 /**
  * Configuration for creating a transaction tool
  */
@@ -14,21 +26,45 @@ export type TransactionToolConfig<T extends SubmittableTransaction, S extends Fa
   description: string
   /** Function to build the transaction object from input parameters */
   buildTransaction: (params: z.infer<S['inputSchema']>) => T
-  /** Optional function to validate transaction before submission */
-  validateTransaction?: (txn: T) => void | Promise<void>
-} & Omit<CreateToolConfig, 'id' | 'inputSchema' | 'execute'>
+  /** Optional function to validate transaction before submission, the context allows reading the ledger */
+  validateTransaction?: (txn: T, context: TransactionValidationContext) => void | Promise<void>
+} & Omit<CreateToolConfig, 'id' | 'inputSchema' | 'outputSchema' | 'execute'>
+
+/**
+ * What a transaction tool does with the built transaction
+ */
+export const transactionModeSchema = z.enum([
+  'submit', // Sign (with keyAlias) or take the signed blob (signature), then submit and wait for validation
+  'prepare', // Autofill and return the unsigned transaction and blob, nothing is signed or submitted
+  'sign', // Autofill if needed and sign with keyAlias, return the signed blob and hash without submitting
+  'simulate', // Dry-run with the simulate API, return the projected result without signing or submitting
+])
+
+export type TransactionMode = z.infer<typeof transactionModeSchema>
 
 /**
  * Common input schema for all transaction tools
  */
 export const baseTransactionSchema = z.object({
-  network: z.string().describe('Network to submit the transaction to, e.g. "wss://s.altnet.rippletest.net:51233"'),
-  seed: z.string().optional().describe('Seed phrase for the account on testnet or devnet, never mainnet'),
+  mode: transactionModeSchema
+    .default('submit')
+    .describe(
+      'What to do with the transaction: "submit" (default) signs and broadcasts it, "prepare" returns the autofilled unsigned transaction and blob for a hardware wallet or air-gapped signer, "sign" returns the signed blob and hash without broadcasting, "simulate" returns the projected engine result, balance changes and created or deleted objects without spending a fee or sequence',
+    ),
+  network: z
+    .string()
+    .describe('Network to submit the transaction to: a network name such as "testnet", or a WebSocket URL'),
+  keyAlias: z
+    .string()
+    .optional()
+    .describe(
+      'Alias of the key in the keystore that signs for the account, never a seed. Local signing is rejected on mainnet by the transaction policy',
+    ),
   signature: z
     .string()
     .optional()
     .describe(
-      'Signature for the transaction, typically provided for mainnet but can also be used for testnet or devnet',
+      'Signed transaction blob, typically provided for mainnet but can also be used for testnet or devnet. Multi-signed blobs come from the combine-multisign-signatures tool',
     ),
 })
 
@@ -1,9 +1,42 @@
+export * from './account-delete'
 export * from './account-set'
+export * from './amm-bid'
 export * from './amm-create'
+export * from './amm-delete'
+export * from './amm-deposit'
+export * from './amm-vote'
+export * from './amm-withdraw'
+export * from './check-cancel'
+export * from './check-cash'
+export * from './check-create'
 export * from './clawback'
+export * from './credential-accept'
+export * from './credential-create'
+export * from './credential-delete'
+export * from './deposit-preauth'
+export * from './escrow-cancel'
+export * from './escrow-create'
+export * from './escrow-finish'
+export * from './mptoken-authorize'
+export * from './mptoken-issuance-create'
+export * from './mptoken-issuance-destroy'
+export * from './mptoken-issuance-set'
+export * from './nftoken-accept-offer'
+export * from './nftoken-burn'
+export * from './nftoken-cancel-offer'
+export * from './nftoken-create-offer'
 export * from './nftoken-mint/nftoken-mint'
+export * from './nftoken-modify'
 export * from './offer-cancel/offer-cancel'
 export * from './offer-create/offer-create'
 export * from './payment'
+export * from './payment-channel-claim'
+export * from './payment-channel-create'
+export * from './payment-channel-fund'
+export * from './permissioned-domain-delete'
+export * from './permissioned-domain-set'
+export * from './set-regular-key'
 export * from './shared'
+export * from './signer-list-set'
+export * from './ticket-create'
 export * from './trustset'
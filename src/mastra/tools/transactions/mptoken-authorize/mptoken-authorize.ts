@@ -0,0 +1,54 @@
+import { useTransactionToolFactory } from '../factory'
+import { xrplMPTokenAuthorizeSchema } from './mptoken-authorize.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplMPTokenAuthorizeSchema,
+})
+
+export const submitMPTokenAuthorizeTool = createTransactionTool({
+  toolId: 'submit-mptoken-authorize',
+  description: `Submit an MPTokenAuthorize transaction to opt in to a Multi-Purpose Token (MPT), or to authorize a holder as the issuer.
+
+## What is MPTokenAuthorize?
+Used in two ways:
+- **By a holder** (no Holder field): creates the MPToken object that lets the account hold the MPT. This is required before receiving the token, like a trust line for IOUs
+- **By the issuer** (Holder field set): authorizes the holder's MPToken when the issuance was created with tfMPTRequireAuth
+
+## Required Fields:
+- **MPTokenIssuanceID**: The ID of the MPT issuance (mpt_issuance_id)
+
+## Optional Fields:
+- **Holder**: Address of the holder to authorize. Only used by the issuer
+
+## MPTokenAuthorize Flags:
+- **tfMPTUnauthorize** (1): As a holder, delete the MPToken (balance must be 0). As the issuer, revoke the holder's authorization
+
+## Important Notes:
+- With tfMPTRequireAuth, the holder must opt in first, then the issuer authorizes them
+- The MPToken counts toward the holder's owner reserve
+
+## Common Error Cases:
+- **temDISABLED**: MPTokensV1 amendment not enabled
+- **tecOBJECT_NOT_FOUND**: The issuance, or the holder's MPToken, does not exist
+- **tecDUPLICATE**: The holder already holds this MPT
+- **tecHAS_OBLIGATIONS**: The holder tries to unauthorize with a non-zero balance
+- **tecNO_PERMISSION**: The issuer authorizes a holder on an issuance without tfMPTRequireAuth
+- **tecINSUFFICIENT_RESERVE**: Not enough XRP to meet the owner reserve
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rsA2LpzuawewSBQXkiju3YQTMzW13pAAdW",
+  "MPTokenIssuanceID": "00070C4495F14B0E44F78A264E41713C64B5F89242540EE255534400000000000000",
+  "TransactionType": "MPTokenAuthorize"
+}
+\`\`\``,
+  buildTransaction: mptokenAuthorize => {
+    return mptokenAuthorize
+  },
+  validateTransaction: params => {
+    if (params.Holder === params.Account) {
+      throw new Error('Holder must be omitted when it is the same as Account')
+    }
+  },
+})
@@ -0,0 +1,49 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * MPTokenAuthorize flags
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/mptokenauthorize#mptokenauthorize-flags
+ */
+export const MPTokenAuthorizeFlagsSchema = z.enum([
+  'tfMPTUnauthorize', // 1 - Holder: stop holding the MPT (balance must be 0). Issuer: revoke the holder's authorization
+])
+
+export type MPTokenAuthorizeFlags = z.infer<typeof MPTokenAuthorizeFlagsSchema>
+
+/**
+ * MPTokenAuthorize-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/mptokenauthorize#mptokenauthorize-fields
+ */
+export const xrplMPTokenAuthorizeFieldsSchema = z.object({
+  // Required field
+  MPTokenIssuanceID: z.string().describe('The ID of the MPT issuance (mpt_issuance_id)'),
+
+  // Optional field
+  Holder: z
+    .string()
+    .optional()
+    .describe(
+      'Address of the holder to authorize or unauthorize. Only used by the issuer of an issuance with tfMPTRequireAuth, must be omitted when a holder opts in',
+    ),
+})
+
+/**
+ * Complete MPTokenAuthorize transaction schema
+ */
+export const xrplMPTokenAuthorizeSchema = xrplCommonFieldsSchema
+  .merge(xrplMPTokenAuthorizeFieldsSchema)
+  .extend({ TransactionType: z.literal('MPTokenAuthorize') })
+
+export type XrplMPTokenAuthorizeFields = z.infer<typeof xrplMPTokenAuthorizeFieldsSchema>
+export type XrplMPTokenAuthorize = z.infer<typeof xrplMPTokenAuthorizeSchema>
+
+/**
+ * Helper function to convert MPTokenAuthorize flag names to numeric values
+ */
+export const getMPTokenAuthorizeFlagValue = (flagName: MPTokenAuthorizeFlags): number => {
+  const flagValues: Record<MPTokenAuthorizeFlags, number> = {
+    tfMPTUnauthorize: 1,
+  }
+  return flagValues[flagName]
+}
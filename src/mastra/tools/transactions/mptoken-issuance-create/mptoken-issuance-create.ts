@@ -0,0 +1,106 @@
+import { convertStringToHex, MPTokenIssuanceCreate } from 'xrpl'
+import { isNumber, isString, isUndefined } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import {
+  getMPTokenIssuanceCreateFlagValue,
+  MPT_MAX_AMOUNT,
+  MPT_MAX_METADATA_BYTES,
+  xrplMPTokenIssuanceCreateSchema,
+} from './mptoken-issuance-create.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplMPTokenIssuanceCreateSchema,
+})
+
+export const submitMPTokenIssuanceCreateTool = createTransactionTool({
+  toolId: 'submit-mptoken-issuance-create',
+  description: `Submit an MPTokenIssuanceCreate transaction to define a new Multi-Purpose Token (MPT).
+
+## What is MPTokenIssuanceCreate?
+Creates an MPTokenIssuance object owned by the sender, who becomes the issuer of the token. The ID of the new issuance (mpt_issuance_id) is returned in the transaction metadata and is used to authorize holders, send payments and configure the issuance. Requires the MPTokensV1 amendment.
+
+## Optional Fields:
+- **AssetScale**: Number of decimal places (0 - 255). Amounts are always integers in the smallest unit, so with AssetScale 2, "100" means 1.00
+- **MaximumAmount**: Maximum supply as an integer string in the smallest unit (max ${MPT_MAX_AMOUNT}, also the default)
+- **TransferFee**: Fee for secondary sales in units of 1/100,000 (0 - 50000). Only allowed with tfMPTCanTransfer
+- **MPTokenMetadata**: JSON object (XLS-89 format) or string, this will be hex encoded by the mastra tool (max ${MPT_MAX_METADATA_BYTES} bytes)
+
+## MPTokenIssuanceCreate Flags:
+- **tfMPTCanLock** (2): The issuer can lock balances individually and globally
+- **tfMPTRequireAuth** (4): Holders must be authorized by the issuer (MPTokenAuthorize) before holding the token
+- **tfMPTCanEscrow** (8): Holders can place balances into an escrow
+- **tfMPTCanTrade** (16): Holders can trade balances on the DEX or AMM
+- **tfMPTCanTransfer** (32): Holders can transfer tokens to other accounts than the issuer
+- **tfMPTCanClawback** (64): The issuer can claw back tokens with a Clawback transaction
+
+## Important Notes:
+- Flags and fields are immutable, they can't be changed after the issuance is created
+- Each holder must send an MPTokenAuthorize transaction to opt in before receiving the token
+- Tokens are issued by sending a Payment from the issuer with an MPT Amount ({ "mpt_issuance_id", "value" })
+- The issuance counts toward the issuer's owner reserve
+
+## Common Error Cases:
+- **temDISABLED**: MPTokensV1 amendment not enabled
+- **temMALFORMED**: TransferFee without tfMPTCanTransfer, or MaximumAmount of 0
+- **tecINSUFFICIENT_RESERVE**: Not enough XRP to meet the owner reserve
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rPEPPER7kfTD9w2To4CQk6UCfuHM9c6GDY",
+  "AssetScale": 2,
+  "MaximumAmount": "100000000",
+  "TransferFee": 314,
+  "MPTokenMetadata": {
+    "ticker": "TBILL",
+    "name": "T-Bill Yield Token",
+    "icon": "https://example.org/tbill-icon.png",
+    "asset_class": "rwa",
+    "asset_subclass": "treasury",
+    "issuer_name": "Example Yield Co."
+  },
+  "Flags": 122,
+  "TransactionType": "MPTokenIssuanceCreate"
+}
+\`\`\``,
+  buildTransaction: mptokenIssuanceCreate => {
+    const { MPTokenMetadata, ...rest } = mptokenIssuanceCreate
+
+    const builtMPTokenIssuanceCreate: MPTokenIssuanceCreate = {
+      ...rest,
+    }
+
+    if (!isUndefined(MPTokenMetadata)) {
+      builtMPTokenIssuanceCreate.MPTokenMetadata = convertStringToHex(
+        isString(MPTokenMetadata) ? MPTokenMetadata : JSON.stringify(MPTokenMetadata),
+      )
+    }
+
+    return builtMPTokenIssuanceCreate
+  },
+  validateTransaction: params => {
+    if (!isUndefined(params.MaximumAmount)) {
+      const maximumAmount = BigInt(params.MaximumAmount)
+
+      if (maximumAmount === 0n) {
+        throw new Error('MaximumAmount must be greater than 0')
+      }
+
+      if (maximumAmount > BigInt(MPT_MAX_AMOUNT)) {
+        throw new Error(`MaximumAmount cannot exceed ${MPT_MAX_AMOUNT}`)
+      }
+    }
+
+    if (!isUndefined(params.TransferFee) && params.TransferFee > 0) {
+      const flags = isNumber(params.Flags) ? params.Flags : 0
+
+      if ((flags & getMPTokenIssuanceCreateFlagValue('tfMPTCanTransfer')) === 0) {
+        throw new Error('TransferFee requires the tfMPTCanTransfer flag')
+      }
+    }
+
+    if (!isUndefined(params.MPTokenMetadata) && params.MPTokenMetadata.length / 2 > MPT_MAX_METADATA_BYTES) {
+      throw new Error(`MPTokenMetadata cannot exceed ${MPT_MAX_METADATA_BYTES} bytes`)
+    }
+  },
+})
@@ -0,0 +1,91 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * Largest amount of an MPT that can ever be issued (2^63 - 1)
+ */
+export const MPT_MAX_AMOUNT = '9223372036854775807'
+
+/**
+ * Maximum length of the MPTokenMetadata field, in bytes
+ */
+export const MPT_MAX_METADATA_BYTES = 1024
+
+/**
+ * MPTokenIssuanceCreate flags, they can't be changed after the issuance is created
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/mptokenissuancecreate#mptokenissuancecreate-flags
+ */
+export const MPTokenIssuanceCreateFlagsSchema = z.enum([
+  'tfMPTCanLock', // 2 - The MPT can be locked both individually and globally
+  'tfMPTRequireAuth', // 4 - Individual holders must be authorized by the issuer
+  'tfMPTCanEscrow', // 8 - Holders can place their balances into an escrow
+  'tfMPTCanTrade', // 16 - Holders can trade their balances on the DEX or AMM
+  'tfMPTCanTransfer', // 32 - Tokens can be transferred to accounts other than the issuer
+  'tfMPTCanClawback', // 64 - The issuer can claw back tokens from holders
+])
+
+export type MPTokenIssuanceCreateFlags = z.infer<typeof MPTokenIssuanceCreateFlagsSchema>
+
+/**
+ * MPTokenIssuanceCreate-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/mptokenissuancecreate#mptokenissuancecreate-fields
+ */
+export const xrplMPTokenIssuanceCreateFieldsSchema = z.object({
+  // Optional fields
+  AssetScale: z
+    .number()
+    .int()
+    .gte(0)
+    .lte(255)
+    .optional()
+    .describe(
+      'Number of decimal places of the token: one standard unit equals 10^AssetScale of the integer units used in amounts. Defaults to 0',
+    ),
+  MaximumAmount: z
+    .string()
+    .regex(/^\d+$/, 'MaximumAmount must be a non-negative integer string')
+    .optional()
+    .describe(
+      `Maximum amount of this token that can ever be issued, as a base-10 integer string in the smallest unit (scaled by AssetScale). Up to ${MPT_MAX_AMOUNT}, which is also the default`,
+    ),
+  TransferFee: z
+    .number()
+    .int()
+    .gte(0)
+    .lte(50000)
+    .optional()
+    .describe(
+      'Fee charged by the issuer for secondary sales, in units of 1/100,000 (0 - 50000, i.e. 0% - 50%). Requires tfMPTCanTransfer',
+    ),
+  MPTokenMetadata: z
+    .union([z.string(), z.record(z.unknown())])
+    .optional()
+    .describe(
+      `Arbitrary metadata about the token, this will be hex encoded by the mastra tool (max ${MPT_MAX_METADATA_BYTES} bytes). Pass a JSON object following the XLS-89 metadata format (e.g. ticker, name, icon, asset_class) so explorers can display it, or a plain string`,
+    ),
+})
+
+/**
+ * Complete MPTokenIssuanceCreate transaction schema
+ */
+export const xrplMPTokenIssuanceCreateSchema = xrplCommonFieldsSchema
+  .merge(xrplMPTokenIssuanceCreateFieldsSchema)
+  .extend({ TransactionType: z.literal('MPTokenIssuanceCreate') })
+
+export type XrplMPTokenIssuanceCreateFields = z.infer<typeof xrplMPTokenIssuanceCreateFieldsSchema>
+export type XrplMPTokenIssuanceCreate = z.infer<typeof xrplMPTokenIssuanceCreateSchema>
+
+/**
+ * Helper function to convert MPTokenIssuanceCreate flag names to numeric values
+ */
+export const getMPTokenIssuanceCreateFlagValue = (flagName: MPTokenIssuanceCreateFlags): number => {
+  const flagValues: Record<MPTokenIssuanceCreateFlags, number> = {
+    tfMPTCanLock: 2,
+    tfMPTRequireAuth: 4,
+    tfMPTCanEscrow: 8,
+    tfMPTCanTrade: 16,
+    tfMPTCanTransfer: 32,
+    tfMPTCanClawback: 64,
+  }
+  return flagValues[flagName]
+}
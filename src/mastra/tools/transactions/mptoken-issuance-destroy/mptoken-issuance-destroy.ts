@@ -0,0 +1,39 @@
+import { useTransactionToolFactory } from '../factory'
+import { xrplMPTokenIssuanceDestroySchema } from './mptoken-issuance-destroy.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplMPTokenIssuanceDestroySchema,
+})
+
+export const submitMPTokenIssuanceDestroyTool = createTransactionTool({
+  toolId: 'submit-mptoken-issuance-destroy',
+  description: `Submit an MPTokenIssuanceDestroy transaction to delete a Multi-Purpose Token (MPT) issuance.
+
+## What is MPTokenIssuanceDestroy?
+Removes an MPTokenIssuance object from the ledger and frees the owner reserve it used. Only the issuer can destroy an issuance.
+
+## Required Fields:
+- **MPTokenIssuanceID**: The ID of the MPT issuance to destroy (mpt_issuance_id)
+
+## Important Notes:
+- The issuance can only be destroyed when no holder has a non-zero balance (OutstandingAmount is 0)
+- Use the get-mpt-holders tool to check the remaining holders first
+
+## Common Error Cases:
+- **temDISABLED**: MPTokensV1 amendment not enabled
+- **tecOBJECT_NOT_FOUND**: The issuance does not exist
+- **tecNO_PERMISSION**: The sender is not the issuer
+- **tecHAS_OBLIGATIONS**: Holders still have a non-zero balance
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rPEPPER7kfTD9w2To4CQk6UCfuHM9c6GDY",
+  "MPTokenIssuanceID": "00070C4495F14B0E44F78A264E41713C64B5F89242540EE255534400000000000000",
+  "TransactionType": "MPTokenIssuanceDestroy"
+}
+\`\`\``,
+  buildTransaction: mptokenIssuanceDestroy => {
+    return mptokenIssuanceDestroy
+  },
+})
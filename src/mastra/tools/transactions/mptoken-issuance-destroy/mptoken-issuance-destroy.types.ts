@@ -0,0 +1,21 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * MPTokenIssuanceDestroy-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/mptokenissuancedestroy#mptokenissuancedestroy-fields
+ */
+export const xrplMPTokenIssuanceDestroyFieldsSchema = z.object({
+  // Required field
+  MPTokenIssuanceID: z.string().describe('The ID of the MPT issuance to destroy (mpt_issuance_id)'),
+})
+
+/**
+ * Complete MPTokenIssuanceDestroy transaction schema
+ */
+export const xrplMPTokenIssuanceDestroySchema = xrplCommonFieldsSchema
+  .merge(xrplMPTokenIssuanceDestroyFieldsSchema)
+  .extend({ TransactionType: z.literal('MPTokenIssuanceDestroy') })
+
+export type XrplMPTokenIssuanceDestroyFields = z.infer<typeof xrplMPTokenIssuanceDestroyFieldsSchema>
+export type XrplMPTokenIssuanceDestroy = z.infer<typeof xrplMPTokenIssuanceDestroySchema>
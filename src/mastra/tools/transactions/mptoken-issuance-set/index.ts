@@ -0,0 +1 @@
+export * from './mptoken-issuance-set'
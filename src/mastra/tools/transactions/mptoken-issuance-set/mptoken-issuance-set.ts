@@ -0,0 +1,63 @@
+import { isNumber } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { getMPTokenIssuanceSetFlagValue, xrplMPTokenIssuanceSetSchema } from './mptoken-issuance-set.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplMPTokenIssuanceSetSchema,
+})
+
+export const submitMPTokenIssuanceSetTool = createTransactionTool({
+  toolId: 'submit-mptoken-issuance-set',
+  description: `Submit an MPTokenIssuanceSet transaction to lock or unlock balances of a Multi-Purpose Token (MPT).
+
+## What is MPTokenIssuanceSet?
+Lets the issuer lock (freeze) or unlock an MPT, either for all holders or for a single Holder. Locked balances can't be transferred, except back to the issuer.
+
+## Required Fields:
+- **MPTokenIssuanceID**: The ID of the MPT issuance (mpt_issuance_id)
+
+## Optional Fields:
+- **Holder**: Address of a single holder to lock or unlock. Omit to apply to the whole issuance
+
+## MPTokenIssuanceSet Flags:
+- **tfMPTLock** (1): Lock the balances
+- **tfMPTUnlock** (2): Unlock the balances
+
+## Important Notes:
+- Exactly one of tfMPTLock or tfMPTUnlock must be set
+- Only the issuer can send this transaction
+- The issuance must have been created with tfMPTCanLock
+
+## Common Error Cases:
+- **temDISABLED**: MPTokensV1 amendment not enabled
+- **temINVALID_FLAG**: Both or neither of tfMPTLock and tfMPTUnlock are set
+- **tecOBJECT_NOT_FOUND**: The issuance, or the holder's MPToken, does not exist
+- **tecNO_PERMISSION**: The sender is not the issuer, or the issuance can't be locked
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rPEPPER7kfTD9w2To4CQk6UCfuHM9c6GDY",
+  "MPTokenIssuanceID": "00070C4495F14B0E44F78A264E41713C64B5F89242540EE255534400000000000000",
+  "Holder": "rsA2LpzuawewSBQXkiju3YQTMzW13pAAdW",
+  "Flags": 1,
+  "TransactionType": "MPTokenIssuanceSet"
+}
+\`\`\``,
+  buildTransaction: mptokenIssuanceSet => {
+    return mptokenIssuanceSet
+  },
+  validateTransaction: params => {
+    const flags = isNumber(params.Flags) ? params.Flags : 0
+    const isLock = (flags & getMPTokenIssuanceSetFlagValue('tfMPTLock')) !== 0
+    const isUnlock = (flags & getMPTokenIssuanceSetFlagValue('tfMPTUnlock')) !== 0
+
+    if (isLock === isUnlock) {
+      throw new Error('Exactly one of tfMPTLock or tfMPTUnlock must be set')
+    }
+
+    if (params.Holder === params.Account) {
+      throw new Error('Holder cannot be the same as Account')
+    }
+  },
+})
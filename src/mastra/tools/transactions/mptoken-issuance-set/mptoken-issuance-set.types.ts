@@ -0,0 +1,49 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * MPTokenIssuanceSet flags used to lock or unlock balances
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/mptokenissuanceset#mptokenissuanceset-flags
+ */
+export const MPTokenIssuanceSetFlagsSchema = z.enum([
+  'tfMPTLock', // 1 - Lock the balances of the issuance, or of the Holder if provided
+  'tfMPTUnlock', // 2 - Unlock the balances of the issuance, or of the Holder if provided
+])
+
+export type MPTokenIssuanceSetFlags = z.infer<typeof MPTokenIssuanceSetFlagsSchema>
+
+/**
+ * MPTokenIssuanceSet-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/mptokenissuanceset#mptokenissuanceset-fields
+ */
+export const xrplMPTokenIssuanceSetFieldsSchema = z.object({
+  // Required field
+  MPTokenIssuanceID: z.string().describe('The ID of the MPT issuance to configure (mpt_issuance_id)'),
+
+  // Optional field
+  Holder: z
+    .string()
+    .optional()
+    .describe('Address of an individual holder to lock or unlock. If omitted, applies to all holders of the issuance'),
+})
+
+/**
+ * Complete MPTokenIssuanceSet transaction schema
+ */
+export const xrplMPTokenIssuanceSetSchema = xrplCommonFieldsSchema
+  .merge(xrplMPTokenIssuanceSetFieldsSchema)
+  .extend({ TransactionType: z.literal('MPTokenIssuanceSet') })
+
+export type XrplMPTokenIssuanceSetFields = z.infer<typeof xrplMPTokenIssuanceSetFieldsSchema>
+export type XrplMPTokenIssuanceSet = z.infer<typeof xrplMPTokenIssuanceSetSchema>
+
+/**
+ * Helper function to convert MPTokenIssuanceSet flag names to numeric values
+ */
+export const getMPTokenIssuanceSetFlagValue = (flagName: MPTokenIssuanceSetFlags): number => {
+  const flagValues: Record<MPTokenIssuanceSetFlags, number> = {
+    tfMPTLock: 1,
+    tfMPTUnlock: 2,
+  }
+  return flagValues[flagName]
+}
@@ -0,0 +1 @@
+export * from './nftoken-accept-offer'
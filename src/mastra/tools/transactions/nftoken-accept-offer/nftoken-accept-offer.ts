@@ -0,0 +1,170 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { Amount, LedgerEntry } from 'xrpl'
+import { isString, isUndefined } from '../../../../helpers'
+import { executeMethod } from '../../methods/shared'
+import { useTransactionToolFactory } from '../factory'
+import { processAmount } from '../shared'
+import { xrplNFTokenAcceptOfferSchema } from './nftoken-accept-offer.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplNFTokenAcceptOfferSchema,
+})
+
+// lsfSellNFToken, set on sell offers and cleared on buy offers
+const LSF_SELL_NFTOKEN = 0x00000001
+
+// The NFTokenOffer ledger entry, with the NFTokenID that xrpl.js leaves out of its type
+type NFTokenOfferEntry = LedgerEntry.NFTokenOffer & { NFTokenID: string }
+
+/**
+ * Helper function to read an NFTokenOffer from the ledger
+ */
+const getNFTokenOffer = async (
+  network: string,
+  offerId: string,
+  mastra?: ToolExecutionContext['mastra'],
+): Promise<NFTokenOfferEntry> => {
+  const response = await executeMethod({
+    network,
+    request: { command: 'ledger_entry', index: offerId, ledger_index: 'validated' },
+    logMessage: 'NFToken offer ledger entry request',
+    mastra,
+  })
+
+  const { node } = response.result as { node: NFTokenOfferEntry }
+
+  if (node.LedgerEntryType !== 'NFTokenOffer') {
+    throw new Error(`Ledger entry ${offerId} is a ${node.LedgerEntryType}, not an NFTokenOffer`)
+  }
+
+  return node
+}
+
+/**
+ * Helper function to identify the currency of an amount
+ */
+const getAmountCurrency = (amount: Amount): string => {
+  return isString(amount) ? 'XRP' : `${amount.currency}.${amount.issuer}`
+}
+
+/**
+ * Helper function to get the numeric value of an amount
+ */
+const getAmountValue = (amount: Amount): number => {
+  return Number(isString(amount) ? amount : amount.value)
+}
+
+export const submitNFTokenAcceptOfferTool = createTransactionTool({
+  toolId: 'submit-nftoken-accept-offer',
+  description: `Submit an NFTokenAcceptOffer transaction to accept an offer to buy or sell an NFT, or to broker a sale between a buy and a sell offer.
+
+## Modes:
+- **Direct mode**: Provide only NFTokenSellOffer (buy the NFT) or only NFTokenBuyOffer (sell the NFT you own)
+- **Brokered mode**: Provide both NFTokenSellOffer and NFTokenBuyOffer, the sender matches them and can keep NFTokenBrokerFee
+
+## Fields:
+- **NFTokenSellOffer**: ID of the sell offer (use the NFT sell offers tool to find it)
+- **NFTokenBuyOffer**: ID of the buy offer (use the NFT buy offers tool to find it)
+- **NFTokenBrokerFee**: Fee kept by the broker, brokered mode only (XRP string in drops or token object)
+
+## Brokered Mode Rules:
+- Both offers must be for the same NFT and in the same currency
+- The broker fee must be in the same currency as the offers and greater than zero
+- The broker fee must be less than the buy offer amount, and the buy amount minus the fee must cover the sell amount
+- NFTokenSellOffer must be a sell offer and NFTokenBuyOffer a buy offer
+- If the sell offer has a Destination, it must be the broker
+- The tool reads both offers from the ledger and checks these rules before submitting
+
+## Important Notes:
+- The NFT issuer's transfer fee (TransferFee) is paid out of the amount received by the seller
+- Custom currency codes are converted to hex by the tool
+
+## Common Error Cases:
+- **tecCANT_ACCEPT_OWN_NFTOKEN_OFFER**: The buyer and the seller are the same account
+- **tecEXPIRED**: One of the offers has expired
+- **tecINSUFFICIENT_FUNDS**: The buyer does not have the amount offered
+- **tecINSUFFICIENT_PAYMENT**: The buy amount minus the broker fee does not cover the sell amount
+- **tecNFTOKEN_BUY_SELL_MISMATCH**: The offers are not for the same NFT or currency
+- **tecNFTOKEN_OFFER_TYPE_MISMATCH**: An offer ID points to the wrong type of offer
+- **tecNO_PERMISSION**: The sender is not the Destination of an offer
+- **temMALFORMED**: No offer, or a broker fee without both offers
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "r9spUPhPBfB6kQeF6vPhwmtFwRhBh2JUCG",
+  "NFTokenSellOffer": "68CD1F6F906494EA08C9CB5CAFA64DFA90D4E834B7151899B73231DE5A0C3B77",
+  "TransactionType": "NFTokenAcceptOffer"
+}
+\`\`\``,
+  buildTransaction: nftokenAcceptOffer => {
+    const { NFTokenBrokerFee, ...rest } = nftokenAcceptOffer
+
+    return {
+      ...rest,
+      NFTokenBrokerFee: NFTokenBrokerFee && processAmount(NFTokenBrokerFee),
+    }
+  },
+  validateTransaction: async (params, { network, mastra }) => {
+    if (isUndefined(params.NFTokenSellOffer) && isUndefined(params.NFTokenBuyOffer)) {
+      throw new Error('At least one of NFTokenSellOffer or NFTokenBuyOffer must be provided')
+    }
+
+    if (isUndefined(params.NFTokenSellOffer) || isUndefined(params.NFTokenBuyOffer)) {
+      if (!isUndefined(params.NFTokenBrokerFee)) {
+        throw new Error(
+          'NFTokenBrokerFee can only be used in brokered mode, with both NFTokenSellOffer and NFTokenBuyOffer',
+        )
+      }
+
+      return
+    }
+
+    if (!isUndefined(params.NFTokenBrokerFee) && getAmountValue(params.NFTokenBrokerFee) <= 0) {
+      throw new Error('NFTokenBrokerFee must be greater than zero')
+    }
+
+    const [sellOffer, buyOffer] = await Promise.all([
+      getNFTokenOffer(network, params.NFTokenSellOffer, mastra),
+      getNFTokenOffer(network, params.NFTokenBuyOffer, mastra),
+    ])
+
+    if (!(sellOffer.Flags & LSF_SELL_NFTOKEN)) {
+      throw new Error('NFTokenSellOffer must be a sell offer, it points to a buy offer')
+    }
+
+    if (buyOffer.Flags & LSF_SELL_NFTOKEN) {
+      throw new Error('NFTokenBuyOffer must be a buy offer, it points to a sell offer')
+    }
+
+    if (sellOffer.NFTokenID !== buyOffer.NFTokenID) {
+      throw new Error(
+        `The offers are for different NFTs: ${sellOffer.NFTokenID} is sold and ${buyOffer.NFTokenID} is bought`,
+      )
+    }
+
+    if (getAmountCurrency(sellOffer.Amount) !== getAmountCurrency(buyOffer.Amount)) {
+      throw new Error('The sell and buy offers must be in the same currency')
+    }
+
+    if (sellOffer.Destination && sellOffer.Destination !== params.Account) {
+      throw new Error(`The sell offer can only be accepted by its Destination ${sellOffer.Destination}`)
+    }
+
+    const brokerFee = isUndefined(params.NFTokenBrokerFee) ? 0 : getAmountValue(params.NFTokenBrokerFee)
+
+    if (!isUndefined(params.NFTokenBrokerFee)) {
+      if (getAmountCurrency(params.NFTokenBrokerFee) !== getAmountCurrency(buyOffer.Amount)) {
+        throw new Error('NFTokenBrokerFee must be in the same currency as the matched offers')
+      }
+
+      if (brokerFee >= getAmountValue(buyOffer.Amount)) {
+        throw new Error('NFTokenBrokerFee must be less than the buy offer amount')
+      }
+    }
+
+    if (getAmountValue(buyOffer.Amount) - brokerFee < getAmountValue(sellOffer.Amount)) {
+      throw new Error('The buy offer amount minus NFTokenBrokerFee must be at least the sell offer amount')
+    }
+  },
+})
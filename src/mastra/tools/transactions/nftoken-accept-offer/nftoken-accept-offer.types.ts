@@ -0,0 +1,37 @@
+import { z } from 'zod'
+import { xrplCurrencyAmountSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * NFTokenAcceptOffer-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/nftokenacceptoffer#nftokenacceptoffer-fields
+ */
+export const xrplNFTokenAcceptOfferFieldsSchema = z.object({
+  // At least one of the offers must be provided
+  NFTokenSellOffer: z
+    .string()
+    .optional()
+    .describe('Identifies the NFTokenOffer that offers to sell the NFToken. Required in brokered mode'),
+  NFTokenBuyOffer: z
+    .string()
+    .optional()
+    .describe('Identifies the NFTokenOffer that offers to buy the NFToken. Required in brokered mode'),
+
+  // Optional field (brokered mode only)
+  NFTokenBrokerFee: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .optional()
+    .describe(
+      'Brokered mode only. Amount the broker keeps as a fee. Same currency as the offers, greater than zero and less than the buy offer amount minus the sell offer amount',
+    ),
+})
+
+/**
+ * Complete NFTokenAcceptOffer transaction schema
+ */
+export const xrplNFTokenAcceptOfferSchema = xrplCommonFieldsSchema
+  .merge(xrplNFTokenAcceptOfferFieldsSchema)
+  .extend({ TransactionType: z.literal('NFTokenAcceptOffer') })
+
+export type XrplNFTokenAcceptOfferFields = z.infer<typeof xrplNFTokenAcceptOfferFieldsSchema>
+export type XrplNFTokenAcceptOffer = z.infer<typeof xrplNFTokenAcceptOfferSchema>
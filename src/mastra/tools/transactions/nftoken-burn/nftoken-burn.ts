@@ -0,0 +1,43 @@
+import { useTransactionToolFactory } from '../factory'
+import { xrplNFTokenBurnSchema } from './nftoken-burn.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplNFTokenBurnSchema,
+})
+
+export const submitNFTokenBurnTool = createTransactionTool({
+  toolId: 'submit-nftoken-burn',
+  description: `Submit an NFTokenBurn transaction to permanently destroy an NFT.
+
+## What is NFTokenBurn?
+Removes an NFToken object from the NFTokenPage in which it is stored, effectively removing the token from the ledger. All the outstanding offers for the NFT are removed as well.
+
+## Required Fields:
+- **NFTokenID**: ID of the NFT to burn (use getAccountNFTsTool to find it)
+
+## Optional Fields:
+- **Owner**: Current owner of the NFT, only when the sender is the issuer or authorized minter burning someone else's NFT
+
+## Important Notes:
+- Burning is irreversible
+- The owner can always burn its NFT
+- The issuer (or its authorized NFTokenMinter) can only burn NFTs minted with the tfBurnable flag
+- Burning the NFT frees reserve if its NFTokenPage is removed
+
+## Common Error Cases:
+- **tecNO_ENTRY**: The NFT does not exist or is not owned by Owner
+- **tecNO_PERMISSION**: The sender is not allowed to burn this NFT
+- **tecTOO_SOON**: Too many offers to remove, cancel some of them first
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rEaHypzWiVd4YBeLXiRLKa4JgxYDwDuWxt",
+  "NFTokenID": "000B013A95F14B0044F78A264E41713C64B5F89242540EE208C3098E00000D65",
+  "TransactionType": "NFTokenBurn"
+}
+\`\`\``,
+  buildTransaction: nftokenBurn => {
+    return nftokenBurn
+  },
+})
@@ -0,0 +1,29 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * NFTokenBurn-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/nftokenburn#nftokenburn-fields
+ */
+export const xrplNFTokenBurnFieldsSchema = z.object({
+  // Required field
+  NFTokenID: z.string().describe('The NFTokenID of the NFToken object to be removed by this transaction'),
+
+  // Optional field
+  Owner: z
+    .string()
+    .optional()
+    .describe(
+      'The owner of the NFToken to burn. Only used if that owner is different than the account sending this transaction. The issuer or authorized minter can use this field to burn NFTs that have the tfBurnable flag enabled',
+    ),
+})
+
+/**
+ * Complete NFTokenBurn transaction schema
+ */
+export const xrplNFTokenBurnSchema = xrplCommonFieldsSchema
+  .merge(xrplNFTokenBurnFieldsSchema)
+  .extend({ TransactionType: z.literal('NFTokenBurn') })
+
+export type XrplNFTokenBurnFields = z.infer<typeof xrplNFTokenBurnFieldsSchema>
+export type XrplNFTokenBurn = z.infer<typeof xrplNFTokenBurnSchema>
@@ -0,0 +1,42 @@
+import { useTransactionToolFactory } from '../factory'
+import { xrplNFTokenCancelOfferSchema } from './nftoken-cancel-offer.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplNFTokenCancelOfferSchema,
+})
+
+export const submitNFTokenCancelOfferTool = createTransactionTool({
+  toolId: 'submit-nftoken-cancel-offer',
+  description: `Submit an NFTokenCancelOffer transaction to cancel existing NFT buy or sell offers.
+
+## Required Fields:
+- **NFTokenOffers**: Array of NFTokenOffer IDs to cancel (use the NFT buy/sell offers tools to find them)
+
+## Important Notes:
+- The owner of an offer can always cancel it
+- The Destination of an offer can cancel it
+- Anyone can cancel an expired offer
+- Canceling an offer frees the owner reserve it used
+- The transaction fails entirely if any of the offers cannot be canceled
+
+## Common Error Cases:
+- **tecNO_PERMISSION**: The sender is not allowed to cancel one of the offers
+- **temMALFORMED**: The array is empty or contains duplicates
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "ra5nK24KXen9AHvsdFTKHSANinZseWnPcX",
+  "NFTokenOffers": ["9C92E061381C1EF37A8CDE0E8FC35188BFC30B1883825042A64309AC09F4C36D"],
+  "TransactionType": "NFTokenCancelOffer"
+}
+\`\`\``,
+  buildTransaction: nftokenCancelOffer => {
+    return nftokenCancelOffer
+  },
+  validateTransaction: params => {
+    if (new Set(params.NFTokenOffers).size !== params.NFTokenOffers.length) {
+      throw new Error('NFTokenOffers cannot contain duplicate offer IDs')
+    }
+  },
+})
@@ -0,0 +1,24 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * NFTokenCancelOffer-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/nftokencanceloffer#nftokencanceloffer-fields
+ */
+export const xrplNFTokenCancelOfferFieldsSchema = z.object({
+  // Required field
+  NFTokenOffers: z
+    .array(z.string())
+    .min(1)
+    .describe('An array of IDs of the NFTokenOffer objects to cancel. Each entry must be a different ID'),
+})
+
+/**
+ * Complete NFTokenCancelOffer transaction schema
+ */
+export const xrplNFTokenCancelOfferSchema = xrplCommonFieldsSchema
+  .merge(xrplNFTokenCancelOfferFieldsSchema)
+  .extend({ TransactionType: z.literal('NFTokenCancelOffer') })
+
+export type XrplNFTokenCancelOfferFields = z.infer<typeof xrplNFTokenCancelOfferFieldsSchema>
+export type XrplNFTokenCancelOffer = z.infer<typeof xrplNFTokenCancelOfferSchema>
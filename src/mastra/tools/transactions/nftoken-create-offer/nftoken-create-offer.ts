@@ -0,0 +1,100 @@
+import { NFTokenCreateOffer } from 'xrpl'
+import { isNumber, isString, isUndefined, toRippleTime } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { processAmount } from '../shared'
+import { getNFTokenCreateOfferFlagValue, xrplNFTokenCreateOfferSchema } from './nftoken-create-offer.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplNFTokenCreateOfferSchema,
+})
+
+export const submitNFTokenCreateOfferTool = createTransactionTool({
+  toolId: 'submit-nftoken-create-offer',
+  description: `Submit an NFTokenCreateOffer transaction to create an offer to buy or sell an NFT.
+
+## What is NFTokenCreateOffer?
+Creates an NFTokenOffer ledger entry. A sell offer is created by the owner of the NFT, a buy offer by anyone who wants to acquire it. The counterparty accepts the offer with NFTokenAcceptOffer, or a broker matches a buy and a sell offer together.
+
+## Required Fields:
+- **NFTokenID**: ID of the NFT (use getAccountNFTsTool to find it)
+- **Amount**: Amount expected (sell offer) or offered (buy offer), XRP string in drops or token object
+
+## Optional Fields:
+- **Owner**: Current owner of the NFT (required for buy offers, must be omitted for sell offers)
+- **Expiration**: Time after which the offer is no longer active (Ripple Epoch seconds or ISO 8601 date, converted by the tool)
+- **Destination**: Only this account can accept the offer (e.g., a broker for sell offers)
+
+## NFTokenCreateOffer Flags:
+- **tfSellNFToken** (1): The offer is a sell offer, otherwise it is a buy offer
+
+## Important Business Rules:
+- **Sell offers**: Set Flags to 1, omit Owner, the sender must own the NFT
+- **Buy offers**: Omit tfSellNFToken, set Owner to the current owner of the NFT
+- **Amount**: Must be non-zero for buy offers and for token amounts; "0" XRP sell offers give the NFT away
+- **tfOnlyXRP NFTs**: Can only be traded for XRP
+- **Self reference**: Owner and Destination cannot be the same as Account
+- Custom currency codes are converted to hex by the tool
+- The offer ID is in the offer_id field of the transaction metadata, or use the NFT buy/sell offers tools
+
+## Common Error Cases:
+- **tecNO_ENTRY**: The NFT does not exist or is not owned by Owner
+- **tecNO_PERMISSION**: The Destination disallows incoming NFT offers
+- **tecEXPIRED**: Expiration is in the past
+- **tecUNFUNDED_OFFER**: The buyer does not hold the amount offered
+- **tefNFTOKEN_IS_NOT_TRANSFERABLE**: The NFT is not transferable and neither party is the issuer
+- **temBAD_AMOUNT**: Zero amount for a buy offer or token amount
+- **temMALFORMED**: Owner provided for a sell offer or missing for a buy offer
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rs8jBmmfpwgmrSPgwMsh7CvKRmRt1JTVSX",
+  "NFTokenID": "000100001E962F495F07A990F4ED55ACCFEEF365DBAA76B6A048C0A200000007",
+  "Amount": "1000000",
+  "Flags": 1,
+  "TransactionType": "NFTokenCreateOffer"
+}
+\`\`\`
+
+**Note**: This creates an offer to sell the NFT for 1 XRP.`,
+  buildTransaction: nftokenCreateOffer => {
+    const { Amount, Expiration, ...rest } = nftokenCreateOffer
+
+    const builtNFTokenCreateOffer: NFTokenCreateOffer = {
+      ...rest,
+      Amount: processAmount(Amount),
+      Expiration: isUndefined(Expiration) ? undefined : toRippleTime(Expiration),
+    }
+
+    return builtNFTokenCreateOffer
+  },
+  validateTransaction: params => {
+    const flags = isNumber(params.Flags) ? params.Flags : 0
+    const isSellOffer = (flags & getNFTokenCreateOfferFlagValue('tfSellNFToken')) !== 0
+
+    if (isSellOffer && !isUndefined(params.Owner)) {
+      throw new Error('Owner must be omitted for sell offers (tfSellNFToken)')
+    }
+
+    if (!isSellOffer && isUndefined(params.Owner)) {
+      throw new Error('Owner must be provided for buy offers')
+    }
+
+    if (params.Owner === params.Account) {
+      throw new Error('Owner cannot be the same as Account')
+    }
+
+    if (params.Destination === params.Account) {
+      throw new Error('Destination cannot be the same as Account')
+    }
+
+    const amountValue = Number(isString(params.Amount) ? params.Amount : params.Amount.value)
+    if (isNaN(amountValue) || amountValue < 0) {
+      throw new Error('Amount must be a positive number')
+    }
+
+    if (amountValue === 0 && (!isSellOffer || !isString(params.Amount))) {
+      throw new Error('Amount must be non-zero for buy offers and token amounts')
+    }
+  },
+})
@@ -0,0 +1,64 @@
+import { z } from 'zod'
+import { xrplCurrencyAmountSchema, xrplRippleTimeSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * NFTokenCreateOffer flags that can be used to control the offer type
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/nftokencreateoffer#nftokencreateoffer-flags
+ */
+export const NFTokenCreateOfferFlagsSchema = z.enum([
+  'tfSellNFToken', // 1 - The offer is a sell offer, otherwise it is a buy offer
+])
+
+export type NFTokenCreateOfferFlags = z.infer<typeof NFTokenCreateOfferFlagsSchema>
+
+/**
+ * NFTokenCreateOffer-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/nftokencreateoffer#nftokencreateoffer-fields
+ */
+export const xrplNFTokenCreateOfferFieldsSchema = z.object({
+  // Required fields
+  NFTokenID: z.string().describe('Identifies the NFToken object that the offer references'),
+  Amount: z
+    .union([z.string(), xrplCurrencyAmountSchema])
+    .describe(
+      'Amount expected or offered for the NFToken. Can be XRP (string in drops) or a token (currency object). Must be non-zero for buy offers, zero is allowed for XRP sell offers (giving the NFT away)',
+    ),
+
+  // Optional fields
+  Owner: z
+    .string()
+    .optional()
+    .describe(
+      'Owner of the NFToken. Required for buy offers and must be omitted for sell offers. Cannot be the same as Account',
+    ),
+  Expiration: xrplRippleTimeSchema
+    .optional()
+    .describe('Time after which the offer is no longer active. Seconds since the Ripple Epoch or an ISO 8601 date'),
+  Destination: z
+    .string()
+    .optional()
+    .describe(
+      'If present, the offer may only be accepted by this account. For sell offers, this can be a broker. Cannot be the same as Account',
+    ),
+})
+
+/**
+ * Complete NFTokenCreateOffer transaction schema
+ */
+export const xrplNFTokenCreateOfferSchema = xrplCommonFieldsSchema
+  .merge(xrplNFTokenCreateOfferFieldsSchema)
+  .extend({ TransactionType: z.literal('NFTokenCreateOffer') })
+
+export type XrplNFTokenCreateOfferFields = z.infer<typeof xrplNFTokenCreateOfferFieldsSchema>
+export type XrplNFTokenCreateOffer = z.infer<typeof xrplNFTokenCreateOfferSchema>
+
+/**
+ * Helper function to convert NFTokenCreateOffer flag names to numeric values
+ */
+export const getNFTokenCreateOfferFlagValue = (flagName: NFTokenCreateOfferFlags): number => {
+  const flagValues: Record<NFTokenCreateOfferFlags, number> = {
+    tfSellNFToken: 1,
+  }
+  return flagValues[flagName]
+}
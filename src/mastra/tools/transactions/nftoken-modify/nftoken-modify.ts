@@ -0,0 +1,55 @@
+import { convertStringToHex } from 'xrpl'
+import { useTransactionToolFactory } from '../factory'
+import { xrplNFTokenModifySchema } from './nftoken-modify.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplNFTokenModifySchema,
+})
+
+export const submitNFTokenModifyTool = createTransactionTool({
+  toolId: 'submit-nftoken-modify',
+  description: `Submit an NFTokenModify transaction to change the URI of a mutable NFT.
+
+## What is NFTokenModify?
+Updates the URI field of an NFT that was minted with the tfMutable flag. Requires the DynamicNFT amendment.
+
+## Required Fields:
+- **NFTokenID**: ID of the NFT to modify
+
+## Optional Fields:
+- **Owner**: Owner of the NFT, if different from the sender
+- **URI**: New URI, this will be hex encoded by the mastra tool (max 256 bytes). Omit it to remove the URI
+
+## Important Notes:
+- Only the issuer of the NFT or its authorized NFTokenMinter can modify it
+- The NFT must have been minted with tfMutable (16)
+
+## Common Error Cases:
+- **temDISABLED**: DynamicNFT amendment not enabled
+- **tecNO_ENTRY**: The NFT does not exist or is not owned by Owner
+- **tecNO_PERMISSION**: The sender is not the issuer or authorized minter, or the NFT is not mutable
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rhMxuJC8gmKqAXxG9pogrVqK7BDRMN3Jcr",
+  "Owner": "rhNFXtHiEB2zh4qTq2DjxAcRfBhTGzkx8R",
+  "NFTokenID": "0008C350C182B4F213B82CCFA4C6F59AD76F0AFCFBDF04D5A048C0A300000007",
+  "URI": "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf4dfuylqabf3oclgtqy55fbzdi",
+  "TransactionType": "NFTokenModify"
+}
+\`\`\``,
+  buildTransaction: nftokenModify => {
+    const { URI, ...rest } = nftokenModify
+
+    return {
+      ...rest,
+      URI: URI && convertStringToHex(URI),
+    }
+  },
+  validateTransaction: params => {
+    if (params.Owner === params.Account) {
+      throw new Error('Owner must be omitted when it is the same as Account')
+    }
+  },
+})
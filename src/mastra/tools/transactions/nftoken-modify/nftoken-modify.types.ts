@@ -0,0 +1,34 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * NFTokenModify-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/nftokenmodify#nftokenmodify-fields
+ */
+export const xrplNFTokenModifyFieldsSchema = z.object({
+  // Required field
+  NFTokenID: z.string().describe('Identifies the NFToken to modify. The NFT must have the tfMutable flag'),
+
+  // Optional fields
+  Owner: z
+    .string()
+    .optional()
+    .describe('Address of the owner of the NFT, if the owner is not the account sending this transaction'),
+  URI: z
+    .string()
+    .max(256)
+    .optional()
+    .describe(
+      'Up to 256 bytes of arbitrary data, this will be hex encoded by the mastra tool. Typically a URI pointing to NFT metadata. Omit to remove the URI of the NFT',
+    ),
+})
+
+/**
+ * Complete NFTokenModify transaction schema
+ */
+export const xrplNFTokenModifySchema = xrplCommonFieldsSchema
+  .merge(xrplNFTokenModifyFieldsSchema)
+  .extend({ TransactionType: z.literal('NFTokenModify') })
+
+export type XrplNFTokenModifyFields = z.infer<typeof xrplNFTokenModifyFieldsSchema>
+export type XrplNFTokenModify = z.infer<typeof xrplNFTokenModifySchema>
@@ -0,0 +1,81 @@
+import { isNumber, isUndefined } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { getPaymentChannelClaimFlagValue, xrplPaymentChannelClaimSchema } from './payment-channel-claim.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplPaymentChannelClaimSchema,
+})
+
+export const submitPaymentChannelClaimTool = createTransactionTool({
+  toolId: 'submit-payment-channel-claim',
+  description: `Submit a PaymentChannelClaim transaction to redeem XRP from a payment channel, renew it or request to close it.
+
+## What is PaymentChannelClaim?
+The destination uses it to redeem signed claims and receive XRP. The source uses it to deliver XRP without a signature, to renew the channel or to request to close it.
+
+## Required Fields:
+- **Channel**: ID of the channel (use getAccountChannelsTool to find it)
+
+## Optional Fields:
+- **Balance**: Total XRP in drops delivered by the channel after this claim (required to deliver XRP)
+- **Amount**: XRP in drops authorized by the Signature
+- **Signature**: Hex signature of the claim, produced by the signPaymentChannelClaimTool (required when the destination redeems)
+- **PublicKey**: Hex public key of the channel (required with Signature)
+- **CredentialIDs**: Credential entries authorizing the deposit if the destination uses Deposit Auth
+
+## PaymentChannelClaim Flags:
+- **tfRenew** (65536): Clear the Expiration of the channel (source only)
+- **tfClose** (131072): Request to close the channel
+  - The source closes it immediately if it holds no XRP, otherwise after SettleDelay
+  - The destination closes it immediately and returns the remaining XRP to the source
+
+## Important Notes:
+- Balance is cumulative: it is the total delivered by the channel so far, not the increment
+- Signature, PublicKey and Amount must be provided together when redeeming a claim
+- Verify claims with the verifyPaymentChannelClaimTool before redeeming them
+- tfRenew and tfClose cannot be used together
+
+## Common Error Cases:
+- **tecNO_ENTRY**: The channel does not exist
+- **tecNO_PERMISSION**: The sender is neither the source nor the destination, or deposit not authorized
+- **tecUNFUNDED_PAYMENT**: Balance is more than the XRP held by the channel
+- **temBAD_AMOUNT**: Balance is higher than the Amount of the claim
+- **temBAD_SIGNATURE**: The signature does not match the claim or the public key
+- **temMALFORMED**: Invalid combination of fields or flags
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rsA2LpzuawewSBQXkiju3YQTMzW13pAAdW",
+  "Channel": "C1AE6DDDEEC05CF2978C0BAD6FE302948E9533691DC749DCDD3B9E5992CA6198",
+  "Balance": "1000000",
+  "Amount": "1000000",
+  "Signature": "30440220718D264EF05CAED7C781FF6DE298DCAC68D002562C9BF3A07C1E721B420C0DAB02203A5A4779EF4D2CCC7BC3EF886676D803A9981B928D3B8ACA483B80ECA3CD7B9B",
+  "PublicKey": "32D2471DB72B27E3310F355BB33E339BF26F8392D5A93D3BC0FC3B566612DA0F0A",
+  "TransactionType": "PaymentChannelClaim"
+}
+\`\`\``,
+  buildTransaction: paymentChannelClaim => {
+    return paymentChannelClaim
+  },
+  validateTransaction: params => {
+    if (!isUndefined(params.Signature) && (isUndefined(params.PublicKey) || isUndefined(params.Amount))) {
+      throw new Error('PublicKey and Amount must be provided with Signature')
+    }
+
+    if (!isUndefined(params.Signature) && isUndefined(params.Balance)) {
+      throw new Error('Balance must be provided to redeem a signed claim')
+    }
+
+    if (!isUndefined(params.Balance) && !isUndefined(params.Amount) && Number(params.Balance) > Number(params.Amount)) {
+      throw new Error('Balance cannot be more than the Amount authorized by the claim')
+    }
+
+    const flags = isNumber(params.Flags) ? params.Flags : 0
+    const tfRenew = getPaymentChannelClaimFlagValue('tfRenew')
+    const tfClose = getPaymentChannelClaimFlagValue('tfClose')
+    if ((flags & tfRenew) !== 0 && (flags & tfClose) !== 0) {
+      throw new Error('tfRenew and tfClose cannot be used together')
+    }
+  },
+})
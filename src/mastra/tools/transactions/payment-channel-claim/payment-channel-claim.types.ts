@@ -0,0 +1,71 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * PaymentChannelClaim flags that can be used to renew or close a channel
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/paymentchannelclaim#paymentchannelclaim-flags
+ */
+export const PaymentChannelClaimFlagsSchema = z.enum([
+  'tfRenew', // 65536 - Clear the channel's Expiration time (source only)
+  'tfClose', // 131072 - Request to close the channel
+])
+
+export type PaymentChannelClaimFlags = z.infer<typeof PaymentChannelClaimFlagsSchema>
+
+/**
+ * PaymentChannelClaim-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/paymentchannelclaim#paymentchannelclaim-fields
+ */
+export const xrplPaymentChannelClaimFieldsSchema = z.object({
+  // Required field
+  Channel: z.string().describe('The unique ID of the channel, as a 64-character hexadecimal string'),
+
+  // Optional fields
+  Balance: z
+    .string()
+    .optional()
+    .describe(
+      'Total amount of XRP, in drops, delivered by this channel after processing this claim. Required to deliver XRP. Must be more than the total amount delivered so far, but not more than the Amount of the signed claim',
+    ),
+  Amount: z
+    .string()
+    .optional()
+    .describe('The amount of XRP, in drops, authorized by the Signature. Must match the amount in the signed message'),
+  Signature: z
+    .string()
+    .optional()
+    .describe(
+      'The signature of this claim, as hexadecimal. Required unless the sender of the transaction is the source of the channel',
+    ),
+  PublicKey: z
+    .string()
+    .optional()
+    .describe(
+      'The public key used for the signature, as hexadecimal. Must match the PublicKey of the channel. Required if Signature is provided',
+    ),
+  CredentialIDs: z
+    .array(z.string())
+    .optional()
+    .describe('Ledger entry IDs of Credential entries to authorize the deposit when the destination uses Deposit Auth'),
+})
+
+/**
+ * Complete PaymentChannelClaim transaction schema
+ */
+export const xrplPaymentChannelClaimSchema = xrplCommonFieldsSchema
+  .merge(xrplPaymentChannelClaimFieldsSchema)
+  .extend({ TransactionType: z.literal('PaymentChannelClaim') })
+
+export type XrplPaymentChannelClaimFields = z.infer<typeof xrplPaymentChannelClaimFieldsSchema>
+export type XrplPaymentChannelClaim = z.infer<typeof xrplPaymentChannelClaimSchema>
+
+/**
+ * Helper function to convert PaymentChannelClaim flag names to numeric values
+ */
+export const getPaymentChannelClaimFlagValue = (flagName: PaymentChannelClaimFlags): number => {
+  const flagValues: Record<PaymentChannelClaimFlags, number> = {
+    tfRenew: 65536,
+    tfClose: 131072,
+  }
+  return flagValues[flagName]
+}
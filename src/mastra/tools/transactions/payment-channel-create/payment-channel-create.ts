@@ -0,0 +1,69 @@
+import { PaymentChannelCreate } from 'xrpl'
+import { isUndefined, toRippleTime } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { xrplPaymentChannelCreateSchema } from './payment-channel-create.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplPaymentChannelCreateSchema,
+})
+
+export const submitPaymentChannelCreateTool = createTransactionTool({
+  toolId: 'submit-payment-channel-create',
+  description: `Submit a PaymentChannelCreate transaction to open a payment channel and fund it with XRP.
+
+## What is a Payment Channel?
+A payment channel sets XRP aside so the source can send many small, fast payments to the destination off-ledger by signing claims. The destination redeems the claims on-ledger whenever it wants with PaymentChannelClaim.
+
+## Required Fields:
+- **Amount**: XRP in drops to set aside in the channel
+- **Destination**: Account that receives the claims
+- **SettleDelay**: Seconds the source must wait before closing the channel if it still holds unclaimed XRP
+- **PublicKey**: Hex public key of the key pair that will sign claims (the public key of the source wallet)
+
+## Optional Fields:
+- **CancelAfter**: Immutable expiration of the channel (Ripple Epoch seconds or ISO 8601 date, converted by the tool)
+- **DestinationTag**: Arbitrary tag to identify the destination
+
+## Important Notes:
+- Payment channels only support XRP
+- The channel ID is in the CreatedNode of the transaction metadata, or use getAccountChannelsTool
+- Sign claims off-ledger with the signPaymentChannelClaimTool, the destination verifies them with the verifyPaymentChannelClaimTool
+- Choose a SettleDelay long enough for the destination to redeem its claims before the channel closes
+
+## Common Error Cases:
+- **tecNO_DST**: Destination account does not exist
+- **tecDST_TAG_NEEDED**: Destination requires a destination tag
+- **tecNO_PERMISSION**: Destination disallows incoming payment channels
+- **tecUNFUNDED**: Insufficient XRP to fund the channel and keep the reserve
+- **temDST_IS_SRC**: Destination is the same as Account
+- **temBAD_AMOUNT**: Amount is not a positive XRP amount
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "Amount": "10000",
+  "Destination": "rsA2LpzuawewSBQXkiju3YQTMzW13pAAdW",
+  "SettleDelay": 86400,
+  "PublicKey": "32D2471DB72B27E3310F355BB33E339BF26F8392D5A93D3BC0FC3B566612DA0F0A",
+  "CancelAfter": 533171558,
+  "DestinationTag": 23480,
+  "TransactionType": "PaymentChannelCreate"
+}
+\`\`\``,
+  buildTransaction: paymentChannelCreate => {
+    const { CancelAfter, ...rest } = paymentChannelCreate
+
+    const builtPaymentChannelCreate: PaymentChannelCreate = {
+      ...rest,
+      CancelAfter: isUndefined(CancelAfter) ? undefined : toRippleTime(CancelAfter),
+    }
+
+    return builtPaymentChannelCreate
+  },
+  validateTransaction: params => {
+    if (params.Destination === params.Account) {
+      throw new Error('Cannot open a payment channel to yourself (Destination cannot be the same as Account)')
+    }
+  },
+})
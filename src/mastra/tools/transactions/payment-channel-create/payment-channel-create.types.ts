@@ -0,0 +1,50 @@
+import { z } from 'zod'
+import { xrplRippleTimeSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * PaymentChannelCreate-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/paymentchannelcreate#paymentchannelcreate-fields
+ */
+export const xrplPaymentChannelCreateFieldsSchema = z.object({
+  // Required fields
+  Amount: z
+    .string()
+    .describe('Amount of XRP, in drops, to deduct from the sender and set aside in this channel (e.g., "1000000")'),
+  Destination: z.string().describe('Address to receive XRP claims against this channel (r-address)'),
+  SettleDelay: z
+    .number()
+    .int()
+    .gte(0)
+    .describe(
+      'Amount of time, in seconds, the source address must wait before closing the channel if it has unclaimed XRP',
+    ),
+  PublicKey: z
+    .string()
+    .describe(
+      'The 33-byte public key of the key pair the source will use to sign claims against this channel, in hexadecimal',
+    ),
+
+  // Optional fields
+  CancelAfter: xrplRippleTimeSchema
+    .optional()
+    .describe(
+      'Immutable expiration time for the channel. Seconds since the Ripple Epoch or an ISO 8601 date. Cannot be changed after the channel is created',
+    ),
+  DestinationTag: z
+    .number()
+    .int()
+    .gte(0)
+    .optional()
+    .describe('Arbitrary tag to further specify the destination for this payment channel'),
+})
+
+/**
+ * Complete PaymentChannelCreate transaction schema
+ */
+export const xrplPaymentChannelCreateSchema = xrplCommonFieldsSchema
+  .merge(xrplPaymentChannelCreateFieldsSchema)
+  .extend({ TransactionType: z.literal('PaymentChannelCreate') })
+
+export type XrplPaymentChannelCreateFields = z.infer<typeof xrplPaymentChannelCreateFieldsSchema>
+export type XrplPaymentChannelCreate = z.infer<typeof xrplPaymentChannelCreateSchema>
@@ -0,0 +1 @@
+export * from './payment-channel-fund'
@@ -0,0 +1,51 @@
+import { PaymentChannelFund } from 'xrpl'
+import { isUndefined, toRippleTime } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { xrplPaymentChannelFundSchema } from './payment-channel-fund.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplPaymentChannelFundSchema,
+})
+
+export const submitPaymentChannelFundTool = createTransactionTool({
+  toolId: 'submit-payment-channel-fund',
+  description: `Submit a PaymentChannelFund transaction to add XRP to an open payment channel, and optionally update its expiration.
+
+## Required Fields:
+- **Channel**: ID of the channel to fund (use getAccountChannelsTool to find it)
+- **Amount**: XRP in drops to add to the channel
+
+## Optional Fields:
+- **Expiration**: New expiration of the channel (Ripple Epoch seconds or ISO 8601 date, converted by the tool)
+
+## Important Notes:
+- Only the source of the channel can fund it
+- Funding a channel that is scheduled to close (has an Expiration) does not cancel the close, set a new Expiration or use PaymentChannelClaim with tfRenew
+
+## Common Error Cases:
+- **tecNO_ENTRY**: The channel does not exist
+- **tecNO_PERMISSION**: The sender is not the source of the channel
+- **tecUNFUNDED**: Insufficient XRP to add to the channel
+- **temBAD_EXPIRY**: Expiration is earlier than the current time plus SettleDelay
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "Channel": "C1AE6DDDEEC05CF2978C0BAD6FE302948E9533691DC749DCDD3B9E5992CA6198",
+  "Amount": "200000",
+  "Expiration": 543171558,
+  "TransactionType": "PaymentChannelFund"
+}
+\`\`\``,
+  buildTransaction: paymentChannelFund => {
+    const { Expiration, ...rest } = paymentChannelFund
+
+    const builtPaymentChannelFund: PaymentChannelFund = {
+      ...rest,
+      Expiration: isUndefined(Expiration) ? undefined : toRippleTime(Expiration),
+    }
+
+    return builtPaymentChannelFund
+  },
+})
@@ -0,0 +1,30 @@
+import { z } from 'zod'
+import { xrplRippleTimeSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * PaymentChannelFund-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/paymentchannelfund#paymentchannelfund-fields
+ */
+export const xrplPaymentChannelFundFieldsSchema = z.object({
+  // Required fields
+  Channel: z.string().describe('The unique ID of the channel to fund, as a 64-character hexadecimal string'),
+  Amount: z.string().describe('Amount of XRP, in drops, to add to the channel. Must be a positive amount of XRP'),
+
+  // Optional field
+  Expiration: xrplRippleTimeSchema
+    .optional()
+    .describe(
+      'New mutable expiration time for the channel. Seconds since the Ripple Epoch or an ISO 8601 date. Must be later than the current time plus the SettleDelay of the channel',
+    ),
+})
+
+/**
+ * Complete PaymentChannelFund transaction schema
+ */
+export const xrplPaymentChannelFundSchema = xrplCommonFieldsSchema
+  .merge(xrplPaymentChannelFundFieldsSchema)
+  .extend({ TransactionType: z.literal('PaymentChannelFund') })
+
+export type XrplPaymentChannelFundFields = z.infer<typeof xrplPaymentChannelFundFieldsSchema>
+export type XrplPaymentChannelFund = z.infer<typeof xrplPaymentChannelFundSchema>
@@ -1,9 +1,10 @@
 import { isMPTAmount, Payment } from 'xrpl'
 import { currencyCodeToHex } from '../../../../helpers'
 import { useTransactionToolFactory } from '../factory'
-import { xrplPaymentSchema } from './payment.types'
+import { assertDepositAuthorized } from '../shared'
+import { xrplPaymentToolSchema } from './payment.types'
 
-const { createTransactionTool } = useTransactionToolFactory({ inputSchema: xrplPaymentSchema })
+const { createTransactionTool } = useTransactionToolFactory({ inputSchema: xrplPaymentToolSchema })
 
 /**
  * Helper function to process payment amounts (Amount or DeliverMax)
@@ -43,9 +44,10 @@ export const submitPaymentTool = createTransactionTool({
 - Partial payments can exploit integrations that assume exact delivery amounts
 - Paths field is auto-fillable by the server for cross-currency payments
 - Quality limits help avoid unfavorable exchange rates
-- Deposit authorization requires preauthorized credentials
+- Destinations with Deposit Authorization only accept payments from preauthorized senders, or senders presenting accepted credentials (CredentialIDs)
+- Unless checkDepositAuth is false, the tool checks with deposit_authorized that the destination accepts the payment before signing, and fails with a clear message instead of tecNO_PERMISSION
 - MPT payments only support direct transfers, not DEX trading`,
-  buildTransaction: payment => {
+  buildTransaction: ({ checkDepositAuth, ...payment }) => {
     const builtPayment: Payment = {
       ...payment,
       Amount: payment.DeliverMax ? undefined : processPaymentAmount(payment.Amount),
@@ -54,9 +56,19 @@ export const submitPaymentTool = createTransactionTool({
 
     return builtPayment
   },
-  validateTransaction: params => {
+  validateTransaction: async (params, { network, mastra, input }) => {
     if (params.Amount === undefined && params.DeliverMax === undefined) {
       throw new Error('Provide Amount (API v1) or DeliverMax (API v2)')
     }
+
+    if (input.checkDepositAuth !== false) {
+      await assertDepositAuthorized({
+        network,
+        source: params.Account,
+        destination: params.Destination,
+        credentials: params.CredentialIDs,
+        mastra,
+      })
+    }
   },
 })
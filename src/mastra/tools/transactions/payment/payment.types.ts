@@ -70,5 +70,15 @@ export const xrplPaymentSchema = xrplCommonFieldsSchema
   .merge(xrplPaymentFieldsSchema)
   .extend({ TransactionType: z.literal('Payment') })
 
+// Options of the payment tool, not part of the transaction
+export const xrplPaymentToolSchema = xrplPaymentSchema.extend({
+  checkDepositAuth: z
+    .boolean()
+    .default(true)
+    .describe(
+      'Check with deposit_authorized that the destination accepts the payment before signing, to fail fast instead of with tecNO_PERMISSION',
+    ),
+})
+
 export type XrplPaymentFields = z.infer<typeof xrplPaymentFieldsSchema>
 export type XrplPayment = z.infer<typeof xrplPaymentSchema>
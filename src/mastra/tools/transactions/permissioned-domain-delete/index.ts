@@ -0,0 +1 @@
+export * from './permissioned-domain-delete'
@@ -0,0 +1,43 @@
+import { useTransactionToolFactory } from '../factory'
+import { getPermissionedDomain } from '../shared'
+import { xrplPermissionedDomainDeleteSchema } from './permissioned-domain-delete.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplPermissionedDomainDeleteSchema,
+})
+
+export const submitPermissionedDomainDeleteTool = createTransactionTool({
+  toolId: 'submit-permissioned-domain-delete',
+  description: `Submit a PermissionedDomainDelete transaction to delete a permissioned domain you own.
+
+## Required Fields:
+- **DomainID**: Ledger entry ID of the domain to delete
+
+## Important Business Rules:
+- Only the owner of the domain can delete it
+- Deleting the domain frees its owner reserve
+- Features restricted to the domain, such as permissioned DEX offers, stop accepting its members
+
+## Common Error Cases:
+- **tecNO_ENTRY**: The domain doesn't exist
+- **tecNO_PERMISSION**: The Account doesn't own the domain
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "DomainID": "77D6234D074E505024D39C04C3F262997B773719AB29ACFA83119E4210328776",
+  "TransactionType": "PermissionedDomainDelete"
+}
+\`\`\``,
+  buildTransaction: permissionedDomainDelete => {
+    return permissionedDomainDelete
+  },
+  validateTransaction: async (params, { network, mastra }) => {
+    const domain = await getPermissionedDomain(network, params.DomainID, mastra)
+
+    if (domain.Owner !== params.Account) {
+      throw new Error(`Permissioned domain ${params.DomainID} is owned by ${domain.Owner}, not ${params.Account}`)
+    }
+  },
+})
@@ -0,0 +1,22 @@
+import { z } from 'zod'
+import { xrplDomainIdSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * PermissionedDomainDelete-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/permissioneddomaindelete#permissioneddomaindelete-fields
+ */
+export const xrplPermissionedDomainDeleteFieldsSchema = z.object({
+  // Required field
+  DomainID: xrplDomainIdSchema.describe('Ledger entry ID of the domain to delete'),
+})
+
+/**
+ * Complete PermissionedDomainDelete transaction schema
+ */
+export const xrplPermissionedDomainDeleteSchema = xrplCommonFieldsSchema
+  .merge(xrplPermissionedDomainDeleteFieldsSchema)
+  .extend({ TransactionType: z.literal('PermissionedDomainDelete') })
+
+export type XrplPermissionedDomainDeleteFields = z.infer<typeof xrplPermissionedDomainDeleteFieldsSchema>
+export type XrplPermissionedDomainDelete = z.infer<typeof xrplPermissionedDomainDeleteSchema>
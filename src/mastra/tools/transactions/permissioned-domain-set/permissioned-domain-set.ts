@@ -0,0 +1,82 @@
+import { PermissionedDomainSet } from 'xrpl'
+import { useTransactionToolFactory } from '../factory'
+import { getPermissionedDomain, toAuthorizeCredentials } from '../shared'
+import { xrplPermissionedDomainSetSchema } from './permissioned-domain-set.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplPermissionedDomainSetSchema,
+})
+
+export const submitPermissionedDomainSetTool = createTransactionTool({
+  toolId: 'submit-permissioned-domain-set',
+  description: `Submit a PermissionedDomainSet transaction to create a permissioned domain, or to replace the credentials an existing domain accepts.
+
+## What is a Permissioned Domain?
+A permissioned domain is a group of accounts defined by the credentials they hold: any account holding an accepted, unexpired credential of one of the kinds the domain accepts is a member, and the owner of the domain always is. Features such as permissioned DEXes restrict access to the members of a domain.
+
+## Required Fields:
+- **AcceptedCredentials**: 1 to 10 kinds of credentials accepted by the domain, each with:
+  - Credential.Issuer: Address of the issuer of the credential
+  - Credential.CredentialType: Type of the credential as plain text, hex-encoded automatically
+
+## Optional Fields:
+- **DomainID**: Ledger entry ID of the domain to update. Omit it to create a new domain
+
+## Important Business Rules:
+- The Account submitting the transaction owns the domain, only the owner can update or delete it
+- Updating a domain replaces its whole list of accepted credentials
+- Each kind of credential can only be listed once
+- The issuers of the credentials must exist
+- A domain counts toward the owner reserve of its owner
+- The ID of a new domain is the LedgerIndex of the PermissionedDomain created in the transaction metadata, it is also listed by account_objects
+- Use check-domain-membership to see the credentials a domain accepts and whether an account is a member
+- Requires the PermissionedDomains amendment
+
+## Common Error Cases:
+- **temMALFORMED**: Empty, too long or duplicate AcceptedCredentials
+- **tecNO_ENTRY**: The domain to update doesn't exist
+- **tecNO_PERMISSION**: The Account doesn't own the domain to update
+- **tecNO_ISSUER**: The issuer of a credential doesn't exist
+- **tecINSUFFICIENT_RESERVE**: Not enough XRP for the owner reserve
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "AcceptedCredentials": [
+    {
+      "Credential": {
+        "Issuer": "ra5nK24KXen9AHvsdFTKHSANinZseWnPcX",
+        "CredentialType": "KYC"
+      }
+    }
+  ],
+  "TransactionType": "PermissionedDomainSet"
+}
+\`\`\``,
+  buildTransaction: ({ AcceptedCredentials, ...permissionedDomainSet }) => {
+    const builtPermissionedDomainSet: PermissionedDomainSet = {
+      ...permissionedDomainSet,
+      AcceptedCredentials: toAuthorizeCredentials(AcceptedCredentials) ?? [],
+    }
+
+    return builtPermissionedDomainSet
+  },
+  validateTransaction: async (params, { network, mastra }) => {
+    const keys = params.AcceptedCredentials.map(({ Credential }) => `${Credential.Issuer}:${Credential.CredentialType}`)
+
+    if (new Set(keys).size !== keys.length) {
+      throw new Error('AcceptedCredentials must not list the same credential twice')
+    }
+
+    if (params.DomainID === undefined) {
+      return
+    }
+
+    const domain = await getPermissionedDomain(network, params.DomainID, mastra)
+
+    if (domain.Owner !== params.Account) {
+      throw new Error(`Permissioned domain ${params.DomainID} is owned by ${domain.Owner}, not ${params.Account}`)
+    }
+  },
+})
@@ -0,0 +1,27 @@
+import { z } from 'zod'
+import { xrplAcceptedCredentialsSchema, xrplDomainIdSchema } from '../shared'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * PermissionedDomainSet-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/permissioneddomainset#permissioneddomainset-fields
+ */
+export const xrplPermissionedDomainSetFieldsSchema = z.object({
+  // Required field
+  AcceptedCredentials: xrplAcceptedCredentialsSchema,
+
+  // Optional field
+  DomainID: xrplDomainIdSchema
+    .optional()
+    .describe('Ledger entry ID of the domain to update. Omit to create a new domain'),
+})
+
+/**
+ * Complete PermissionedDomainSet transaction schema
+ */
+export const xrplPermissionedDomainSetSchema = xrplCommonFieldsSchema
+  .merge(xrplPermissionedDomainSetFieldsSchema)
+  .extend({ TransactionType: z.literal('PermissionedDomainSet') })
+
+export type XrplPermissionedDomainSetFields = z.infer<typeof xrplPermissionedDomainSetFieldsSchema>
+export type XrplPermissionedDomainSet = z.infer<typeof xrplPermissionedDomainSetSchema>
@@ -0,0 +1 @@
+export * from './set-regular-key'
@@ -0,0 +1,58 @@
+import { useTransactionToolFactory } from '../factory'
+import { getAccountKeys } from '../shared'
+import { xrplSetRegularKeySchema } from './set-regular-key.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplSetRegularKeySchema,
+})
+
+export const submitSetRegularKeyTool = createTransactionTool({
+  toolId: 'submit-set-regular-key',
+  description: `Submit a SetRegularKey transaction to assign, change or remove the regular key pair of an account.
+
+## What is SetRegularKey?
+A regular key pair is a secondary key pair that can sign transactions for the account, like the master key pair. Unlike the master key pair, it can be changed or removed at any time, so it can be rotated if it is compromised while the master key is kept offline or disabled.
+
+## Optional Fields:
+- **RegularKey**: Address of the regular key pair to assign, e.g. the address of a wallet created with create-wallet. Omit it to remove the regular key
+
+## Important Business Rules:
+- The regular key can't be the address of the account itself
+- The regular key doesn't need to be a funded account
+- Removing the regular key is rejected when the master key is disabled and the account has no signer list, since nothing could sign for it anymore
+- The first SetRegularKey of an account can be sent without a fee (key reset transaction), but the autofilled fee is used here
+- To rotate keys safely, use the key rotation workflow: it assigns a new regular key, proves it can sign, and only then disables the master key
+
+## Common Error Cases:
+- **temBAD_REGKEY**: The regular key is the address of the account
+- **tecNO_ALTERNATIVE_KEY**: Removing the regular key would leave the account without a usable key
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "RegularKey": "rAR8rR8sUkBoCZFawhkWzY4Y5YoyuznwD",
+  "TransactionType": "SetRegularKey"
+}
+\`\`\``,
+  buildTransaction: setRegularKey => {
+    return setRegularKey
+  },
+  validateTransaction: async (params, { network, mastra }) => {
+    if (params.RegularKey === params.Account) {
+      throw new Error('The regular key cannot be the address of the account')
+    }
+
+    if (params.RegularKey !== undefined) {
+      return
+    }
+
+    const { masterDisabled, hasSignerList } = await getAccountKeys(network, params.Account, mastra)
+
+    if (masterDisabled && !hasSignerList) {
+      throw new Error(
+        `Removing the regular key of ${params.Account} would leave it without any key, since its master key is disabled and it has no signer list`,
+      )
+    }
+  },
+})
@@ -0,0 +1,24 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * SetRegularKey-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/setregularkey#setregularkey-fields
+ */
+export const xrplSetRegularKeyFieldsSchema = z.object({
+  // Optional field
+  RegularKey: z
+    .string()
+    .optional()
+    .describe('Address of the regular key pair to assign to the account. Omit to remove the regular key'),
+})
+
+/**
+ * Complete SetRegularKey transaction schema
+ */
+export const xrplSetRegularKeySchema = xrplCommonFieldsSchema
+  .merge(xrplSetRegularKeyFieldsSchema)
+  .extend({ TransactionType: z.literal('SetRegularKey') })
+
+export type XrplSetRegularKeyFields = z.infer<typeof xrplSetRegularKeyFieldsSchema>
+export type XrplSetRegularKey = z.infer<typeof xrplSetRegularKeySchema>
@@ -0,0 +1,127 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { AccountInfoResponse, AccountObjectsResponse, LedgerEntry, RippledError } from 'xrpl'
+import { getAccountDeleteBlockers, requestWithFailover } from '../../../../helpers'
+import { getDepositAuthorized } from './deposit-authorized'
+
+type CheckAccountDeleteProps = {
+  network: string
+  // The account to delete
+  account: string
+  // The account receiving the remaining XRP
+  destination: string
+  destinationTag?: number
+  mastra?: ToolExecutionContext['mastra']
+}
+
+/**
+ * Outcome of the pre-flight check of an AccountDelete
+ */
+export type AccountDeleteCheck = {
+  eligible: boolean
+  // What prevents the deletion, each with how to remove it
+  blockers: string[]
+  // The validated ledger the check is based on
+  ledgerIndex: number
+}
+
+// Get an account from the validated ledger, undefined if it doesn't exist
+const getAccountRoot = async (
+  network: string,
+  account: string,
+  mastra?: ToolExecutionContext['mastra'],
+): Promise<{ accountRoot?: LedgerEntry.AccountRoot; ledgerIndex?: number }> => {
+  try {
+    const response = await requestWithFailover(
+      network,
+      { command: 'account_info', account, ledger_index: 'validated' },
+      mastra,
+    )
+    const { account_data, ledger_index } = response.result as AccountInfoResponse['result']
+
+    return { accountRoot: account_data, ledgerIndex: ledger_index }
+  } catch (error) {
+    if (error instanceof RippledError && (error.data as { error?: string } | undefined)?.error === 'actNotFound') {
+      return {}
+    }
+    throw error
+  }
+}
+
+// Get every object owned by an account that blocks its deletion
+const getBlockingObjects = async (
+  network: string,
+  account: string,
+  mastra?: ToolExecutionContext['mastra'],
+): Promise<LedgerEntry.LedgerEntry[]> => {
+  const objects: LedgerEntry.LedgerEntry[] = []
+  let marker: unknown
+
+  do {
+    const response = await requestWithFailover(
+      network,
+      {
+        command: 'account_objects',
+        account,
+        deletion_blockers_only: true,
+        ledger_index: 'validated',
+        limit: 400,
+        marker,
+      },
+      mastra,
+    )
+    const result = response.result as AccountObjectsResponse['result']
+
+    objects.push(...result.account_objects)
+    marker = result.marker
+  } while (marker)
+
+  return objects
+}
+
+/**
+ * Check that an account can be deleted with AccountDelete before paying its fee, an owner reserve
+ *
+ * Reads the account (sequence, minted NFTs), the objects blocking its deletion (trust lines, escrows, payment
+ * channels, checks, NFT pages...), and whether the destination exists and accepts the XRP (destination tag,
+ * deposit authorization) from the validated ledger.
+ * @throws If the account doesn't exist
+ */
+export const checkAccountDelete = async ({
+  network,
+  account,
+  destination,
+  destinationTag,
+  mastra,
+}: CheckAccountDeleteProps): Promise<AccountDeleteCheck> => {
+  const logger = mastra?.getLogger()
+
+  const [source, blockingObjects, target] = await Promise.all([
+    getAccountRoot(network, account, mastra),
+    getBlockingObjects(network, account, mastra),
+    getAccountRoot(network, destination, mastra),
+  ])
+
+  if (!source.accountRoot || source.ledgerIndex === undefined) {
+    throw new Error(`Account ${account} does not exist`)
+  }
+
+  // A destination that doesn't exist is already a blocker
+  const depositAuthorized =
+    !target.accountRoot ||
+    destination === account ||
+    (await getDepositAuthorized({ network, source: account, destination, mastra })) !== false
+
+  const blockers = getAccountDeleteBlockers({
+    account: source.accountRoot,
+    ledgerIndex: source.ledgerIndex,
+    blockingObjects,
+    destinationAddress: destination,
+    destination: target.accountRoot,
+    destinationTag,
+    depositAuthorized,
+  })
+
+  logger?.info('AccountDelete pre-flight check', { network, account, destination, blockers })
+
+  return { eligible: blockers.length === 0, blockers, ledgerIndex: source.ledgerIndex }
+}
@@ -0,0 +1,58 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { AccountInfoResponse, parseAccountRootFlags } from 'xrpl'
+import { requestWithFailover } from '../../../../helpers'
+
+/**
+ * Keys that can authorize transactions for an account
+ */
+export type AccountKeys = {
+  // Whether the master key pair is disabled
+  masterDisabled: boolean
+  // The address of the regular key pair, if any
+  regularKey?: string
+  // Whether the account has a signer list for multi-signing
+  hasSignerList: boolean
+}
+
+/**
+ * Get the keys that can authorize transactions for an account, from the validated ledger
+ * @param network - The network to use
+ * @param account - The address of the account
+ * @param mastra - The mastra instance, for logging
+ */
+export const getAccountKeys = async (
+  network: string,
+  account: string,
+  mastra?: ToolExecutionContext['mastra'],
+): Promise<AccountKeys> => {
+  const response = await requestWithFailover(
+    network,
+    { command: 'account_info', account, ledger_index: 'validated', signer_lists: true },
+    mastra,
+  )
+  const { account_data, signer_lists } = response.result as AccountInfoResponse['result']
+
+  return {
+    masterDisabled: parseAccountRootFlags(account_data.Flags).lsfDisableMaster === true,
+    regularKey: account_data.RegularKey,
+    hasSignerList: (signer_lists?.length ?? 0) > 0,
+  }
+}
+
+/**
+ * Check that an account keeps another way to sign before its master key is disabled
+ * @throws If the account has neither a regular key nor a signer list
+ */
+export const assertAlternativeKey = async (
+  network: string,
+  account: string,
+  mastra?: ToolExecutionContext['mastra'],
+) => {
+  const { regularKey, hasSignerList } = await getAccountKeys(network, account, mastra)
+
+  if (!regularKey && !hasSignerList) {
+    throw new Error(
+      `Disabling the master key of ${account} would leave it without any key: set a regular key or a signer list first, or use the key rotation workflow`,
+    )
+  }
+}
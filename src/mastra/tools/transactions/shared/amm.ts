@@ -0,0 +1,52 @@
+import { isNumber, isUndefined } from '../../../../helpers'
+
+/**
+ * Fields required and allowed by each mode of a transaction that uses mode flags (AMMDeposit, AMMWithdraw)
+ */
+export type AmmModeRules<F extends string, K extends string> = Record<F, { required: K[]; optional?: K[] }>
+
+type ValidateAmmModeProps<F extends string, K extends string> = {
+  // The transaction type, for error messages
+  transactionType: string
+  // The transaction to validate
+  txn: Partial<Record<K, unknown>> & { Flags?: unknown }
+  // Converts a mode flag name to its numeric value
+  getFlagValue: (flagName: F) => number
+  // The fields required and allowed by each mode
+  modes: AmmModeRules<F, K>
+}
+
+/**
+ * Validate that exactly one mode flag is set and that the transaction
+ * contains the fields required by this mode, and no field reserved to other modes
+ * @throws An error describing the first rule that is not respected
+ */
+export const validateAmmMode = <F extends string, K extends string>({
+  transactionType,
+  txn,
+  getFlagValue,
+  modes,
+}: ValidateAmmModeProps<F, K>) => {
+  const flags = isNumber(txn.Flags) ? txn.Flags : 0
+  const modeNames = Object.keys(modes) as F[]
+
+  const enabledModes = modeNames.filter(mode => (flags & getFlagValue(mode)) !== 0)
+  if (enabledModes.length !== 1) {
+    throw new Error(`${transactionType} requires exactly one mode flag in Flags: ${modeNames.join(', ')}`)
+  }
+
+  const [mode] = enabledModes
+  const { required, optional = [] } = modes[mode]
+
+  const missingFields = required.filter(field => isUndefined(txn[field]))
+  if (missingFields.length > 0) {
+    throw new Error(`${transactionType} with ${mode} requires ${missingFields.join(', ')}`)
+  }
+
+  const allowedFields: K[] = [...required, ...optional]
+  const modeFields = new Set(modeNames.flatMap(name => [...modes[name].required, ...(modes[name].optional ?? [])]))
+  const unexpectedFields = [...modeFields].filter(field => !allowedFields.includes(field) && !isUndefined(txn[field]))
+  if (unexpectedFields.length > 0) {
+    throw new Error(`${transactionType} with ${mode} does not allow ${unexpectedFields.join(', ')}`)
+  }
+}
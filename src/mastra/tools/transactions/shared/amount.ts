@@ -0,0 +1,40 @@
+import { Amount, Currency, isMPTAmount, IssuedCurrency, IssuedCurrencyAmount, MPTAmount } from 'xrpl'
+import { currencyCodeToHex, isString } from '../../../../helpers'
+
+/**
+ * Helper function to process transaction amount fields
+ * Handles string amounts (XRP), MPT amounts and currency objects (tokens)
+ */
+export const processAmount = <A extends Amount | MPTAmount>(amount: A): A => {
+  // If it's a string (XRP amount in drops) or an MPT amount, return as is
+  if (isString(amount) || isMPTAmount(amount)) {
+    return amount
+  }
+
+  // If it's a currency object, convert currency to hex and return
+  const issuedAmount = amount as IssuedCurrencyAmount
+
+  return {
+    ...issuedAmount,
+    currency: currencyCodeToHex(issuedAmount.currency),
+  } as A
+}
+
+/**
+ * Helper function to process transaction asset fields (currency without amount)
+ * Handles XRP, MPT issuances and tokens
+ */
+export const processCurrency = <C extends Currency>(currency: C): C => {
+  // XRP and MPT issuances don't have a currency code to convert
+  if ('mpt_issuance_id' in currency || currency.currency === 'XRP') {
+    return currency
+  }
+
+  // If it's a token, convert currency to hex and return
+  const issuedCurrency = currency as IssuedCurrency
+
+  return {
+    ...issuedCurrency,
+    currency: currencyCodeToHex(issuedCurrency.currency),
+  } as C
+}
@@ -0,0 +1,70 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { AccountObjectsResponse, AuthorizeCredential, LedgerEntry } from 'xrpl'
+import { z } from 'zod'
+import { credentialTypeToHex, MAX_CREDENTIAL_TYPE_LENGTH, requestWithFailover } from '../../../../helpers'
+
+// Credential type, as plain text in the tool inputs
+export const xrplCredentialTypeSchema = z
+  .string()
+  .min(1)
+  .describe(
+    `Type of the credential as plain text, e.g. "KYC" (up to ${MAX_CREDENTIAL_TYPE_LENGTH} bytes). It is hex-encoded automatically`,
+  )
+
+// Credential inner object schema, identifying a kind of credential by its issuer and type
+export const xrplCredentialSchema = z.object({
+  Issuer: z.string().describe('Address of the issuer of the credential'),
+  CredentialType: xrplCredentialTypeSchema,
+})
+
+// Credential wrapper schema
+export const xrplAuthorizeCredentialSchema = z.object({
+  Credential: xrplCredentialSchema,
+})
+
+export type XrplAuthorizeCredential = z.infer<typeof xrplAuthorizeCredentialSchema>
+
+/**
+ * Convert credentials given with plain text types to their ledger format
+ * @param credentials - The credentials, undefined stays undefined
+ */
+export const toAuthorizeCredentials = (credentials?: XrplAuthorizeCredential[]): AuthorizeCredential[] | undefined =>
+  credentials?.map(({ Credential }) => ({
+    Credential: { Issuer: Credential.Issuer, CredentialType: credentialTypeToHex(Credential.CredentialType) },
+  }))
+
+/**
+ * Get the credentials an account issued or is the subject of, from the validated ledger
+ * @returns The Credential entries and the validated ledger index they were read from
+ */
+export const getAccountCredentials = async (
+  network: string,
+  account: string,
+  mastra?: ToolExecutionContext['mastra'],
+): Promise<{ credentials: LedgerEntry.Credential[]; ledgerIndex?: number }> => {
+  const credentials: LedgerEntry.Credential[] = []
+  let ledgerIndex: number | undefined
+  let marker: unknown
+
+  do {
+    const response = await requestWithFailover(
+      network,
+      {
+        command: 'account_objects',
+        account,
+        type: 'credential',
+        ledger_index: ledgerIndex ?? 'validated',
+        limit: 400,
+        marker,
+      },
+      mastra,
+    )
+    const result = response.result as AccountObjectsResponse['result']
+
+    credentials.push(...(result.account_objects as LedgerEntry.Credential[]))
+    ledgerIndex = result.ledger_index
+    marker = result.marker
+  } while (marker)
+
+  return { credentials, ledgerIndex }
+}
@@ -0,0 +1,62 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { DepositAuthorizedResponse, RippledError } from 'xrpl'
+import { requestWithFailover } from '../../../../helpers'
+
+type DepositAuthorizedProps = {
+  network: string
+  // The account sending the funds
+  source: string
+  // The account receiving the funds
+  destination: string
+  // Ledger entry IDs of the credentials presented by the source
+  credentials?: string[]
+  mastra?: ToolExecutionContext['mastra']
+}
+
+/**
+ * Check with deposit_authorized whether an account may send funds to another, on the validated ledger
+ * @returns Whether the deposit is authorized, or undefined if the destination doesn't exist
+ */
+export const getDepositAuthorized = async ({
+  network,
+  source,
+  destination,
+  credentials,
+  mastra,
+}: DepositAuthorizedProps): Promise<boolean | undefined> => {
+  try {
+    const response = await requestWithFailover(
+      network,
+      {
+        command: 'deposit_authorized',
+        source_account: source,
+        destination_account: destination,
+        credentials,
+        ledger_index: 'validated',
+      },
+      mastra,
+    )
+
+    return (response.result as DepositAuthorizedResponse['result']).deposit_authorized
+  } catch (error) {
+    if (error instanceof RippledError && (error.data as { error?: string } | undefined)?.error === 'dstActNotFound') {
+      return undefined
+    }
+    throw error
+  }
+}
+
+/**
+ * Fail fast when a destination doesn't accept funds from a source, instead of paying a fee for tecNO_PERMISSION
+ * A destination that doesn't exist yet is not checked, an XRP payment can create it.
+ * @throws If the destination requires deposit authorization and the source is not authorized
+ */
+export const assertDepositAuthorized = async (props: DepositAuthorizedProps) => {
+  const { source, destination, credentials } = props
+
+  if ((await getDepositAuthorized(props)) === false) {
+    throw new Error(
+      `${destination} requires deposit authorization and does not accept funds from ${source}${credentials?.length ? ' with the given credentials' : ''}: the destination must preauthorize the sender, or its credentials, with DepositPreauth`,
+    )
+  }
+}
@@ -1,4 +1,13 @@
+export * from './account-delete'
+export * from './account-keys'
+export * from './amm'
+export * from './amount'
 export * from './common-fields'
+export * from './credential'
 export * from './currency'
+export * from './deposit-authorized'
+export * from './permissioned-domain'
+export * from './ticket'
 export * from './transaction'
 export * from './transaction-fields'
+export * from './transaction-result'
@@ -0,0 +1,58 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { LedgerEntry, LedgerEntryResponse, RippledError } from 'xrpl'
+import { z } from 'zod'
+import { PermissionedDomain, requestWithFailover } from '../../../../helpers'
+import { xrplAuthorizeCredentialSchema } from './credential'
+
+/**
+ * Maximum number of credentials a permissioned domain accepts
+ */
+export const MAX_ACCEPTED_CREDENTIALS = 10
+
+// Kinds of credentials accepted by a permissioned domain, an account holding any of them is a member
+export const xrplAcceptedCredentialsSchema = z
+  .array(xrplAuthorizeCredentialSchema)
+  .min(1)
+  .max(MAX_ACCEPTED_CREDENTIALS)
+  .describe(
+    `1 to ${MAX_ACCEPTED_CREDENTIALS} kinds of credentials accepted by the domain, an account holding any of them is a member`,
+  )
+
+// Permissioned domain ID schema
+export const xrplDomainIdSchema = z
+  .string()
+  .regex(/^[0-9A-Fa-f]{64}$/)
+  .describe('Ledger entry ID of the permissioned domain (64 hex characters)')
+
+/**
+ * Get a permissioned domain from the validated ledger
+ * @throws If the domain doesn't exist
+ */
+export const getPermissionedDomain = async (
+  network: string,
+  domainId: string,
+  mastra?: ToolExecutionContext['mastra'],
+): Promise<PermissionedDomain> => {
+  let node: LedgerEntry.LedgerEntry | undefined
+
+  try {
+    const response = await requestWithFailover(
+      network,
+      { command: 'ledger_entry', index: domainId, ledger_index: 'validated' },
+      mastra,
+    )
+
+    node = (response.result as LedgerEntryResponse['result']).node
+  } catch (error) {
+    if (error instanceof RippledError && (error.data as { error?: string } | undefined)?.error === 'entryNotFound') {
+      throw new Error(`Permissioned domain ${domainId} not found`)
+    }
+    throw error
+  }
+
+  if (node?.LedgerEntryType !== 'PermissionedDomain') {
+    throw new Error(`${domainId} is not a permissioned domain but a ${node?.LedgerEntryType} entry`)
+  }
+
+  return node
+}
@@ -0,0 +1,179 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { Client, LedgerEntry, SubmittableTransaction, TicketCreate, Wallet } from 'xrpl'
+import { getNetworkKey, getXrplClient, ReliableSubmissionResult, submitWithSequence } from '../../../../helpers'
+
+/**
+ * Tickets of one account on one network that are being used or were used by this process
+ */
+type TicketBook = {
+  // Tickets reserved by a submission that hasn't finished yet
+  inFlight: Set<number>
+  // Tickets used by a validated transaction, kept until the ledger no longer lists them
+  consumed: Set<number>
+}
+
+// Ticket books keyed by network and account, so concurrent submissions never pick the same ticket. The network
+// name and its endpoint URLs share one book, otherwise they could hand out the same ticket twice
+const ticketBooks = new Map<string, TicketBook>()
+
+const getTicketBook = (network: string, account: string): TicketBook => {
+  const key = `${getNetworkKey(network)}:${account}`
+  let book = ticketBooks.get(key)
+
+  if (!book) {
+    book = { inFlight: new Set(), consumed: new Set() }
+    ticketBooks.set(key, book)
+  }
+
+  return book
+}
+
+/**
+ * Get the tickets of an account on the ledger that are neither in flight nor consumed
+ * @param client - The connected client to use
+ * @param account - The account owning the tickets
+ * @param book - The ticket book of the account
+ * @returns The available ticket sequence numbers, in ascending order
+ */
+const getAvailableTickets = async (client: Client, account: string, book: TicketBook): Promise<number[]> => {
+  const response = await client.request({
+    command: 'account_objects',
+    account,
+    type: 'ticket',
+    ledger_index: 'validated',
+    limit: 400,
+  })
+
+  const tickets = (response.result.account_objects as LedgerEntry.Ticket[]).map(ticket => ticket.TicketSequence)
+
+  // Forget consumed tickets once the validated ledger no longer lists them
+  for (const ticket of book.consumed) {
+    if (!tickets.includes(ticket)) {
+      book.consumed.delete(ticket)
+    }
+  }
+
+  return tickets.filter(ticket => !book.inFlight.has(ticket) && !book.consumed.has(ticket)).sort((a, b) => a - b)
+}
+
+/**
+ * Whether a submitted transaction used its ticket, which is the case for validated tes and tec results.
+ * Pending transactions may still use it, so their ticket is kept reserved too
+ */
+const isTicketConsumed = (result: ReliableSubmissionResult): boolean => {
+  return result.validated || result.status === 'pending'
+}
+
+type SubmitTransactionsWithTicketsProps<T extends SubmittableTransaction> = {
+  // The network to use
+  network: string
+  // The mastra instance to use
+  mastra?: ToolExecutionContext['mastra']
+  // The transactions to submit, all sent by the wallet's account
+  txns: T[]
+  // The wallet signing every transaction
+  wallet: Wallet
+}
+
+/**
+ * Result of one transaction submitted with a ticket
+ */
+export type TicketSubmissionResult<T extends SubmittableTransaction> = {
+  // The ticket used by the transaction
+  ticketSequence: number
+  // The outcome, if the transaction was submitted
+  response?: ReliableSubmissionResult<T>
+  // The error message, if the submission failed
+  error?: string
+}
+
+/**
+ * Submit transactions from one account concurrently, using one ticket per transaction
+ *
+ * Existing tickets of the account are used first, missing tickets are created with a TicketCreate.
+ * Tickets used by a validated or still pending transaction are marked as consumed, other tickets are released for later use.
+ * @param props - The properties to use
+ * @param props.network - The network to use
+ * @param props.txns - The transactions to submit
+ * @param props.wallet - The wallet signing every transaction
+ * @returns The result of each transaction, in the order of txns, with the consumed and released tickets
+ */
+export const submitTransactionsWithTickets = async <T extends SubmittableTransaction>({
+  mastra,
+  network,
+  txns,
+  wallet,
+}: SubmitTransactionsWithTicketsProps<T>) => {
+  const logger = mastra?.getLogger()
+  const account = wallet.classicAddress
+  const book = getTicketBook(network, account)
+
+  if (txns.some(txn => txn.Account !== account)) {
+    throw new Error(`All transactions must be sent by the wallet account ${account}`)
+  }
+
+  const client = await getXrplClient(network, mastra)
+  const reserved: number[] = []
+
+  try {
+    let available = await getAvailableTickets(client, account, book)
+
+    // Create the missing tickets in one transaction
+    if (available.length < txns.length) {
+      const ticketCreate: TicketCreate = {
+        TransactionType: 'TicketCreate',
+        Account: account,
+        TicketCount: txns.length - available.length,
+      }
+
+      logger?.info('Creating tickets', { account, count: ticketCreate.TicketCount })
+
+      const response = await submitWithSequence(client, ticketCreate, wallet, { mastra })
+
+      if (response.status !== 'success') {
+        throw new Error(`Failed to create tickets: ${response.status} (${response.engine_result})`)
+      }
+
+      available = await getAvailableTickets(client, account, book)
+    }
+
+    // Reserve one ticket per transaction
+    reserved.push(...available.slice(0, txns.length))
+    reserved.forEach(ticket => book.inFlight.add(ticket))
+
+    if (reserved.length < txns.length) {
+      throw new Error(`Only ${reserved.length} tickets available for ${txns.length} transactions`)
+    }
+
+    logger?.info('Submitting transactions with tickets', { account, tickets: reserved })
+
+    const settled = await Promise.allSettled(
+      txns.map((txn, index) =>
+        submitWithSequence(client, { ...txn, Sequence: 0, TicketSequence: reserved[index] }, wallet, { mastra }),
+      ),
+    )
+
+    const results: TicketSubmissionResult<T>[] = settled.map((outcome, index) =>
+      outcome.status === 'fulfilled'
+        ? { ticketSequence: reserved[index], response: outcome.value }
+        : {
+            ticketSequence: reserved[index],
+            error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+          },
+    )
+
+    const consumedTickets = results
+      .filter(({ response }) => response && isTicketConsumed(response))
+      .map(({ ticketSequence }) => ticketSequence)
+    consumedTickets.forEach(ticket => book.consumed.add(ticket))
+
+    return {
+      results,
+      consumedTickets,
+      releasedTickets: reserved.filter(ticket => !consumedTickets.includes(ticket)),
+    }
+  } finally {
+    // Tickets not marked as consumed become available again
+    reserved.forEach(ticket => book.inFlight.delete(ticket))
+  }
+}
@@ -13,3 +13,29 @@ export const xrplCurrencyAmountSchema = z.object({
   value: z.string().describe('Quoted decimal representation of the limit to set on this trust line'),
   issuer: z.string().describe('The address of the account to extend trust to (r-address)'),
 })
+
+/**
+ * Time field expressed either in seconds since the Ripple Epoch or as an ISO 8601 date
+ * Reference: https://xrpl.org/docs/references/protocol/data-types/basic-data-types#specifying-time
+ */
+export const xrplRippleTimeSchema = z
+  .union([z.number().int().gte(0), z.string()])
+  .describe(
+    'Seconds since the Ripple Epoch (2000-01-01T00:00:00Z) or an ISO 8601 date string (e.g., "2026-01-01T00:00:00Z") that the tool converts for you',
+  )
+
+/**
+ * Asset (currency without amount) object, XRP or a token
+ * Reference: https://xrpl.org/docs/references/protocol/data-types/currency-formats#specifying-without-amounts
+ */
+export const xrplIssueSchema = z.union([
+  z.object({ currency: z.literal('XRP').describe('XRP has no issuer') }).describe('XRP asset'),
+  z
+    .object({
+      currency: z
+        .string()
+        .describe('The currency code (3-letter ISO 4217 or 160-bit hex if it is not a 3-letter ISO 4217 code)'),
+      issuer: z.string().describe('The address of the token issuer (r-address)'),
+    })
+    .describe('Token asset'),
+])
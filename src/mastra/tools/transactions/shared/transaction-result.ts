@@ -0,0 +1,148 @@
+import { dropsToXrp, getBalanceChanges } from 'xrpl'
+import { z } from 'zod'
+import { explainEngineResult, ReliableSubmissionResult } from '../../../../helpers'
+import { xrplAnyAmountSchema } from '../payment/payment.types'
+
+/**
+ * Balance changes of every account affected by a transaction, derived from its metadata
+ */
+export const xrplBalanceChangesSchema = z
+  .array(
+    z.object({
+      account: z.string().describe('The account whose balances changed'),
+      balances: z.array(
+        z.object({
+          currency: z.string().describe('"XRP" or the currency code of the token'),
+          issuer: z.string().optional().describe('The issuer of the token, omitted for XRP'),
+          value: z.string().describe('The signed change, in XRP (not drops) or token units'),
+        }),
+      ),
+    }),
+  )
+  .describe('Balance changes per account, XRP values are in XRP')
+
+/**
+ * Explanation of a result code from the engine result catalog
+ */
+export const xrplEngineResultExplanationSchema = z
+  .object({
+    code: z.string().describe('The result code'),
+    category: z
+      .enum(['success', 'claimed-fee', 'retryable', 'permanent'])
+      .describe(
+        'success: applied. claimed-fee: failed but the fee was charged. retryable: may apply later. permanent: must be fixed',
+      ),
+    description: z.string().describe('What the result code means'),
+    fix: z.string().describe('How to fix or handle it'),
+    known: z.boolean().describe('Whether the code is in the catalog, unknown codes only get a generic explanation'),
+  })
+  .describe('Explanation of the result code, with a suggested fix')
+
+/**
+ * Normalized result of a submitted transaction, returned by every transaction tool and workflow step
+ */
+export const xrplTransactionResultSchema = z.object({
+  status: z
+    .enum(['success', 'failed', 'expired', 'pending'])
+    .describe('Final status. "pending" means the outcome is unknown: look up the hash before resubmitting'),
+  hash: z.string().describe('The hash of the transaction'),
+  engine_result: z.string().describe('The result code, e.g. tesSUCCESS or tecUNFUNDED_PAYMENT'),
+  engine_result_message: z.string().optional().describe('Human-readable meaning of the result code'),
+  validated: z.boolean().describe('Whether the result is final, from a validated ledger'),
+  ledger_index: z.number().optional().describe('The ledger the transaction was validated in'),
+  fee: z.string().optional().describe('The fee paid, in XRP, only once validated'),
+  delivered_amount: z
+    .union([xrplAnyAmountSchema, z.literal('unavailable')])
+    .optional()
+    .describe('The amount actually delivered by a payment, drops for XRP'),
+  balanceChanges: xrplBalanceChangesSchema,
+  explanation: xrplEngineResultExplanationSchema.optional(),
+})
+
+export type XrplTransactionResult = z.infer<typeof xrplTransactionResultSchema>
+
+/**
+ * Result of a transaction tool in prepare mode
+ */
+export const xrplPreparedTransactionSchema = z.object({
+  transaction: z.record(z.unknown()).describe('The autofilled, unsigned transaction'),
+  tx_blob: z.string().describe('The unsigned encoded transaction, to sign on another device'),
+})
+
+/**
+ * Result of a transaction tool in sign mode
+ */
+export const xrplSignedTransactionSchema = xrplPreparedTransactionSchema.extend({
+  tx_blob: z.string().describe('The signed transaction blob, to submit as signature'),
+  hash: z.string().describe('The hash the transaction will have once submitted'),
+})
+
+/**
+ * Result of a transaction tool in simulate mode, or of the simulate-transaction tool
+ */
+export const xrplSimulatedTransactionSchema = z.object({
+  applied: z.literal(false).describe('A simulated transaction is never applied'),
+  engine_result: z.string().describe('The projected result code'),
+  engine_result_code: z.number().describe('The numeric projected result code'),
+  engine_result_message: z.string().describe('Human-readable meaning of the projected result code'),
+  ledger_index: z.number().describe('The ledger the transaction was simulated against'),
+  transaction: z.record(z.unknown()).describe('The transaction as autofilled by the server'),
+  balanceChanges: xrplBalanceChangesSchema,
+  explanation: xrplEngineResultExplanationSchema.optional(),
+  createdObjects: z
+    .array(z.object({ LedgerEntryType: z.string(), LedgerIndex: z.string() }))
+    .describe('Ledger objects the transaction would create'),
+  deletedObjects: z
+    .array(z.object({ LedgerEntryType: z.string(), LedgerIndex: z.string() }))
+    .describe('Ledger objects the transaction would delete'),
+})
+
+/**
+ * Result of a transaction tool when the approval policy holds the transaction for a human decision
+ */
+export const xrplApprovalRequiredSchema = z.object({
+  status: z.literal('approval_required').describe('The transaction was not submitted, it waits for approval'),
+  workflowId: z.string().describe('The workflow holding the transaction'),
+  runId: z.string().describe('The run to resume with the approval decision'),
+  step: z.string().describe('The step to resume'),
+  reason: z.string().describe('Why the transaction needs approval'),
+  summary: z.string().describe('Human-readable summary of the transaction: amounts, destination, flags, fee'),
+  transaction: z.record(z.unknown()).describe('The autofilled transaction waiting for approval'),
+})
+
+export type XrplApprovalRequired = z.infer<typeof xrplApprovalRequiredSchema>
+
+/**
+ * Output of the transaction tools, depending on their mode
+ */
+export const transactionToolOutputSchema = z.union([
+  xrplTransactionResultSchema,
+  xrplApprovalRequiredSchema,
+  xrplPreparedTransactionSchema,
+  xrplSignedTransactionSchema,
+  xrplSimulatedTransactionSchema,
+])
+
+/**
+ * Convert the outcome of a reliable submission to the normalized transaction result
+ * @param result - The outcome of the submission
+ * @returns The normalized transaction result
+ */
+export const toTransactionResult = (result: ReliableSubmissionResult): XrplTransactionResult => {
+  const { status, hash, engine_result, engine_result_message, validated, ledger_index, fee, meta } = result
+
+  const explanation = explainEngineResult(engine_result)
+
+  return {
+    status,
+    hash,
+    engine_result,
+    engine_result_message: engine_result_message ?? explanation?.description,
+    validated,
+    ledger_index,
+    fee: validated && fee ? dropsToXrp(fee).toString() : undefined,
+    delivered_amount: result.delivered_amount,
+    balanceChanges: meta ? getBalanceChanges(meta) : [],
+    explanation,
+  }
+}
@@ -1,6 +1,22 @@
 import { ToolExecutionContext } from '@mastra/core'
-import { SubmittableTransaction, TxResponse, Wallet } from 'xrpl'
-import { disconnectXrplClient, getXrplClient } from '../../../../helpers'
+import {
+  encode,
+  getBalanceChanges,
+  isCreatedNode,
+  isDeletedNode,
+  SubmittableTransaction,
+  TransactionMetadata,
+  Wallet,
+} from 'xrpl'
+import {
+  EngineResultExplanation,
+  explainEngineResult,
+  getXrplClient,
+  isUndefined,
+  submitReliably,
+  submitWithSequence,
+} from '../../../../helpers'
+import { toTransactionResult, XrplTransactionResult } from './transaction-result'
 
 type SubmitTransactionProps<T extends SubmittableTransaction> = {
   // The network to use
@@ -11,8 +27,8 @@ type SubmitTransactionProps<T extends SubmittableTransaction> = {
   txn: T
   // The signature to use for the transaction
   signature?: string
-  // The seed to construct the wallet from
-  seed?: string
+  // The wallet to sign with, resolved from the keystore
+  wallet?: Wallet
 }
 
 /**
@@ -20,45 +36,171 @@ type SubmitTransactionProps<T extends SubmittableTransaction> = {
  * @param props - The properties to use
  * @param props.network - The network to use
  * @param props.txn - The transaction to submit
- * @param props.seed - The seed to construct the wallet from
- * @returns The response from the XRPL network
+ * @param props.wallet - The wallet to sign with
+ * @returns The normalized result of the transaction: success, failed, expired or still pending
  */
 export const submitTransaction = async <T extends SubmittableTransaction>({
   mastra,
   network,
   txn,
-  seed,
+  wallet,
   signature,
-}: SubmitTransactionProps<T>): Promise<TxResponse<T>> => {
+}: SubmitTransactionProps<T>): Promise<XrplTransactionResult> => {
   const logger = mastra?.getLogger()
 
-  // Get or create an XRPL client instance for the specified network
-  // This handles singleton pattern and connection management
+  // Get a healthy client from the connection pool of the network
+  // The connection stays open for the next calls
   const client = await getXrplClient(network, mastra)
 
   // Submit the transaction to the XRPL network
-  try {
-    if (signature) {
-      logger?.info('Submitting transaction with signature', { signature })
-
-      // For signature-based submission, we can't know the exact transaction type
-      // So we cast to the generic type T
-      return (await client.submitAndWait(signature)) as TxResponse<T>
-    }
-
-    if (seed) {
-      logger?.info('Submitting transaction with seed', { txn, seed })
-
-      return await client.submitAndWait(txn, {
-        autofill: true,
-        wallet: Wallet.fromSeed(seed),
-      })
-    }
-
-    throw new Error('No transaction or signature provided to submit')
-  } finally {
-    // Clean up: Disconnect the XRPL client to free up network resources
-    // This is important for resource management and preventing connection leaks
-    await disconnectXrplClient(network, mastra)
+  if (signature) {
+    logger?.info('Submitting transaction with signature', { signature })
+
+    return toTransactionResult(await submitReliably(client, signature, { mastra }))
+  }
+
+  if (wallet) {
+    logger?.info('Submitting transaction signed with a stored key', { txn, address: wallet.address })
+
+    // Use the sequence allocator so chained submissions from one account don't race
+    return toTransactionResult(await submitWithSequence(client, txn, wallet, { mastra }))
+  }
+
+  throw new Error('No transaction or signature provided to submit')
+}
+
+type PrepareTransactionProps<T extends SubmittableTransaction> = {
+  // The network to use
+  network: string
+  // The mastra instance to use
+  mastra?: ToolExecutionContext['mastra']
+  // The transaction to prepare
+  txn: T
+}
+
+type SignTransactionProps<T extends SubmittableTransaction> = PrepareTransactionProps<T> & {
+  // The wallet to sign with, resolved from the keystore
+  wallet: Wallet
+}
+
+/**
+ * Autofill a transaction without signing or submitting it
+ * @param props - The properties to use
+ * @param props.network - The network to use
+ * @param props.txn - The transaction to prepare
+ * @returns The prepared transaction and its unsigned encoded blob, for signing on another device
+ */
+export const prepareTransaction = async <T extends SubmittableTransaction>({
+  mastra,
+  network,
+  txn,
+}: PrepareTransactionProps<T>): Promise<{ transaction: T; tx_blob: string }> => {
+  const logger = mastra?.getLogger()
+
+  const client = await getXrplClient(network, mastra)
+
+  logger?.info('Preparing transaction', { txn })
+
+  const transaction = await client.autofill(txn)
+
+  return { transaction, tx_blob: encode(transaction) }
+}
+
+/**
+ * Sign a transaction without submitting it
+ *
+ * The transaction is only autofilled from the network if Fee or Sequence is missing,
+ * so a prepared transaction can be signed offline.
+ * @param props - The properties to use
+ * @param props.network - The network to use
+ * @param props.txn - The transaction to sign
+ * @param props.wallet - The wallet to sign with
+ * @returns The signed transaction, its blob and its hash
+ */
+export const signTransaction = async <T extends SubmittableTransaction>({
+  mastra,
+  network,
+  txn,
+  wallet,
+}: SignTransactionProps<T>): Promise<{ transaction: T; tx_blob: string; hash: string }> => {
+  const logger = mastra?.getLogger()
+
+  const isPrepared = !isUndefined(txn.Fee) && !isUndefined(txn.Sequence)
+  const transaction = isPrepared ? txn : (await prepareTransaction({ mastra, network, txn })).transaction
+
+  logger?.info('Signing transaction', { txn: transaction, offline: isPrepared })
+
+  const { tx_blob, hash } = wallet.sign(transaction)
+
+  return { transaction, tx_blob, hash }
+}
+
+/**
+ * Ledger object created or deleted by a transaction
+ */
+type AffectedLedgerObject = {
+  LedgerEntryType: string
+  LedgerIndex: string
+}
+
+/**
+ * Projected outcome of a transaction, as returned by the simulate API
+ */
+export type SimulatedTransaction<T extends SubmittableTransaction> = {
+  // The simulated transaction is never applied to the ledger
+  applied: false
+  engine_result: string
+  engine_result_code: number
+  engine_result_message: string
+  // The ledger the transaction was simulated against
+  ledger_index: number
+  // The transaction as autofilled by the server
+  transaction: T
+  balanceChanges: ReturnType<typeof getBalanceChanges>
+  // Explanation of the projected result code, from the engine result catalog
+  explanation?: EngineResultExplanation
+  createdObjects: AffectedLedgerObject[]
+  deletedObjects: AffectedLedgerObject[]
+}
+
+/**
+ * Simulate a transaction with the simulate API, without signing it, paying a fee or using a sequence
+ * @param props - The properties to use
+ * @param props.network - The network to use
+ * @param props.txn - The transaction to simulate
+ * @returns The projected engine result, balance changes and created or deleted ledger objects
+ */
+export const simulateTransaction = async <T extends SubmittableTransaction>({
+  mastra,
+  network,
+  txn,
+}: PrepareTransactionProps<T>): Promise<SimulatedTransaction<T>> => {
+  const logger = mastra?.getLogger()
+
+  const client = await getXrplClient(network, mastra)
+
+  logger?.info('Simulating transaction', { txn })
+
+  const { result } = await client.simulate(txn)
+  const meta = result.meta as TransactionMetadata<T> | undefined
+  const affectedNodes = meta?.AffectedNodes ?? []
+
+  return {
+    applied: false,
+    engine_result: result.engine_result,
+    engine_result_code: result.engine_result_code,
+    engine_result_message: result.engine_result_message,
+    ledger_index: result.ledger_index,
+    transaction: result.tx_json as T,
+    balanceChanges: meta ? getBalanceChanges(meta) : [],
+    explanation: explainEngineResult(result.engine_result),
+    createdObjects: affectedNodes.filter(isCreatedNode).map(({ CreatedNode }) => ({
+      LedgerEntryType: CreatedNode.LedgerEntryType,
+      LedgerIndex: CreatedNode.LedgerIndex,
+    })),
+    deletedObjects: affectedNodes.filter(isDeletedNode).map(({ DeletedNode }) => ({
+      LedgerEntryType: DeletedNode.LedgerEntryType,
+      LedgerIndex: DeletedNode.LedgerIndex,
+    })),
   }
 }
@@ -0,0 +1 @@
+export * from './signer-list-set'
@@ -0,0 +1,85 @@
+import { isUndefined } from '../../../../helpers'
+import { useTransactionToolFactory } from '../factory'
+import { MAX_SIGNER_ENTRIES, xrplSignerListSetSchema } from './signer-list-set.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplSignerListSetSchema,
+})
+
+export const submitSignerListSetTool = createTransactionTool({
+  toolId: 'submit-signer-list-set',
+  description: `Submit a SignerListSet transaction to create, replace or delete the signer list of an account.
+
+## What is SignerListSet?
+A signer list lets a set of accounts authorize transactions for the account with a multi-signature. A transaction is valid when the sum of the SignerWeight of its signers reaches the SignerQuorum.
+
+## Required Fields:
+- **SignerQuorum**: Target sum of weights for a valid multi-signature. Use 0 to delete the signer list
+
+## Optional Fields:
+- **SignerEntries**: Array of { "SignerEntry": { Account, SignerWeight, WalletLocator? } } (1 - ${MAX_SIGNER_ENTRIES} entries). Required unless SignerQuorum is 0
+
+## Important Business Rules:
+- SignerQuorum must be greater than 0 and at most the sum of all SignerWeight values, otherwise the account can't be multi-signed
+- Each signer can only appear once, and the account can't be its own signer
+- To delete the list, set SignerQuorum to 0 and omit SignerEntries
+- A signer list replaces any previous list of the account
+- To make the account multisig only, disable the master key with AccountSet (asfDisableMaster) after the list is validated
+
+## Multi-signing Flow:
+1. prepare-multisign-transaction: autofill the transaction with the fee for N signers
+2. sign-multisign-transaction: each signer signs the prepared transaction
+3. combine-multisign-signatures: combine the signed blobs and submit the result
+
+## Common Error Cases:
+- **temMALFORMED**: Invalid quorum, duplicate signers, or the account is in its own list
+- **temBAD_QUORUM**: SignerQuorum is greater than the sum of the weights
+- **temBAD_SIGNER**: A signer entry is invalid
+- **tecNO_ALTERNATIVE_KEY**: Deleting the list would leave the account without a usable key
+- **tecINSUFFICIENT_RESERVE**: Not enough XRP to meet the owner reserve
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "SignerQuorum": 3,
+  "SignerEntries": [
+    { "SignerEntry": { "Account": "rsA2LpzuawewSBQXkiju3YQTMzW13pAAdW", "SignerWeight": 2 } },
+    { "SignerEntry": { "Account": "rUpy3eEg8rqjqfUoLeBnZkscbKbFsKXC3v", "SignerWeight": 1 } },
+    { "SignerEntry": { "Account": "raKEEVSGnKSD9Zyvxu4z6Pqpm4ABH8FS6n", "SignerWeight": 1 } }
+  ],
+  "TransactionType": "SignerListSet"
+}
+\`\`\``,
+  buildTransaction: signerListSet => {
+    return signerListSet
+  },
+  validateTransaction: params => {
+    if (params.SignerQuorum === 0) {
+      if (!isUndefined(params.SignerEntries)) {
+        throw new Error('SignerEntries must be omitted when SignerQuorum is 0 (deleting the signer list)')
+      }
+      return
+    }
+
+    if (isUndefined(params.SignerEntries)) {
+      throw new Error('SignerEntries is required when SignerQuorum is greater than 0')
+    }
+
+    const signers = params.SignerEntries.map(({ SignerEntry }) => SignerEntry.Account)
+
+    if (new Set(signers).size !== signers.length) {
+      throw new Error('Each signer can only appear once in SignerEntries')
+    }
+
+    if (signers.includes(params.Account)) {
+      throw new Error('The account cannot be a signer of its own signer list')
+    }
+
+    const totalWeight = params.SignerEntries.reduce((sum, { SignerEntry }) => sum + SignerEntry.SignerWeight, 0)
+
+    if (params.SignerQuorum > totalWeight) {
+      throw new Error(`SignerQuorum (${params.SignerQuorum}) cannot exceed the sum of signer weights (${totalWeight})`)
+    }
+  },
+})
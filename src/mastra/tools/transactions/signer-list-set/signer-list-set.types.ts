@@ -0,0 +1,55 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * Maximum number of entries in a signer list
+ */
+export const MAX_SIGNER_ENTRIES = 32
+
+// Signer entry inner object schema
+export const xrplSignerEntrySchema = z.object({
+  Account: z.string().describe('Address of a signer. It does not need to be funded'),
+  SignerWeight: z
+    .number()
+    .int()
+    .gte(1)
+    .lte(65535)
+    .describe('Weight of a signature from this signer, counted toward the SignerQuorum'),
+  WalletLocator: z
+    .string()
+    .optional()
+    .describe('Arbitrary 256-bit hex value identifying the signer, e.g. a hardware wallet ID'),
+})
+
+/**
+ * SignerListSet-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/signerlistset#signerlistset-fields
+ */
+export const xrplSignerListSetFieldsSchema = z.object({
+  // Required field
+  SignerQuorum: z
+    .number()
+    .int()
+    .gte(0)
+    .describe(
+      'Target number of signer weights for a multi-signature to be valid. Use 0 to delete the signer list of the account',
+    ),
+
+  // Optional field
+  SignerEntries: z
+    .array(z.object({ SignerEntry: xrplSignerEntrySchema }))
+    .min(1)
+    .max(MAX_SIGNER_ENTRIES)
+    .optional()
+    .describe(`Signers of the account (1 - ${MAX_SIGNER_ENTRIES}). Required unless SignerQuorum is 0`),
+})
+
+/**
+ * Complete SignerListSet transaction schema
+ */
+export const xrplSignerListSetSchema = xrplCommonFieldsSchema
+  .merge(xrplSignerListSetFieldsSchema)
+  .extend({ TransactionType: z.literal('SignerListSet') })
+
+export type XrplSignerListSetFields = z.infer<typeof xrplSignerListSetFieldsSchema>
+export type XrplSignerListSet = z.infer<typeof xrplSignerListSetSchema>
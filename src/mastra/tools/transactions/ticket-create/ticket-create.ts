@@ -0,0 +1,44 @@
+import { useTransactionToolFactory } from '../factory'
+import { MAX_TICKETS, xrplTicketCreateSchema } from './ticket-create.types'
+
+const { createTransactionTool } = useTransactionToolFactory({
+  inputSchema: xrplTicketCreateSchema,
+})
+
+export const submitTicketCreateTool = createTransactionTool({
+  toolId: 'submit-ticket-create',
+  description: `Submit a TicketCreate transaction to set aside sequence numbers as Tickets.
+
+## What is TicketCreate?
+A Ticket reserves a sequence number so a transaction can be sent later, or out of order, with TicketSequence instead of Sequence. Tickets let one account prepare or submit several transactions in parallel, e.g. while collecting multi-signatures or for mass distributions.
+
+## Required Fields:
+- **TicketCount**: How many tickets to create (1 - ${MAX_TICKETS})
+
+## Using a Ticket:
+- Set **TicketSequence** to the ticket's sequence number and **Sequence** to 0 in the transaction that uses it
+- Each ticket can only be used once, it is consumed even if the transaction fails with a tec code
+- List the tickets of an account with account_objects (type "ticket")
+
+## Important Notes:
+- The new tickets use the sequence numbers right after the transaction's own Sequence
+- Each ticket counts toward the owner reserve, until it is used
+- An account can't hold more than ${MAX_TICKETS} tickets at once
+
+## Common Error Cases:
+- **temINVALID_COUNT**: TicketCount is not between 1 and ${MAX_TICKETS}
+- **tecDIR_FULL**: The account would hold more than ${MAX_TICKETS} tickets
+- **tecINSUFFICIENT_RESERVE**: Not enough XRP to meet the owner reserve for the new tickets
+
+## Example Usage:
+\`\`\`json
+{
+  "Account": "rf1BiGeXwwQoi8Z2ueFYTEXSwuJYfV2Jpn",
+  "TicketCount": 10,
+  "TransactionType": "TicketCreate"
+}
+\`\`\``,
+  buildTransaction: ticketCreate => {
+    return ticketCreate
+  },
+})
@@ -0,0 +1,33 @@
+import { z } from 'zod'
+import { xrplCommonFieldsSchema } from '../shared/common-fields'
+
+/**
+ * Maximum number of tickets an account can hold at once
+ */
+export const MAX_TICKETS = 250
+
+/**
+ * TicketCreate-specific fields schema
+ * Reference: https://xrpl.org/docs/references/protocol/transactions/types/ticketcreate#ticketcreate-fields
+ */
+export const xrplTicketCreateFieldsSchema = z.object({
+  // Required field
+  TicketCount: z
+    .number()
+    .int()
+    .gte(1)
+    .lte(MAX_TICKETS)
+    .describe(
+      `How many tickets to create (1 - ${MAX_TICKETS}). An account can't hold more than ${MAX_TICKETS} tickets`,
+    ),
+})
+
+/**
+ * Complete TicketCreate transaction schema
+ */
+export const xrplTicketCreateSchema = xrplCommonFieldsSchema
+  .merge(xrplTicketCreateFieldsSchema)
+  .extend({ TransactionType: z.literal('TicketCreate') })
+
+export type XrplTicketCreateFields = z.infer<typeof xrplTicketCreateFieldsSchema>
+export type XrplTicketCreate = z.infer<typeof xrplTicketCreateSchema>
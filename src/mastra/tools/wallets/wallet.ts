@@ -1,43 +1,106 @@
 import { createTool } from '@mastra/core/tools'
-import { ECDSA, FundingOptions, Wallet } from 'xrpl'
+import { ECDSA, FundingOptions, isValidSecret, Wallet } from 'xrpl'
 import { z } from 'zod'
-import { getXrplClient } from '../../../helpers'
+import { findNetwork, getFaucetOptions, getKeystore, getWalletByAlias, getXrplClient } from '../../../helpers'
 
 export const createWalletTool = createTool({
   id: 'create-wallet',
-  description: `Create a new XRPL wallet with public/private key pair. This is an off-chain operation that doesn't depend on any network.
+  description: `Create a new XRPL wallet with public/private key pair and store it in the encrypted keystore. This is an off-chain operation that doesn't depend on any network.
 
 XRPL supports only two cryptographic algorithms:
 - secp256k1: Elliptic curve algorithm (older, more widely supported)
 - ed25519: Modern elliptic curve algorithm (faster, more secure, default)
 
-The generated wallet will have:
-- r-address: Public address starting with 'r' (e.g., r9cZA1mLK5R5Am25ArfXFmqgNwjZgnfk59)
-- s-seed: Private seed starting with 's' (e.g., sEdTM1uX8pu2do5XvTnutH6HsouMaM2)
-- Public/private key pair for signing transactions
-
 Input Parameters:
 - algorithm: The cryptographic algorithm to use (ECDSA, optional)
   - If not provided, defaults to ed25519
   - Valid values: 'secp256k1' or 'ed25519'
+- alias: A name for the key in the keystore (string, optional)
+  - Up to 64 letters, digits, "-" or "_", e.g. "alice" or "issuer-1"
+  - If not provided, a random alias such as "key-1a2b3c4d" is generated
+
+The result includes:
+- keyAlias: The alias of the key, to pass as keyAlias to the transaction tools
+- address: Public address starting with 'r' (e.g., r9cZA1mLK5R5Am25ArfXFmqgNwjZgnfk59)
+- publicKey: The hex public key
+- createdAt: When the key was stored
 
 Important Notes:
 - This is an off-chain operation - no network connection required
 - The wallet is not automatically funded - you need to add XRP to activate it
-- Keep the seed secure - it provides full access to the wallet
-- The r-address is safe to share publicly
-- The s-seed should never be shared or stored insecurely
-- Wallet generation is deterministic but cryptographically secure`,
+- The seed is encrypted in the keystore and never returned, the tools sign with the key alias
+- The r-address is safe to share publicly`,
   inputSchema: z.object({
     algorithm: z.enum(['secp256k1', 'ed25519']),
+    alias: z.string().optional().describe('A name for the key in the keystore, generated if omitted'),
   }),
   execute: async ({ context }) => {
-    const { algorithm } = context
+    const { algorithm, alias } = context
 
     // Mastra raises an export from xrpl (which should work fine) error by using ECDSA.secp256k1, so we need to use the string value
     const algo = algorithm === 'ed25519' ? 'ed25519' : 'ecdsa-secp256k1'
 
-    return Wallet.generate(algo as ECDSA)
+    const { alias: keyAlias, ...entry } = await getKeystore().saveWallet(Wallet.generate(algo as ECDSA), alias)
+
+    return { keyAlias, ...entry }
+  },
+})
+
+export const importWalletTool = createTool({
+  id: 'import-wallet',
+  description: `Import an existing wallet from its seed into the encrypted keystore. This is an off-chain operation that doesn't depend on any network.
+
+Input Parameters:
+- seed: The seed of the wallet, starting with 's' (string, required)
+- alias: A name for the key in the keystore (string, optional)
+  - Up to 64 letters, digits, "-" or "_"
+  - If not provided, a random alias such as "key-1a2b3c4d" is generated
+
+The result includes:
+- keyAlias: The alias of the key, to pass as keyAlias to the transaction tools
+- address: The address of the wallet
+- publicKey: The hex public key
+- createdAt: When the key was stored
+
+Important Notes:
+- Only use this tool when the user gives a seed, and never repeat the seed afterwards
+- The seed is encrypted in the keystore, every later operation uses the key alias
+- Keys of mainnet accounts should not be imported: signing with a stored key is rejected on mainnet`,
+  inputSchema: z.object({
+    seed: z.string().describe('The seed of the wallet to import'),
+    alias: z.string().optional().describe('A name for the key in the keystore, generated if omitted'),
+  }),
+  execute: async ({ context }) => {
+    const { seed, alias } = context
+
+    if (!isValidSecret(seed)) {
+      throw new Error('Invalid seed')
+    }
+
+    const { alias: keyAlias, ...entry } = await getKeystore().saveWallet(Wallet.fromSeed(seed), alias)
+
+    return { keyAlias, ...entry }
+  },
+})
+
+export const listKeysTool = createTool({
+  id: 'list-keys',
+  description: `List the keys stored in the encrypted keystore. This is an off-chain operation that doesn't depend on any network.
+
+The result includes, for each key:
+- keyAlias: The alias of the key, to pass as keyAlias to the transaction tools
+- address: The address of the wallet
+- publicKey: The hex public key
+- createdAt: When the key was stored
+
+Important Notes:
+- Seeds are never returned
+- Use this tool to find the key alias of an address the user refers to`,
+  inputSchema: z.object({}),
+  execute: async () => {
+    const entries = await getKeystore().listKeys()
+
+    return { keys: entries.map(({ alias: keyAlias, ...entry }) => ({ keyAlias, ...entry })) }
   },
 })
 
@@ -46,11 +109,12 @@ export const fundWalletWithFaucetTool = createTool({
   description: `Fund a wallet with XRP using a faucet. This operation is only available on testnet networks (testnet, devnet, and other test networks) and is not possible on mainnet.
 
 Default Network:
-- Use a testnet network with the correct websocket URL if no network is provided by the user.
+- Use testnet if no network is provided by the user.
 
 Input Parameters:
-- network: The testnet network to use. Use the websocket URL to get the correct xrpl client. This network is not needed for the fundWallet function. (string, required)
-- wallet: Optional wallet to fund (Wallet object, optional)
+- network: The test network to use, by name (testnet, devnet, sidechain-devnet, xahau-testnet) or WebSocket URL (string, required)
+- keyAlias: The keystore alias of the wallet to fund (string, optional)
+  - If not provided, a new wallet is created, funded and stored in the keystore
 - opts: Optional funding configuration (FundingOptions, optional)
 
 Optional Funding Options (opts):
@@ -63,11 +127,11 @@ Optional Funding Options (opts):
   - Decimal amounts are rounded up using Math.ceil (e.g., "50.1" becomes "51", "50.9" becomes "51")
   - The amount is automatically converted to a string representation of an integer
 - faucetHost: Custom host for faucet server (string, optional)
-  - On devnet, testnet, AMM devnet, and HooksV3 testnet, the correct server is determined automatically
+  - On the test networks of the network registry, the correct server is determined automatically
   - Use this to customize the faucet host in other environments
 - faucetPath: Custom path for faucet server (string, optional)
   - Example: '/accounts' for 'faucet.altnet.rippletest.net/accounts'
-  - On devnet, testnet, AMM devnet, and HooksV3 testnet, the correct path is determined automatically
+  - On the test networks of the network registry, the correct path is determined automatically
   - Use this to customize the faucet path in other environments
 - usageContext: Optional field to indicate the use case context of the faucet transaction (string, optional)
   - Examples: 'integration test', 'code snippets'
@@ -75,51 +139,57 @@ Optional Funding Options (opts):
 Important Notes:
 - This operation is NOT available on mainnet - faucets only exist on test networks
 - The default funding amount is 10 XRP if not specified but can vary by network and faucet
-- Faucet servers automatically determine the correct host and path for supported test networks
+- The faucet host and path of known test networks come from the network registry
 - Custom faucet hosts and paths can be specified for other environments
-- The wallet must be a valid XRPL wallet object
+- The result includes the keyAlias, address and balance of the funded wallet, never its seed
 - Funding may take a few seconds to complete
 - Some test networks may have rate limits or availability restrictions`,
   inputSchema: z.object({
     network: z.string(),
-    seed: z.string().optional(),
+    keyAlias: z.string().optional(),
     opts: z.custom<FundingOptions>().optional(),
   }),
   execute: async ({ context, mastra }) => {
-    const { network, seed, opts } = context
+    const { network, keyAlias, opts } = context
 
     const logger = mastra?.getLogger()
 
-    const client = await getXrplClient(network)
+    if (findNetwork(network)?.type === 'mainnet') {
+      throw new Error('Faucet funding is not available on mainnet, use a test network such as testnet or devnet')
+    }
+
+    const client = await getXrplClient(network, mastra)
 
     const options = {
+      ...getFaucetOptions(network),
       ...opts,
       // amount must be a string representation of an integer
       amount: opts?.amount ? `${Math.ceil(Number(opts.amount))}` : '10',
     }
 
     // If a wallet is provided
-    if (seed) {
-      const walletInstance = Wallet.fromSeed(seed)
+    if (keyAlias) {
+      const walletInstance = await getWalletByAlias(keyAlias)
 
       logger?.info(
         `Funding wallet ${walletInstance.address} with the following options: ${JSON.stringify(options)} on ${network}`,
       )
 
-      const fundedWallet = await client.fundWallet(walletInstance, options)
+      const { balance } = await client.fundWallet(walletInstance, options)
 
       logger?.info(`Wallet ${walletInstance.address} funded successfully`)
 
-      return fundedWallet
+      return { keyAlias, address: walletInstance.address, balance }
     }
 
     // Otherwise create a new wallet
     logger?.info(`No wallet provided, creating a new one`)
 
-    const { wallet: newWallet } = await client.fundWallet(null, opts)
+    const { wallet: newWallet, balance } = await client.fundWallet(null, options)
+    const entry = await getKeystore().saveWallet(newWallet)
 
-    logger?.info(`Wallet ${newWallet.address} funded successfully`)
+    logger?.info(`Wallet ${newWallet.address} funded successfully and stored as ${entry.alias}`)
 
-    return newWallet
+    return { keyAlias: entry.alias, address: newWallet.address, balance }
   },
 })
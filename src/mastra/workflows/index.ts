@@ -1 +1,3 @@
+export * from './key-rotation-workflow'
 export * from './token-issuance-workflow'
+export * from './transaction-approval-workflow'
@@ -0,0 +1,144 @@
+import { Mastra } from '@mastra/core/mastra'
+import { LibSQLStore } from '@mastra/libsql'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AccountSetAsfFlags, SubmittableTransaction, Wallet } from 'xrpl'
+import z from 'zod'
+import { createKeystore, getKeystore, setKeystore, setTransactionPolicy } from '../../helpers'
+import { keyRotationWorkflow } from './key-rotation-workflow'
+import { keyRotationWorkflowSchema } from './key-rotation-workflow.types'
+
+// Fake ledger holding the keys of the account, updated by the submitted transactions
+const { ledger, submitWithSequence } = vi.hoisted(() => {
+  const ledger = { regularKey: undefined as string | undefined, masterDisabled: false }
+
+  return {
+    ledger,
+    submitWithSequence: vi.fn(async (_client: unknown, transaction: SubmittableTransaction, _wallet: unknown) => {
+      if (transaction.TransactionType === 'SetRegularKey') {
+        ledger.regularKey = transaction.RegularKey
+      }
+      if (transaction.TransactionType === 'AccountSet' && transaction.SetFlag === 4) {
+        ledger.masterDisabled = true
+      }
+
+      return {
+        status: 'success',
+        hash: 'HASH',
+        engine_result: 'tesSUCCESS',
+        validated: true,
+        ledger_index: 100,
+        last_ledger_sequence: 120,
+        transaction,
+      }
+    }),
+  }
+})
+
+vi.mock('../../helpers', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../helpers')>()),
+  getXrplClient: async () => ({
+    autofill: async (txn: SubmittableTransaction) => ({ ...txn, Fee: '12', Sequence: 1, LastLedgerSequence: 120 }),
+  }),
+  enforceTransactionPolicy: async () => undefined,
+  submitWithSequence,
+}))
+
+vi.mock('../tools/transactions/shared', async importOriginal => ({
+  ...(await importOriginal<typeof import('../tools/transactions/shared')>()),
+  getAccountKeys: async () => ({ ...ledger, hasSignerList: false }),
+}))
+
+// Input as sent by a caller such as the agent, which may omit the fields with defaults
+type KeyRotationInput = z.input<typeof keyRotationWorkflowSchema>
+
+const createMastra = () =>
+  new Mastra({ workflows: { keyRotationWorkflow }, storage: new LibSQLStore({ url: ':memory:' }), logger: false })
+
+beforeEach(async () => {
+  ledger.regularKey = undefined
+  ledger.masterDisabled = false
+  vi.clearAllMocks()
+  setKeystore(createKeystore({ url: ':memory:', passphrase: 'correct horse battery staple' }))
+  await getKeystore().saveWallet(Wallet.generate(), 'alice')
+})
+
+afterEach(() => {
+  setTransactionPolicy({})
+})
+
+describe('keyRotationWorkflow', () => {
+  it('suspends the steps whose transaction the approval policy matches', async () => {
+    setTransactionPolicy({ approval: { transactionTypes: ['AccountSet'] } })
+
+    const mastra = createMastra()
+    const run = await mastra.getWorkflow('keyRotationWorkflow').createRunAsync()
+
+    const inputData: KeyRotationInput = {
+      network: 'testnet',
+      keyAlias: 'alice',
+      regularKeyAlias: 'alice-2',
+      disableMaster: true,
+    }
+    let result = await run.start({ inputData: inputData as z.infer<typeof keyRotationWorkflowSchema> })
+
+    // SetRegularKey is not matched, the no-op AccountSet and asfDisableMaster are
+    for (const step of ['verify-regular-key', 'disable-master-key']) {
+      expect(result.status === 'suspended' && result.suspended).toEqual([[step]])
+
+      const resumedRun = await mastra.getWorkflow('keyRotationWorkflow').createRunAsync({ runId: run.runId })
+      result = await resumedRun.resume({ step, resumeData: { approved: true } })
+    }
+
+    expect(result.status).toBe('success')
+    expect(submitWithSequence.mock.calls.map(([, transaction]) => transaction.TransactionType)).toEqual([
+      'SetRegularKey',
+      'AccountSet',
+      'AccountSet',
+    ])
+    expect(ledger).toEqual({ regularKey: (await getKeystore().getWallet('alice-2')).address, masterDisabled: true })
+  })
+
+  it('keeps the master key enabled unless disableMaster is set', async () => {
+    const mastra = createMastra()
+    const run = await mastra.getWorkflow('keyRotationWorkflow').createRunAsync()
+
+    const inputData: KeyRotationInput = { network: 'testnet', keyAlias: 'alice', regularKeyAlias: 'alice-2' }
+    const result = await run.start({ inputData: inputData as z.infer<typeof keyRotationWorkflowSchema> })
+
+    expect(result.status).toBe('success')
+    expect(submitWithSequence.mock.calls.map(([, transaction]) => transaction.TransactionType)).toEqual([
+      'SetRegularKey',
+      'AccountSet',
+    ])
+    expect(ledger).toEqual({ regularKey: (await getKeystore().getWallet('alice-2')).address, masterDisabled: false })
+  })
+
+  it('keeps the master key enabled when disabling it is rejected', async () => {
+    const mastra = createMastra()
+    const run = await mastra.getWorkflow('keyRotationWorkflow').createRunAsync()
+
+    const inputData: KeyRotationInput = {
+      network: 'testnet',
+      keyAlias: 'alice',
+      regularKeyAlias: 'alice-2',
+      disableMaster: true,
+      requireApproval: true,
+    }
+    let result = await run.start({ inputData: inputData as z.infer<typeof keyRotationWorkflowSchema> })
+
+    for (const step of ['assign-regular-key', 'verify-regular-key']) {
+      expect(result.status === 'suspended' && result.suspended).toEqual([[step]])
+      result = await run.resume({ step, resumeData: { approved: true } })
+    }
+
+    expect(result.status === 'suspended' && result.suspended).toEqual([['disable-master-key']])
+
+    result = await run.resume({ step: 'disable-master-key', resumeData: { approved: false } })
+
+    expect(result.status).toBe('failed')
+    expect(submitWithSequence.mock.calls.map(([, transaction]) => transaction)).not.toContainEqual(
+      expect.objectContaining({ SetFlag: AccountSetAsfFlags.asfDisableMaster }),
+    )
+    expect(ledger.masterDisabled).toBe(false)
+  })
+})
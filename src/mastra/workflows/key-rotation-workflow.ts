@@ -0,0 +1,364 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { createStep, createWorkflow } from '@mastra/core/workflows'
+import { AccountSet, AccountSetAsfFlags, SetRegularKey, SignerListSet, SubmittableTransaction, Wallet } from 'xrpl'
+import {
+  describeNetworks,
+  enforceTransactionPolicy,
+  getKeystore,
+  getWalletByAlias,
+  getXrplClient,
+  submitWithSequence,
+  withNetworkId,
+} from '../../helpers'
+import { getAccountKeys, toTransactionResult } from '../tools/transactions/shared'
+import { keyRotationStateSchema, keyRotationWorkflowSchema } from './key-rotation-workflow.types'
+import { TxnResult } from './token-issuance-workflow.types'
+import { assertApproved, getApprovalRequest } from './transaction-approval-workflow'
+import { approvalDecisionSchema, approvalRequestSchema } from './transaction-approval-workflow.types'
+
+type SubmitRotationTransactionProps = {
+  mastra?: ToolExecutionContext['mastra']
+  network: string
+  txn: SubmittableTransaction
+  // The key signing for the account, master or regular
+  wallet: Wallet
+  description: string
+}
+
+/**
+ * Submit a transaction of the rotation and require it to succeed, so no later step runs on a failed one
+ * Like the transaction tools, the transaction policy applies, signing with a stored key is rejected on mainnet.
+ * @throws If the policy rejects the transaction, or it doesn't succeed
+ */
+const submitRotationTransaction = async ({
+  mastra,
+  network,
+  txn,
+  wallet,
+  description,
+}: SubmitRotationTransactionProps): Promise<TxnResult> => {
+  await enforceTransactionPolicy({ network, txn, signedLocally: true, mastra })
+
+  const client = await getXrplClient(network, mastra)
+  const response = await submitWithSequence(client, withNetworkId(txn, network), wallet, { mastra })
+  const txnResult: TxnResult = { description, ...toTransactionResult(response) }
+
+  if (txnResult.status !== 'success') {
+    throw new Error(
+      `${description} did not succeed (${txnResult.status}, ${txnResult.engine_result}), transaction ${txnResult.hash}`,
+    )
+  }
+
+  return txnResult
+}
+
+/**
+ * Step 1: Generate Regular Key
+ *
+ * Generates the new regular key pair and stores it in the keystore.
+ *
+ * Input: Workflow parameters (network, signing key, options)
+ * Output: The account, its new regular key and its current master key status
+ */
+const generateRegularKey = createStep({
+  id: 'generate-regular-key',
+  description: 'Generates a new regular key pair and stores it in the keystore',
+  inputSchema: keyRotationWorkflowSchema,
+  outputSchema: keyRotationStateSchema,
+  execute: async ({ inputData, mastra }) => {
+    if (!inputData) {
+      throw new Error('Input data not found')
+    }
+
+    // The workflow input is not parsed by Mastra, parse it here so the defaults apply, e.g. disableMaster
+    const { network, keyAlias, regularKeyAlias, ...rest } = keyRotationWorkflowSchema.parse(inputData)
+
+    const signingWallet = await getWalletByAlias(keyAlias)
+    const account = rest.account ?? signingWallet.address
+    const { masterDisabled } = await getAccountKeys(network, account, mastra)
+
+    if (masterDisabled && signingWallet.address === account) {
+      throw new Error(`The master key of ${account} is already disabled, use its regular key as keyAlias`)
+    }
+
+    const regularKey = await getKeystore().saveWallet(Wallet.generate(), regularKeyAlias)
+
+    return {
+      network,
+      keyAlias,
+      regularKeyAlias,
+      ...rest,
+      account,
+      regularKey: { keyAlias: regularKey.alias, address: regularKey.address },
+      masterDisabled,
+      txnResults: [],
+    }
+  },
+})
+
+/**
+ * Step 2: Assign Regular Key
+ *
+ * Assigns the new regular key to the account with a SetRegularKey signed by the current key.
+ *
+ * Input: The account and its new regular key
+ * Output: The same, with the SetRegularKey result
+ */
+const assignRegularKey = createStep({
+  id: 'assign-regular-key',
+  description: 'Assigns the new regular key to the account',
+  inputSchema: keyRotationStateSchema,
+  outputSchema: keyRotationStateSchema,
+  suspendSchema: approvalRequestSchema,
+  resumeSchema: approvalDecisionSchema,
+  execute: async ({ inputData, resumeData, suspend, mastra }) => {
+    if (!inputData) {
+      throw new Error('Input data not found')
+    }
+
+    const { network, keyAlias, account, regularKey, requireApproval, txnResults } = inputData
+
+    const tx: SetRegularKey = {
+      TransactionType: 'SetRegularKey',
+      Account: account,
+      RegularKey: regularKey.address,
+    }
+
+    // Wait for a human approval before the transaction is submitted, if required
+    if (!resumeData) {
+      const approvalRequest = await getApprovalRequest({ mastra, network, txns: [tx], required: requireApproval })
+
+      if (approvalRequest) {
+        return await suspend(approvalRequest)
+      }
+    } else {
+      assertApproved(resumeData)
+    }
+
+    const txnResult = await submitRotationTransaction({
+      mastra,
+      network,
+      txn: tx,
+      wallet: await getWalletByAlias(keyAlias),
+      description: `Assign regular key ${regularKey.address} (${regularKey.keyAlias})`,
+    })
+
+    return { ...inputData, txnResults: [...txnResults, txnResult] }
+  },
+})
+
+/**
+ * Step 3: Verify Regular Key
+ *
+ * Proves the regular key can sign for the account with a no-op AccountSet signed by it.
+ * The workflow stops here if it can't, with the master key still enabled.
+ *
+ * Input: The account with its regular key assigned
+ * Output: The same, with the AccountSet result
+ */
+const verifyRegularKey = createStep({
+  id: 'verify-regular-key',
+  description: 'Proves the regular key can sign for the account with a no-op AccountSet',
+  inputSchema: keyRotationStateSchema,
+  outputSchema: keyRotationStateSchema,
+  suspendSchema: approvalRequestSchema,
+  resumeSchema: approvalDecisionSchema,
+  execute: async ({ inputData, resumeData, suspend, mastra }) => {
+    if (!inputData) {
+      throw new Error('Input data not found')
+    }
+
+    const { network, account, regularKey, requireApproval, txnResults } = inputData
+
+    // An AccountSet without any field changes nothing but the Sequence
+    const tx: AccountSet = {
+      TransactionType: 'AccountSet',
+      Account: account,
+    }
+
+    // Wait for a human approval before the transaction is submitted, if required
+    if (!resumeData) {
+      const approvalRequest = await getApprovalRequest({ mastra, network, txns: [tx], required: requireApproval })
+
+      if (approvalRequest) {
+        return await suspend(approvalRequest)
+      }
+    } else {
+      assertApproved(resumeData)
+    }
+
+    const txnResult = await submitRotationTransaction({
+      mastra,
+      network,
+      txn: tx,
+      wallet: await getWalletByAlias(regularKey.keyAlias),
+      description: `Verify regular key ${regularKey.address} with a no-op AccountSet`,
+    })
+
+    return { ...inputData, txnResults: [...txnResults, txnResult] }
+  },
+})
+
+/**
+ * Step 4: Install Signer List
+ *
+ * Installs the signer list signed by the verified regular key.
+ * This step is optional - if no signer list is provided, it returns the data unchanged.
+ *
+ * Input: The account with its verified regular key
+ * Output: The same, with the SignerListSet result
+ */
+const installSignerList = createStep({
+  id: 'install-signer-list',
+  description: 'Installs the signer list of the account, if provided',
+  inputSchema: keyRotationStateSchema,
+  outputSchema: keyRotationStateSchema,
+  suspendSchema: approvalRequestSchema,
+  resumeSchema: approvalDecisionSchema,
+  execute: async ({ inputData, resumeData, suspend, mastra }) => {
+    if (!inputData) {
+      throw new Error('Input data not found')
+    }
+
+    const { network, account, regularKey, signerList, requireApproval, txnResults } = inputData
+
+    if (!signerList) {
+      return inputData
+    }
+
+    const tx: SignerListSet = {
+      TransactionType: 'SignerListSet',
+      Account: account,
+      ...signerList,
+    }
+
+    // Wait for a human approval before the transaction is submitted, if required
+    if (!resumeData) {
+      const approvalRequest = await getApprovalRequest({ mastra, network, txns: [tx], required: requireApproval })
+
+      if (approvalRequest) {
+        return await suspend(approvalRequest)
+      }
+    } else {
+      assertApproved(resumeData)
+    }
+
+    const txnResult = await submitRotationTransaction({
+      mastra,
+      network,
+      txn: tx,
+      wallet: await getWalletByAlias(regularKey.keyAlias),
+      description: `Install a signer list of ${signerList.SignerEntries.length} signers, quorum ${signerList.SignerQuorum}`,
+    })
+
+    return { ...inputData, txnResults: [...txnResults, txnResult] }
+  },
+})
+
+/**
+ * Step 5: Disable Master Key
+ *
+ * Disables the master key with an AccountSet signed by the verified regular key, then checks the ledger.
+ * This step is optional - if disableMaster is false, or the master key is already disabled, it returns the data
+ * unchanged.
+ *
+ * Input: The account with its verified regular key
+ * Output: The same, with the AccountSet result and the master key disabled
+ */
+const disableMasterKey = createStep({
+  id: 'disable-master-key',
+  description: 'Disables the master key, once the regular key is proven to sign',
+  inputSchema: keyRotationStateSchema,
+  outputSchema: keyRotationStateSchema,
+  suspendSchema: approvalRequestSchema,
+  resumeSchema: approvalDecisionSchema,
+  execute: async ({ inputData, resumeData, suspend, mastra }) => {
+    if (!inputData) {
+      throw new Error('Input data not found')
+    }
+
+    const { network, account, regularKey, disableMaster, masterDisabled, requireApproval, txnResults } = inputData
+
+    if (!disableMaster || masterDisabled) {
+      return inputData
+    }
+
+    // The regular key was verified by the previous step, it must still be the one assigned
+    const keys = await getAccountKeys(network, account, mastra)
+
+    if (keys.regularKey !== regularKey.address) {
+      throw new Error(
+        `The regular key of ${account} is ${keys.regularKey ?? 'not set'} instead of ${regularKey.address}, the master key was left enabled`,
+      )
+    }
+
+    const tx: AccountSet = {
+      TransactionType: 'AccountSet',
+      Account: account,
+      SetFlag: AccountSetAsfFlags.asfDisableMaster,
+    }
+
+    // Wait for a human approval before the transaction is submitted, if required
+    if (!resumeData) {
+      const approvalRequest = await getApprovalRequest({ mastra, network, txns: [tx], required: requireApproval })
+
+      if (approvalRequest) {
+        return await suspend(approvalRequest)
+      }
+    } else {
+      assertApproved(resumeData)
+    }
+
+    const txnResult = await submitRotationTransaction({
+      mastra,
+      network,
+      txn: tx,
+      wallet: await getWalletByAlias(regularKey.keyAlias),
+      description: 'Disable the master key (asfDisableMaster)',
+    })
+
+    const { masterDisabled: disabled } = await getAccountKeys(network, account, mastra)
+
+    return { ...inputData, masterDisabled: disabled, txnResults: [...txnResults, txnResult] }
+  },
+})
+
+/**
+ * Key Rotation Workflow
+ *
+ * Hardens an account by moving its signing to a new regular key, without ever leaving it without a working key.
+ * Each step only runs if the previous transaction succeeded, and suspends for approval before submitting when
+ * requireApproval is set or the approval policy matches its transaction.
+ *
+ * Workflow Steps:
+ * 1. Generate Regular Key - Creates the new key pair in the keystore
+ * 2. Assign Regular Key - SetRegularKey signed by the current key
+ * 3. Verify Regular Key - No-op AccountSet signed by the new regular key
+ * 4. Install Signer List - SignerListSet signed by the regular key (optional)
+ * 5. Disable Master Key - AccountSet asfDisableMaster signed by the regular key (optional)
+ */
+const keyRotationWorkflow = createWorkflow({
+  id: 'key-rotation-workflow',
+  description: `Rotates the regular key of an account, proves the new key can sign, then optionally installs a signer list and disables the master key.
+
+  The master key is only disabled when disableMaster is true. It can't be enabled again, so only set it when the user explicitly asks for it.
+  The keys are taken from the keystore, so the transaction policy rejects this workflow on mainnet.
+  With requireApproval, or when the approval policy matches, each step suspends until it is resumed with an approval decision.
+
+  ## Available Networks
+
+  Use the network name or the WebSocket URL of one of its endpoints:
+${describeNetworks('test')}`,
+  inputSchema: keyRotationWorkflowSchema,
+  outputSchema: keyRotationStateSchema,
+})
+  .then(generateRegularKey)
+  .then(assignRegularKey)
+  .then(verifyRegularKey)
+  .then(installSignerList)
+  .then(disableMasterKey)
+
+// Commit the workflow to make it available
+keyRotationWorkflow.commit()
+
+export { keyRotationWorkflow }
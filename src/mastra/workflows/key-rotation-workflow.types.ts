@@ -0,0 +1,62 @@
+import z from 'zod'
+import { xrplSignerListSetFieldsSchema } from '../tools/transactions/signer-list-set/signer-list-set.types'
+import { txnResultSchema } from './token-issuance-workflow.types'
+
+/**
+ * Signer list installed with the regular key
+ *
+ * The quorum must be reachable, an empty list would not be a usable key.
+ */
+const signerListSchema = xrplSignerListSetFieldsSchema
+  .required()
+  .refine(
+    ({ SignerQuorum, SignerEntries }) =>
+      SignerQuorum > 0 &&
+      SignerQuorum <= SignerEntries.reduce((sum, { SignerEntry }) => sum + SignerEntry.SignerWeight, 0),
+    'SignerQuorum must be greater than 0 and at most the sum of the signer weights',
+  )
+
+/**
+ * Main workflow input schema
+ *
+ * Defines the account to harden and how: the key that currently signs for it, and whether to install a signer list
+ * and disable the master key once the new regular key is proven to sign.
+ */
+export const keyRotationWorkflowSchema = z.object({
+  network: z.string().describe('Network of the account, by name or WebSocket URL'),
+  keyAlias: z.string().describe('Keystore alias of the key that currently signs for the account, master or regular'),
+  account: z
+    .string()
+    .optional()
+    .describe('Address of the account, defaults to the address of keyAlias when it is the master key'),
+  regularKeyAlias: z.string().optional().describe('Alias to store the new regular key under, generated if omitted'),
+  signerList: signerListSchema.optional().describe('Signer list to install before the master key is disabled'),
+  disableMaster: z
+    .boolean()
+    .default(false)
+    .describe(
+      'Permanently disable the master key once the new regular key has proven it can sign, only if explicitly requested',
+    ),
+  requireApproval: z
+    .boolean()
+    .default(false)
+    .describe('Suspend before each step that submits a transaction until a human approves it'),
+})
+
+/**
+ * Schema for the steps after the regular key is generated
+ *
+ * Extends the main workflow schema with the account, its new regular key and the transaction results
+ * that get populated as transactions are executed.
+ */
+export const keyRotationStateSchema = keyRotationWorkflowSchema.extend({
+  account: z.string().describe('Address of the account'),
+  regularKey: z.object({
+    keyAlias: z.string().describe('Keystore alias of the new regular key'),
+    address: z.string().describe('Address of the new regular key'),
+  }),
+  masterDisabled: z.boolean().describe('Whether the master key of the account is disabled'),
+  txnResults: z.array(txnResultSchema).describe('Array of transaction results of the previous steps'),
+})
+
+export type KeyRotationState = z.infer<typeof keyRotationStateSchema>
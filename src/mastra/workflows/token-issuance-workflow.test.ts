@@ -0,0 +1,135 @@
+import { Mastra } from '@mastra/core/mastra'
+import { LibSQLStore } from '@mastra/libsql'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { SubmittableTransaction, Wallet } from 'xrpl'
+import { createKeystore, setKeystore } from '../../helpers'
+import { tokenIssuanceWorkflow } from './token-issuance-workflow'
+import { transactionApprovalWorkflow } from './transaction-approval-workflow'
+
+// Fake network: funded wallets, autofill and submissions that succeed without a ledger
+const { fundedWallets, submitWithSequence, submitTransactionsWithTickets } = vi.hoisted(() => {
+  const toResponse = (transaction: unknown) => ({
+    status: 'success',
+    hash: 'HASH',
+    engine_result: 'tesSUCCESS',
+    validated: true,
+    ledger_index: 100,
+    last_ledger_sequence: 120,
+    transaction,
+  })
+
+  return {
+    fundedWallets: [] as Wallet[],
+    submitWithSequence: vi.fn(async (_client: unknown, transaction: unknown, _wallet: Wallet) =>
+      toResponse(transaction),
+    ),
+    submitTransactionsWithTickets: vi.fn(async ({ txns }: { txns: unknown[]; wallet: Wallet }) => ({
+      results: txns.map(transaction => ({ response: toResponse(transaction) })),
+    })),
+  }
+})
+
+vi.mock('../../helpers', async importOriginal => {
+  const actual = await importOriginal<typeof import('../../helpers')>()
+  const { Wallet } = await import('xrpl')
+
+  const client = {
+    fundWallet: async () => {
+      const wallet = Wallet.generate()
+      fundedWallets.push(wallet)
+      return { wallet, balance: 100 }
+    },
+    autofill: async (txn: SubmittableTransaction) => ({ ...txn, Fee: '12', Sequence: 1, LastLedgerSequence: 120 }),
+  }
+
+  return { ...actual, getXrplClient: async () => client, submitWithSequence }
+})
+
+vi.mock('../tools/transactions/shared', async importOriginal => ({
+  ...(await importOriginal<typeof import('../tools/transactions/shared')>()),
+  submitTransactionsWithTickets,
+}))
+
+const createMastra = () =>
+  new Mastra({
+    workflows: { tokenIssuanceWorkflow, transactionApprovalWorkflow },
+    storage: new LibSQLStore({ url: ':memory:' }),
+    logger: false,
+  })
+
+beforeEach(() => {
+  fundedWallets.length = 0
+  vi.clearAllMocks()
+  setKeystore(createKeystore({ url: ':memory:', passphrase: 'correct horse battery staple' }))
+})
+
+describe('tokenIssuanceWorkflow', () => {
+  it('suspends each submitting step for approval and signs with stored keys once resumed', async () => {
+    const mastra = createMastra()
+    const run = await mastra.getWorkflow('tokenIssuanceWorkflow').createRunAsync()
+
+    let result = await run.start({
+      inputData: {
+        network: 'testnet',
+        trustline: { currency: 'USD', trustlineLimit: '10000' },
+        issuerSettings: { flags: ['asfDefaultRipple'] },
+        holders: 1,
+        mintAmount: '100',
+        requireApproval: true,
+      },
+    })
+
+    // Resume every step from a new run object, so its input comes from the stored snapshot only
+    for (const step of ['setup-issuer-account', 'create-trust-lines', 'mint-tokens']) {
+      expect(result.status).toBe('suspended')
+      expect(result.status === 'suspended' && result.suspended).toEqual([[step]])
+
+      const resumedRun = await mastra.getWorkflow('tokenIssuanceWorkflow').createRunAsync({ runId: run.runId })
+      result = await resumedRun.resume({ step, resumeData: { approved: true } })
+    }
+
+    expect(result.status).toBe('success')
+
+    const [issuer, holder] = fundedWallets
+
+    // Each transaction is signed by the wallet of its account, resolved from the keystore
+    const [[, accountSet, issuerWallet], [, trustSet, holderWallet]] = submitWithSequence.mock.calls
+    expect(accountSet).toMatchObject({ TransactionType: 'AccountSet', Account: issuer.address })
+    expect(issuerWallet).toBeInstanceOf(Wallet)
+    expect(issuerWallet.seed).toBe(issuer.seed)
+    expect(trustSet).toMatchObject({ TransactionType: 'TrustSet', Account: holder.address })
+    expect(holderWallet.seed).toBe(holder.seed)
+
+    const [[{ txns, wallet }]] = submitTransactionsWithTickets.mock.calls
+    expect(txns).toMatchObject([{ TransactionType: 'Payment', Account: issuer.address, Destination: holder.address }])
+    expect(wallet.seed).toBe(issuer.seed)
+
+    // Only key aliases and addresses reach the output
+    expect(JSON.stringify(result)).not.toContain(issuer.seed)
+    expect(JSON.stringify(result)).not.toContain(holder.seed)
+  })
+
+  it('stops the run when a step is rejected', async () => {
+    const mastra = createMastra()
+    const run = await mastra.getWorkflow('tokenIssuanceWorkflow').createRunAsync()
+
+    await run.start({
+      inputData: {
+        network: 'testnet',
+        trustline: { currency: 'USD', trustlineLimit: '10000' },
+        issuerSettings: { flags: ['asfDefaultRipple'] },
+        holders: 1,
+        mintAmount: '100',
+        requireApproval: true,
+      },
+    })
+
+    const result = await run.resume({
+      step: 'setup-issuer-account',
+      resumeData: { approved: false, reviewer: 'compliance' },
+    })
+
+    expect(result.status).toBe('failed')
+    expect(submitWithSequence).not.toHaveBeenCalled()
+  })
+})
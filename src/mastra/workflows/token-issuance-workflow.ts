@@ -1,22 +1,34 @@
 import { createStep, createWorkflow } from '@mastra/core/workflows'
 import { AccountSet, convertStringToHex, Payment, TrustSet } from 'xrpl'
-import { currencyCodeToHex, getXrplClient } from '../../helpers'
+import {
+  currencyCodeToHex,
+  describeNetworks,
+  getFaucetOptions,
+  getKeystore,
+  getWalletByAlias,
+  getXrplClient,
+  submitWithSequence,
+} from '../../helpers'
+import { submitTransactionsWithTickets, toTransactionResult } from '../tools/transactions/shared'
 import {
   AccountSetAsfFlagsMap,
   settingsSchema,
   tokenIssuanceWorkflowSchema,
   TxnResult,
   walletsSchema,
+  WorkflowWallet,
 } from './token-issuance-workflow.types'
+import { assertApproved, getApprovalRequest } from './transaction-approval-workflow'
+import { approvalDecisionSchema, approvalRequestSchema } from './transaction-approval-workflow.types'
 
 /**
  * Step 1: Create Wallets
  *
- * Creates and funds wallets for the issuer and all token holders.
+ * Creates and funds wallets for the issuer and all token holders, and stores their keys in the keystore.
  * This step establishes the foundation for the token issuance process.
  *
  * Input: Workflow parameters (network, holders count, etc.)
- * Output: Wallets schema with issuer and holder wallets
+ * Output: Wallets schema with the key aliases and addresses of the issuer and holder wallets
  */
 const createWallets = createStep({
   id: 'create-wallets',
@@ -32,22 +44,32 @@ const createWallets = createStep({
 
     try {
       const client = await getXrplClient(network, mastra)
+      const faucetOptions = getFaucetOptions(network)
 
       // Create issuer wallet
-      const issuerPromise = client.fundWallet()
+      const issuerPromise = client.fundWallet(null, faucetOptions)
 
       // Create holder wallets in parallel
       const holdersPromises = Array.from({ length: numHolders }, async () => {
-        const { wallet } = await client.fundWallet()
+        const { wallet } = await client.fundWallet(null, faucetOptions)
         return wallet
       })
 
       // Wait for all wallets to be created and funded
       const [issuer, ...holders] = await Promise.all([issuerPromise, ...holdersPromises])
 
+      // Store the keys, only their aliases and addresses are passed to the next steps
+      const keystore = getKeystore()
+      const [storedIssuer, ...storedHolders] = await Promise.all(
+        [issuer.wallet, ...holders].map(async (wallet): Promise<WorkflowWallet> => {
+          const { alias, address } = await keystore.saveWallet(wallet)
+          return { keyAlias: alias, address }
+        }),
+      )
+
       return {
-        issuer: issuer.wallet,
-        holders: holders,
+        issuer: storedIssuer,
+        holders: storedHolders,
         network,
         ...rest,
       }
@@ -71,7 +93,9 @@ const setupIssuerAccount = createStep({
   description: 'Configures the issuer account with specified flags and settings',
   inputSchema: walletsSchema,
   outputSchema: settingsSchema,
-  execute: async ({ inputData, mastra }) => {
+  suspendSchema: approvalRequestSchema,
+  resumeSchema: approvalDecisionSchema,
+  execute: async ({ inputData, resumeData, suspend, mastra }) => {
     if (!inputData) {
       throw new Error('Input data not found')
     }
@@ -89,32 +113,45 @@ const setupIssuerAccount = createStep({
       }
     }
 
+    // One AccountSet per flag
+    const txns: AccountSet[] = issuerSettings.flags.map(flag => {
+      const flagValue = AccountSetAsfFlagsMap[flag as keyof typeof AccountSetAsfFlagsMap]
+
+      if (!flagValue) {
+        throw new Error(`Invalid flag: ${flag}`)
+      }
+
+      return {
+        TransactionType: 'AccountSet',
+        Account: issuer.address,
+        Domain: issuerSettings.domain ? convertStringToHex(issuerSettings.domain) : undefined,
+        SetFlag: flagValue,
+      }
+    })
+
+    // Wait for a human approval before anything is submitted, if required
+    if (!resumeData) {
+      const approvalRequest = await getApprovalRequest({ mastra, network, txns, required: rest.requireApproval })
+
+      if (approvalRequest) {
+        return await suspend(approvalRequest)
+      }
+    } else {
+      assertApproved(resumeData)
+    }
+
     try {
       const client = await getXrplClient(network, mastra)
+      const issuerWallet = await getWalletByAlias(issuer.keyAlias)
       const txnResults: TxnResult[] = []
 
       // Process each flag sequentially to avoid conflicts
-      for (const flag of issuerSettings.flags) {
-        const flagValue = AccountSetAsfFlagsMap[flag as keyof typeof AccountSetAsfFlagsMap]
-
-        if (!flagValue) {
-          throw new Error(`Invalid flag: ${flag}`)
-        }
-
-        const tx: AccountSet = {
-          TransactionType: 'AccountSet',
-          Account: issuer.address,
-          Domain: issuerSettings.domain ? convertStringToHex(issuerSettings.domain) : undefined,
-          SetFlag: flagValue,
-        }
-
-        const response = await client.submitAndWait(tx, { autofill: true, wallet: issuer })
+      for (const [index, tx] of txns.entries()) {
+        const response = await submitWithSequence(client, tx, issuerWallet, { mastra })
 
         const txnResult: TxnResult = {
-          description: `Set flag ${flag} (${flagValue})`,
-          hash: response.result.hash,
-          // @ts-expect-error - TransactionResult is an object here
-          status: response.result.meta.TransactionResult ?? 'N/A',
+          description: `Set flag ${issuerSettings.flags[index]} (${tx.SetFlag})`,
+          ...toTransactionResult(response),
         }
 
         txnResults.push(txnResult)
@@ -147,44 +184,57 @@ const createTrustLines = createStep({
   description: 'Creates trust lines between holders and issuer for the token',
   inputSchema: settingsSchema,
   outputSchema: settingsSchema,
-  execute: async ({ inputData, mastra }) => {
+  suspendSchema: approvalRequestSchema,
+  resumeSchema: approvalDecisionSchema,
+  execute: async ({ inputData, resumeData, suspend, mastra }) => {
     if (!inputData) {
       throw new Error('Input data not found')
     }
 
     const { issuer, holders, network, trustline, ...rest } = inputData
 
-    try {
-      // Convert currency string to hex format for XRPL
-      const currencyHex = currencyCodeToHex(trustline.currency)
+    // Convert currency string to hex format for XRPL
+    const currencyHex = currencyCodeToHex(trustline.currency)
+
+    // One trust line per holder
+    const txns: TrustSet[] = holders.map(holder => ({
+      TransactionType: 'TrustSet',
+      Account: holder.address,
+      LimitAmount: {
+        currency: currencyHex,
+        issuer: issuer.address,
+        value: trustline.trustlineLimit,
+      },
+    }))
+
+    // Wait for a human approval before anything is submitted, if required
+    if (!resumeData) {
+      const approvalRequest = await getApprovalRequest({ mastra, network, txns, required: rest.requireApproval })
+
+      if (approvalRequest) {
+        return await suspend(approvalRequest)
+      }
+    } else {
+      assertApproved(resumeData)
+    }
 
+    try {
       const client = await getXrplClient(network, mastra)
+      const holderWallets = await Promise.all(holders.map(holder => getWalletByAlias(holder.keyAlias)))
       const txnResults: TxnResult[] = []
 
       // Create trust line transactions for each holder in parallel
-      const trustLinePromises = holders.map(async holder => {
-        const tx: TrustSet = {
-          TransactionType: 'TrustSet',
-          Account: holder.address,
-          LimitAmount: {
-            currency: currencyHex,
-            issuer: issuer.address,
-            value: trustline.trustlineLimit,
-          },
-        }
-
-        return await client.submitAndWait(tx, { autofill: true, wallet: holder })
-      })
+      const trustLinePromises = txns.map(
+        async (tx, index) => await submitWithSequence(client, tx, holderWallets[index], { mastra }),
+      )
 
       const responses = await Promise.all(trustLinePromises)
 
       // Process transaction results
       for (const response of responses) {
         const txnResult: TxnResult = {
-          description: `Created trust line for ${response.result.tx_json.LimitAmount.issuer}`,
-          hash: response.result.hash,
-          // @ts-expect-error - TransactionResult is an object here
-          status: response.result.meta.TransactionResult ?? 'N/A',
+          description: `Created trust line for ${response.transaction.LimitAmount.issuer}`,
+          ...toTransactionResult(response),
         }
         txnResults.push(txnResult)
       }
@@ -217,40 +267,53 @@ const mintTokens = createStep({
   description: 'Mints tokens by sending payments from issuer to holders',
   inputSchema: settingsSchema,
   outputSchema: settingsSchema,
-  execute: async ({ inputData, mastra }) => {
+  suspendSchema: approvalRequestSchema,
+  resumeSchema: approvalDecisionSchema,
+  execute: async ({ inputData, resumeData, suspend, mastra }) => {
     if (!inputData) {
       throw new Error('Input data not found')
     }
 
     const { issuer, holders, network, mintAmount, trustline, ...rest } = inputData
 
+    // One payment per holder
+    const txns: Payment[] = holders.map(holder => ({
+      TransactionType: 'Payment',
+      Account: issuer.address,
+      Destination: holder.address,
+      Amount: {
+        currency: trustline.currency,
+        value: mintAmount,
+        issuer: issuer.address,
+      },
+    }))
+
+    // Wait for a human approval before anything is submitted, if required
+    if (!resumeData) {
+      const approvalRequest = await getApprovalRequest({ mastra, network, txns, required: rest.requireApproval })
+
+      if (approvalRequest) {
+        return await suspend(approvalRequest)
+      }
+    } else {
+      assertApproved(resumeData)
+    }
+
     try {
-      const client = await getXrplClient(network, mastra)
-      const txnResults: TxnResult[] = []
+      // Mint tokens for all holders concurrently, each payment uses its own ticket of the issuer
+      const issuerWallet = await getWalletByAlias(issuer.keyAlias)
+      const { results } = await submitTransactionsWithTickets({ mastra, network, txns, wallet: issuerWallet })
 
-      // Mint tokens for each holder sequentially to avoid rate limiting
-      for (const holder of holders) {
-        const tx: Payment = {
-          TransactionType: 'Payment',
-          Account: issuer.address,
-          Destination: holder.address,
-          Amount: {
-            currency: trustline.currency,
-            value: mintAmount,
-            issuer: issuer.address,
-          },
+      const txnResults: TxnResult[] = results.map(({ response, error }, index) => {
+        if (!response) {
+          throw new Error(`Failed to mint to ${holders[index].address}: ${error}`)
         }
 
-        const response = await client.submitAndWait(tx, { autofill: true, wallet: issuer })
-
-        const txnResult: TxnResult = {
-          description: `Minted ${mintAmount} ${trustline.currency} to ${holder.address}`,
-          hash: response.result.hash,
-          // @ts-expect-error - TransactionResult is an object here
-          status: response.result.meta.TransactionResult ?? 'N/A',
+        return {
+          description: `Minted ${mintAmount} ${trustline.currency} to ${holders[index].address}`,
+          ...toTransactionResult(response),
         }
-        txnResults.push(txnResult)
-      }
+      })
 
       return {
         issuer,
@@ -281,44 +344,12 @@ const mintTokens = createStep({
  */
 const tokenIssuanceWorkflow = createWorkflow({
   id: 'token-issuance-workflow',
-  description: `Complete token issuance workflow for testnet and devnet networks.
-  
-  ## Available Networks and WebSocket URLs
-
-    ### Mainnet (Production Networks)
-    
-    **Non-Commercial (Free Access):**
-    - **XRP Ledger Foundation**: wss://xrplcluster.com/ or wss://xrpl.ws/
-      - Full history server cluster with CORS support
-      - Recommended for general use
-    - **Ripple (General Purpose)**: wss://s1.ripple.com/
-      - General purpose server cluster
-    - **Ripple (Full History)**: wss://s2.ripple.com/
-      - Full-history server cluster
-
-    **Commercial (Paid Access):**
-    - **XRP Ledger Foundation via Dhali**: https://xrplcluster.dhali.io/
-      - Requires paid API key in Payment-Claim header
-    - **QuickNode**: Various endpoints under free and paid plans
-
-    ### Test Networks (Development/Testing)
-
-    **Testnet:**
-    - **Ripple Testnet**: wss://s.altnet.rippletest.net:51233/
-    - **XRPL Labs Testnet**: wss://testnet.xrpl-labs.com/
-      - Testnet public server with CORS support
-    - **Ripple Testnet (Clio)**: wss://clio.altnet.rippletest.net:51233/
-      - Testnet public server with Clio
-
-    **Devnet:**
-    - **Ripple Devnet**: wss://s.devnet.rippletest.net:51233/
-    - **Ripple Devnet (Clio)**: wss://clio.devnet.rippletest.net:51233/
-    - **Sidechain-Devnet**: wss://sidechain-net2.devnet.rippletest.net:51233/
-      - Sidechain Devnet for testing cross-chain bridge features
-
-    **Specialized Test Networks:**
-    - **Xahau Testnet (XRPL Labs)**: wss://xahau-test.net/
-      - Hooks-enabled Xahau Testnet`,
+  description: `Complete token issuance workflow for test networks.
+
+  ## Available Networks
+
+  Use the network name or the WebSocket URL of one of its endpoints:
+${describeNetworks('test')}`,
   inputSchema: tokenIssuanceWorkflowSchema,
   outputSchema: settingsSchema,
 })
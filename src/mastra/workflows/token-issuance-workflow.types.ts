@@ -1,5 +1,6 @@
-import { Wallet } from 'xrpl'
 import z from 'zod'
+import { isTestNetwork } from '../../helpers'
+import { xrplTransactionResultSchema } from '../tools/transactions/shared'
 
 /**
  * AccountSetAsfFlagsMap - Maps flag names to their numeric values
@@ -45,24 +46,27 @@ export const AccountSetAsfFlagsMap = {
 } as const
 
 /**
- * Supported network endpoints for the token issuance workflow
+ * Supported networks for the token issuance workflow
  *
- * These are the WebSocket URLs for different XRPL networks.
- * The workflow is designed primarily for testnet and devnet networks.
+ * The workflow funds its wallets with a faucet, so it only runs on the test networks of the network registry,
+ * given by name (e.g. testnet) or by the WebSocket URL of one of their endpoints.
  */
-export const tokenIssuanceWorkflowNetworkSchema = z.enum([
-  // Testnet networks
-  'wss://s.altnet.rippletest.net:51233/',
-  'wss://testnet.xrpl-labs.com/',
-  // Devnet networks
-  'wss://clio.devnet.rippletest.net:51233/',
-  'wss://s.devnet.rippletest.net:51233/',
-])
+export const tokenIssuanceWorkflowNetworkSchema = z
+  .string()
+  .refine(isTestNetwork, 'The token issuance workflow only runs on test networks, such as testnet or devnet')
 
 /**
- * Schema for XRPL wallet objects
+ * Schema for the wallets created by the workflow
+ *
+ * Only the key alias and the address go through the steps, so no seed ends up in the workflow snapshots or output.
+ * The key is resolved from the keystore right before signing.
  */
-const issuerSchema = z.custom<Wallet>().describe('Issuer wallet')
+const workflowWalletSchema = z.object({
+  keyAlias: z.string().describe('Keystore alias of the key of the wallet'),
+  address: z.string().describe('Address of the wallet'),
+})
+
+export type WorkflowWallet = z.infer<typeof workflowWalletSchema>
 
 /**
  * Trust line configuration for token issuance
@@ -101,14 +105,18 @@ export const tokenIssuanceWorkflowSchema = z.object({
   issuerSettings: issuerSettingsSchema.describe('Settings for the issuer account'),
   holders: z.number().describe('Number of holder wallets to create'),
   mintAmount: z.string().describe('Amount of tokens to mint for each holder'),
+  requireApproval: z
+    .boolean()
+    .default(false)
+    .describe('Suspend before each step that submits transactions until a human approves it'),
 })
 
 /**
  * Schema for wallet objects (issuer and holders)
  */
 const issuerAndHoldersSchema = z.object({
-  issuer: issuerSchema,
-  holders: z.array(z.custom<Wallet>().describe('Holder wallet')),
+  issuer: workflowWalletSchema.describe('Issuer wallet'),
+  holders: z.array(workflowWalletSchema.describe('Holder wallet')),
 })
 
 /**
@@ -117,10 +125,8 @@ const issuerAndHoldersSchema = z.object({
  * Represents the result of a single XRPL transaction with
  * description, hash, and status information.
  */
-const txnResultSchema = z.object({
+export const txnResultSchema = xrplTransactionResultSchema.extend({
   description: z.string().describe('Human-readable description of the transaction'),
-  hash: z.string().describe('Transaction hash for blockchain verification'),
-  status: z.string().describe('Transaction status (success, failure, etc.)'),
 })
 
 /**
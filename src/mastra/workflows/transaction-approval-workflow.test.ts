@@ -0,0 +1,110 @@
+import { Mastra } from '@mastra/core/mastra'
+import { LibSQLStore } from '@mastra/libsql'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Payment, SubmittableTransaction, Wallet } from 'xrpl'
+import { createKeystore, getKeystore, setKeystore } from '../../helpers'
+import { requestTransactionApproval, transactionApprovalWorkflow } from './transaction-approval-workflow'
+
+// Fake network: a ledger index moved by the tests, autofill and submissions that succeed without a ledger
+const { ledger, autofill, submitTransaction } = vi.hoisted(() => ({
+  ledger: { index: 100 },
+  autofill: vi.fn(async (txn: SubmittableTransaction) => ({
+    ...txn,
+    Fee: '12',
+    Sequence: 7,
+    LastLedgerSequence: 120,
+  })),
+  submitTransaction: vi.fn(async ({ txn }: { txn: SubmittableTransaction; signature?: string }) => ({
+    status: 'success',
+    hash: 'HASH',
+    transaction: txn,
+  })),
+}))
+
+vi.mock('../../helpers', async importOriginal => {
+  const actual = await importOriginal<typeof import('../../helpers')>()
+  const client = { autofill, getLedgerIndex: async () => ledger.index }
+
+  return { ...actual, getXrplClient: async () => client }
+})
+
+vi.mock('../tools/transactions/shared', async importOriginal => ({
+  ...(await importOriginal<typeof import('../tools/transactions/shared')>()),
+  submitTransaction,
+}))
+
+const createMastra = () =>
+  new Mastra({
+    workflows: { transactionApprovalWorkflow },
+    storage: new LibSQLStore({ url: ':memory:' }),
+    logger: false,
+  })
+
+const wallet = Wallet.generate()
+
+const payment: Payment = {
+  TransactionType: 'Payment',
+  Account: wallet.classicAddress,
+  Destination: 'rPT1Sjq2YGrBMTttX4GZHjKu9dyfzbpAYe',
+  Amount: '50000000',
+}
+
+const resume = async (mastra: Mastra, runId: string) => {
+  const run = await mastra.getWorkflow('transactionApprovalWorkflow').createRunAsync({ runId })
+  return await run.resume({ step: 'request-approval', resumeData: { approved: true } })
+}
+
+beforeEach(() => {
+  ledger.index = 100
+  vi.clearAllMocks()
+  setKeystore(createKeystore({ url: ':memory:', passphrase: 'correct horse battery staple' }))
+})
+
+describe('transactionApprovalWorkflow', () => {
+  it('submits the transaction prepared for review, without preparing it again', async () => {
+    await getKeystore().saveWallet(wallet, 'alice')
+
+    const mastra = createMastra()
+    const request = await requestTransactionApproval({
+      mastra,
+      network: 'testnet',
+      txn: payment,
+      keyAlias: 'alice',
+      reason: 'review',
+    })
+
+    expect(request.transaction).toEqual({ ...payment, Fee: '12', Sequence: 7 })
+
+    const result = await resume(mastra, request.runId)
+
+    expect(result.status).toBe('success')
+    expect(autofill).toHaveBeenCalledTimes(1)
+    expect(submitTransaction.mock.calls[0][0].txn).toEqual({ ...payment, Fee: '12', Sequence: 7 })
+  })
+
+  it('rejects signed blobs that expired before they were approved', async () => {
+    const { tx_blob: signature } = wallet.sign({ ...payment, Fee: '12', Sequence: 7, LastLedgerSequence: 120 })
+
+    const mastra = createMastra()
+    const request = await requestTransactionApproval({
+      mastra,
+      network: 'testnet',
+      txn: payment,
+      signature,
+      reason: 'review',
+    })
+
+    expect(request.summary).toContain('Expires after ledger 120, in about 80 seconds')
+
+    ledger.index = 121
+
+    const result = await resume(mastra, request.runId)
+
+    expect(result.status === 'failed' && result.error).toMatch('sign it again with a later LastLedgerSequence')
+    expect(submitTransaction).not.toHaveBeenCalled()
+
+    await expect(
+      requestTransactionApproval({ mastra, network: 'testnet', txn: payment, signature, reason: 'review' }),
+    ).rejects.toThrow('The signed transaction expired after ledger 120')
+  })
+})
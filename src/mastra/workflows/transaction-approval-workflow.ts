@@ -0,0 +1,251 @@
+import { ToolExecutionContext } from '@mastra/core'
+import { createStep, createWorkflow } from '@mastra/core/workflows'
+import { Client, decode, SubmittableTransaction, Transaction } from 'xrpl'
+import { getApprovalReason, getWalletByAlias, getXrplClient, summarizeTransaction } from '../../helpers'
+import { submitTransaction, XrplApprovalRequired, xrplTransactionResultSchema } from '../tools/transactions/shared'
+import {
+  ApprovalDecision,
+  approvalDecisionSchema,
+  ApprovalRequest,
+  approvalRequestSchema,
+  transactionApprovalWorkflowSchema,
+} from './transaction-approval-workflow.types'
+
+type GetApprovalRequestProps = {
+  mastra?: ToolExecutionContext['mastra']
+  network: string
+  // The transactions about to be submitted, or the signed blobs
+  txns: (SubmittableTransaction | string)[]
+  // Require approval even if the transaction policy doesn't
+  required?: boolean
+}
+
+/**
+ * Check whether transactions need approval before they are submitted, from the approval policy
+ * @returns The request to suspend with, or undefined if no approval is needed
+ */
+export const getApprovalRequest = async ({
+  mastra,
+  network,
+  txns,
+  required = false,
+}: GetApprovalRequestProps): Promise<ApprovalRequest | undefined> => {
+  const decoded = txns.map(txn => (typeof txn === 'string' ? (decode(txn) as unknown as Transaction) : txn))
+  const reason = required
+    ? 'Approval of each step was requested'
+    : decoded.map(txn => getApprovalReason(txn)).find(Boolean)
+
+  if (!reason) {
+    return undefined
+  }
+
+  // Autofill the unsigned transactions so the summary shows the fee
+  const client = await getXrplClient(network, mastra)
+  const transactions = await Promise.all(
+    decoded.map(txn => (txn.Fee !== undefined ? txn : client.autofill(txn as SubmittableTransaction))),
+  )
+
+  return {
+    reason,
+    summaries: transactions.map(txn => summarizeTransaction(txn).text),
+    transactions: transactions as unknown as Record<string, unknown>[],
+  }
+}
+
+// Ledgers close about every 4 seconds
+const SECONDS_PER_LEDGER = 4
+
+/**
+ * Check that a signed transaction can still be validated, a blob can't be changed once signed
+ * @param client - The connected client of the network
+ * @param signature - The signed transaction blob
+ * @returns The LastLedgerSequence of the blob and how many ledgers are left before it expires
+ * @throws If the blob has no LastLedgerSequence, or it has passed
+ */
+const getSignatureExpiry = async (client: Client, signature: string) => {
+  const { LastLedgerSequence: lastLedgerSequence } = decode(signature) as unknown as Transaction
+
+  if (lastLedgerSequence === undefined) {
+    throw new Error('The signed transaction must contain a LastLedgerSequence, sign it again with one set')
+  }
+
+  const ledgersLeft = lastLedgerSequence - (await client.getLedgerIndex())
+
+  if (ledgersLeft <= 0) {
+    throw new Error(
+      `The signed transaction expired after ledger ${lastLedgerSequence}, sign it again with a later LastLedgerSequence and request approval again`,
+    )
+  }
+
+  return { lastLedgerSequence, ledgersLeft }
+}
+
+/**
+ * Stop a resumed step unless its transactions were approved
+ * @param decision - The resume payload of the step
+ */
+export const assertApproved = (decision: ApprovalDecision) => {
+  if (!decision.approved) {
+    throw new Error(
+      `Transactions rejected${decision.reviewer ? ` by ${decision.reviewer}` : ''}${decision.comment ? `: ${decision.comment}` : ''}`,
+    )
+  }
+}
+
+/**
+ * Step 1: Request Approval
+ *
+ * Suspends with a summary of the transaction until a human resumes the run with a decision.
+ * The summary tells when the approval comes too late for a signed blob, and that only the LastLedgerSequence
+ * of a transaction signed with a stored key is set after approval.
+ *
+ * Input: The transaction waiting for approval
+ * Output: The same transaction, once approved
+ */
+const requestApproval = createStep({
+  id: 'request-approval',
+  description: 'Suspends until a human approves the transaction',
+  inputSchema: transactionApprovalWorkflowSchema,
+  outputSchema: transactionApprovalWorkflowSchema,
+  suspendSchema: approvalRequestSchema,
+  resumeSchema: approvalDecisionSchema,
+  execute: async ({ inputData, resumeData, suspend, runId, mastra }) => {
+    const { network, transaction, signature, reason } = inputData
+
+    if (!resumeData) {
+      const request = await getApprovalRequest({ mastra, network, txns: [signature ?? transaction], required: true })
+      let note = 'LastLedgerSequence: set when the approved transaction is signed, the Fee and Sequence are kept'
+
+      if (signature) {
+        const client = await getXrplClient(network, mastra)
+        const { lastLedgerSequence, ledgersLeft } = await getSignatureExpiry(client, signature)
+
+        note = `Expires after ledger ${lastLedgerSequence}, in about ${ledgersLeft * SECONDS_PER_LEDGER} seconds: approved later, the blob must be signed again with a later LastLedgerSequence`
+      }
+
+      return await suspend({ ...request!, reason, summaries: request!.summaries.map(summary => `${summary}\n${note}`) })
+    }
+
+    assertApproved(resumeData)
+
+    mastra?.getLogger()?.info('Transaction approved', { runId, ...resumeData })
+
+    return inputData
+  },
+})
+
+/**
+ * Step 2: Submit Approved Transaction
+ *
+ * Submits the approved transaction signed with the key of its alias, or the signed blob.
+ * The transaction was prepared before approval, so only its LastLedgerSequence is filled in when it is signed.
+ *
+ * Input: The approved transaction
+ * Output: The normalized transaction result
+ */
+const submitApprovedTransaction = createStep({
+  id: 'submit-approved-transaction',
+  description: 'Submits the approved transaction',
+  inputSchema: transactionApprovalWorkflowSchema,
+  outputSchema: xrplTransactionResultSchema,
+  execute: async ({ inputData, mastra }) => {
+    const { network, transaction, keyAlias, signature } = inputData
+
+    if (!keyAlias && !signature) {
+      throw new Error('Either keyAlias or signature must be provided to submit the approved transaction')
+    }
+
+    // A blob that expired while waiting for approval would only fail on the ledger
+    if (signature) {
+      await getSignatureExpiry(await getXrplClient(network, mastra), signature)
+    }
+
+    // The key alias is resolved to its wallet only now, right before signing
+    const wallet = keyAlias && !signature ? await getWalletByAlias(keyAlias) : undefined
+
+    return await submitTransaction({ mastra, network, txn: transaction, wallet, signature })
+  },
+})
+
+/**
+ * Transaction Approval Workflow
+ *
+ * Holds a transaction built by a transaction tool until a human approves it.
+ * Started by the transaction tools when the approval policy requires it, and resumed with an approval decision
+ * on the request-approval step, e.g. from the Mastra playground or API.
+ */
+const transactionApprovalWorkflow = createWorkflow({
+  id: 'transaction-approval-workflow',
+  description: 'Holds a transaction until a human approves it, then submits it',
+  inputSchema: transactionApprovalWorkflowSchema,
+  outputSchema: xrplTransactionResultSchema,
+})
+  .then(requestApproval)
+  .then(submitApprovedTransaction)
+
+// Commit the workflow to make it available
+transactionApprovalWorkflow.commit()
+
+type RequestTransactionApprovalProps = {
+  mastra?: ToolExecutionContext['mastra']
+  network: string
+  txn: SubmittableTransaction
+  keyAlias?: string
+  signature?: string
+  reason: string
+}
+
+/**
+ * Start an approval run for a transaction, it suspends until a human resumes it
+ *
+ * A transaction signed with a stored key is prepared now, so the reviewed Fee and Sequence are the ones signed.
+ * Its LastLedgerSequence is left out, it would pass while waiting for approval.
+ * @returns The run to resume and the summary to review
+ * @throws If the signed blob has already expired
+ */
+export const requestTransactionApproval = async ({
+  mastra,
+  network,
+  txn,
+  keyAlias,
+  signature,
+  reason,
+}: RequestTransactionApprovalProps): Promise<XrplApprovalRequired> => {
+  if (!mastra) {
+    throw new Error('This transaction needs approval, but no Mastra instance is available to hold it')
+  }
+
+  const client = await getXrplClient(network, mastra)
+  let transaction = txn
+
+  if (signature) {
+    await getSignatureExpiry(client, signature)
+  } else {
+    transaction = await client.autofill(txn)
+    delete transaction.LastLedgerSequence
+  }
+
+  const run = await mastra.getWorkflow('transactionApprovalWorkflow').createRunAsync()
+
+  const result = await run.start({ inputData: { network, transaction, keyAlias, signature, reason } })
+
+  if (result.status !== 'suspended') {
+    throw new Error(`Failed to hold the transaction for approval: ${result.status}`)
+  }
+
+  const { suspendPayload } = result.steps[requestApproval.id] as { suspendPayload: ApprovalRequest }
+
+  mastra.getLogger()?.info('Transaction waiting for approval', { runId: run.runId, reason })
+
+  return {
+    status: 'approval_required',
+    workflowId: transactionApprovalWorkflow.id,
+    runId: run.runId,
+    step: requestApproval.id,
+    reason,
+    summary: suspendPayload.summaries[0],
+    transaction: suspendPayload.transactions[0],
+  }
+}
+
+export { transactionApprovalWorkflow }
@@ -0,0 +1,46 @@
+import { SubmittableTransaction } from 'xrpl'
+import z from 'zod'
+
+/**
+ * Suspend payload of a step waiting for approval
+ *
+ * Describes the transactions the step is about to submit, so a human can review them before they hit the ledger.
+ */
+export const approvalRequestSchema = z.object({
+  reason: z.string().describe('Why the transactions need approval'),
+  summaries: z
+    .array(z.string())
+    .describe('Human-readable summary of each transaction: amounts, destination, flags, fee'),
+  transactions: z.array(z.record(z.unknown())).describe('The autofilled transactions to approve'),
+})
+
+export type ApprovalRequest = z.infer<typeof approvalRequestSchema>
+
+/**
+ * Resume payload of a step waiting for approval
+ *
+ * The step only continues when approved is true, any other decision fails the run.
+ */
+export const approvalDecisionSchema = z.object({
+  approved: z.boolean().describe('Whether the transactions are approved'),
+  reviewer: z.string().optional().describe('Who reviewed the transactions'),
+  comment: z.string().optional().describe('Why the transactions were approved or rejected'),
+})
+
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>
+
+/**
+ * Input schema of the transaction approval workflow
+ *
+ * A transaction built by a transaction tool, waiting for approval before it is submitted.
+ * Only the key alias is part of the input, the key is resolved from the keystore once approved.
+ */
+export const transactionApprovalWorkflowSchema = z.object({
+  network: z.string().describe('Network to submit the transaction to'),
+  transaction: z
+    .custom<SubmittableTransaction>()
+    .describe('The transaction to submit once approved, prepared except for its LastLedgerSequence'),
+  keyAlias: z.string().optional().describe('Alias of the key that signs the transaction once approved'),
+  signature: z.string().optional().describe('Signed transaction blob to submit once approved'),
+  reason: z.string().describe('Why the transaction needs approval'),
+})